@@ -0,0 +1,131 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { Bell, BellRing, BellOff, Check, CheckCircle } from 'lucide-react';
+import { PageLoader } from '@/components/common/LoadingSpinner';
+import { ErrorState } from '@/components/common/ErrorState';
+import { OpenAlerts, PastAlerts } from '@/components/alerts/AlertList';
+import { AlertSilences } from '@/components/alerts/AlertSilences';
+import { AlertChannels } from '@/components/alerts/AlertChannels';
+import { useAlerts } from '@/hooks/useNodes';
+import { AlertStatus } from '@/types';
+
+export default function AlertsPage() {
+  const { data, error, isLoading, mutate, acknowledge, silence, endSilence } = useAlerts();
+
+  if (error) {
+    return (
+      <div className="container py-8">
+        <ErrorState
+          title="Failed to load alerts"
+          message="Could not read the alerts recorded by the collector."
+          onRetry={() => mutate()}
+        />
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return <PageLoader />;
+  }
+
+  const count = (status: AlertStatus) => data.open.filter((a) => a.status === status).length;
+
+  return (
+    <div className="min-h-screen">
+      {/* Hero Header with gradient */}
+      <div className="relative overflow-hidden bg-gradient-to-br from-xandeum-dark via-[#0a1525] to-background border-b border-border/50">
+        <motion.div
+          className="absolute top-0 right-0 w-[500px] h-[500px] bg-xandeum-orange/10 rounded-full blur-[150px]"
+          animate={{ scale: [1, 1.1, 1], opacity: [0.2, 0.3, 0.2] }}
+          transition={{ duration: 8, repeat: Infinity }}
+        />
+
+        <div className="container relative py-8 lg:py-12">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex flex-col lg:flex-row lg:items-center justify-between gap-6"
+          >
+            <div className="flex items-center gap-4">
+              <div className="p-3 rounded-xl bg-gradient-to-br from-xandeum-orange to-orange-600 shadow-lg shadow-xandeum-orange/30">
+                <Bell className="h-8 w-8 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl lg:text-4xl font-bold text-white">Alerts</h1>
+                <p className="text-white/60 mt-1">
+                  Raised by the collector&apos;s rules on every poll
+                </p>
+              </div>
+            </div>
+
+            {/* Quick Stats */}
+            <div className="flex flex-wrap gap-4 lg:gap-6">
+              <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-white/5 border border-white/10">
+                <BellRing className="h-5 w-5 text-red-400" />
+                <div>
+                  <p className="text-2xl font-bold text-white">{count('firing')}</p>
+                  <p className="text-xs text-white/50">Firing</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-white/5 border border-white/10">
+                <Check className="h-5 w-5 text-blue-400" />
+                <div>
+                  <p className="text-2xl font-bold text-white">{count('acknowledged')}</p>
+                  <p className="text-xs text-white/50">Acknowledged</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-white/5 border border-white/10">
+                <BellOff className="h-5 w-5 text-white/60" />
+                <div>
+                  <p className="text-2xl font-bold text-white">{count('silenced')}</p>
+                  <p className="text-xs text-white/50">Silenced</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-white/5 border border-white/10">
+                <CheckCircle className="h-5 w-5 text-green-400" />
+                <div>
+                  <p className="text-2xl font-bold text-white">{data.past.length}</p>
+                  <p className="text-xs text-white/50">Resolved (7d)</p>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      </div>
+
+      <div className="container py-6 space-y-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+        >
+          <OpenAlerts
+            alerts={data.open}
+            onAcknowledge={(id) => acknowledge(id)}
+            onSilence={(alert, duration) =>
+              silence({
+                ruleId: alert.ruleId,
+                pubkey: alert.pubkey ?? undefined,
+                duration,
+                reason: `Silenced from alert: ${alert.message}`,
+              })
+            }
+          />
+        </motion.div>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_22rem]">
+          <PastAlerts alerts={data.past} />
+          <AlertSilences
+            silences={data.silences}
+            rules={data.rules}
+            onSilence={silence}
+            onEndSilence={endSilence}
+          />
+        </div>
+
+        <AlertChannels />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+// =============================================================================
+// API Route: POST /api/alerts/acknowledge
+// Acknowledge an open alert: { "id": "<alert id>", "note": "..." }
+// (admin only)
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { acknowledgeAlert } from '@/lib/alertLifecycle';
+import { requireAdmin } from '@/lib/adminAuth';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { AlertInstance, ApiResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const networkName = request.nextUrl.searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body.id !== 'string') {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Body must be JSON with the alert "id"',
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+    const note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null;
+
+    const alert = await acknowledgeAlert(body.id, note, network.name);
+    if (!alert) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `No open alert "${body.id}"`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 404 }
+      );
+    }
+
+    const response: ApiResponse<AlertInstance> = {
+      success: true,
+      data: alert,
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error acknowledging alert:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to acknowledge alert',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+// =============================================================================
+// API Route: POST /api/alerts/channels/[id]/test
+// Send a test alert to one channel and return the delivery (admin only,
+// at most once per channel per cooldown)
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { reserveTestAlert, sendTestAlert } from '@/lib/alertChannels';
+import { requireAdmin } from '@/lib/adminAuth';
+import { AlertDelivery, ApiResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const wait = reserveTestAlert(params.id);
+    if (wait > 0) {
+      const seconds = Math.ceil(wait / 1000);
+      return NextResponse.json(
+        {
+          success: false,
+          error: `A test alert was sent to "${params.id}" recently; try again in ${seconds}s`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 429, headers: { 'Retry-After': String(seconds) } }
+      );
+    }
+
+    const delivery = await sendTestAlert(params.id);
+
+    if (!delivery) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown alert channel "${params.id}"`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 404 }
+      );
+    }
+
+    // A failed delivery is still a result; the client shows its error
+    const response: ApiResponse<AlertDelivery> = {
+      success: true,
+      data: delivery,
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error sending test alert:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to send test alert',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+// =============================================================================
+// API Route: GET /api/alerts/channels
+// Configured notification channels (without secrets) and recent deliveries
+// =============================================================================
+
+import { NextResponse } from 'next/server';
+import { getDeliveries, readAlertChannels, summarizeChannel } from '@/lib/alertChannels';
+import { ALERT_DELIVERY_CONFIG } from '@/lib/constants';
+import { AlertChannelSummary, AlertDelivery, ApiResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const [channels, deliveries] = await Promise.all([
+      readAlertChannels(),
+      getDeliveries({ limit: ALERT_DELIVERY_CONFIG.recentDeliveries }),
+    ]);
+
+    const response: ApiResponse<{
+      channels: AlertChannelSummary[];
+      deliveries: AlertDelivery[];
+    }> = {
+      success: true,
+      data: {
+        channels: channels.map(summarizeChannel),
+        deliveries,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching alert channels:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch alert channels',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
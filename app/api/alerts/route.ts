@@ -0,0 +1,69 @@
+// =============================================================================
+// API Route: GET /api/alerts
+// Open alerts, alerts resolved in a range, pending conditions, silences and
+// the configured rules
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ALERT_RULES } from '@/lib/alertRules';
+import { readAlertState } from '@/lib/alerts';
+import { getAlertInstances, getSilences } from '@/lib/alertLifecycle';
+import { parseTimeParam } from '@/lib/history';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ALERTS_CONFIG } from '@/lib/constants';
+import { AlertsOverview, ApiResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Resolved alerts default to the last 7 days
+    const to = parseTimeParam(searchParams.get('to'), Date.now());
+    const from = parseTimeParam(searchParams.get('from'), to - ALERTS_CONFIG.historyWindow);
+
+    const [instances, states, silences] = await Promise.all([
+      getAlertInstances({ from, to, network: network.name }),
+      readAlertState(network.name),
+      getSilences(network.name),
+    ]);
+
+    const response: ApiResponse<AlertsOverview> = {
+      success: true,
+      data: {
+        rules: ALERT_RULES,
+        open: instances.open,
+        past: instances.past,
+        pending: states.filter((s) => !s.firing),
+        silences,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error fetching alerts:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch alerts',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// =============================================================================
+// API Route: DELETE /api/alerts/silences/[id]
+// End a silence early (admin only)
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { expireSilence } from '@/lib/alertLifecycle';
+import { requireAdmin } from '@/lib/adminAuth';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ApiResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const networkName = request.nextUrl.searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    if (!(await expireSilence(params.id, network.name))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `No current silence "${params.id}"`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 404 }
+      );
+    }
+
+    const response: ApiResponse<{ id: string }> = {
+      success: true,
+      data: { id: params.id },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error ending silence:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to end silence',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
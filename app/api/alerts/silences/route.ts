@@ -0,0 +1,90 @@
+// =============================================================================
+// API Route: POST /api/alerts/silences
+// Silence alerts of a rule and/or node:
+// { "ruleId": "...", "pubkey": "...", "duration": "4h", "reason": "..." }
+// (or "endsAt", and optionally "startsAt", as Unix ms or ISO dates).
+// Admin only.
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createSilence, validateSilence } from '@/lib/alertLifecycle';
+import { requireAdmin } from '@/lib/adminAuth';
+import { parseDuration } from '@/lib/history';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { AlertSilence, ApiResponse } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Parse a time given as Unix ms or an ISO date
+ */
+function parseTime(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value !== 'string') return null;
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? null : parsed;
+}
+
+function badRequest(error: string) {
+  return NextResponse.json(
+    {
+      success: false,
+      error,
+      timestamp: Date.now(),
+    } as ApiResponse<null>,
+    { status: 400 }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  const denied = requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const networkName = request.nextUrl.searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return badRequest(`Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`);
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return badRequest('Body must be a JSON object');
+    }
+
+    const startsAt = body.startsAt === undefined ? Date.now() : parseTime(body.startsAt);
+    if (startsAt === null) return badRequest('startsAt must be Unix ms or an ISO date');
+
+    const duration = typeof body.duration === 'string' ? parseDuration(body.duration) : null;
+    const endsAt = duration !== null ? startsAt + duration : parseTime(body.endsAt);
+    if (endsAt === null) return badRequest('Give a duration (e.g. "4h") or endsAt');
+
+    const input = {
+      ruleId: typeof body.ruleId === 'string' && body.ruleId ? body.ruleId : null,
+      pubkey: typeof body.pubkey === 'string' && body.pubkey.trim() ? body.pubkey.trim() : null,
+      startsAt,
+      endsAt,
+      reason: typeof body.reason === 'string' ? body.reason.trim() : '',
+    };
+    const problem = validateSilence(input);
+    if (problem) return badRequest(problem);
+
+    const response: ApiResponse<AlertSilence> = {
+      success: true,
+      data: await createSilence(input, network.name),
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error('Error creating silence:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to create silence',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
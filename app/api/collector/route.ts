@@ -0,0 +1,44 @@
+// =============================================================================
+// API Route: GET /api/collector
+// Liveness of the background collector, read from its status file
+// =============================================================================
+
+import { NextResponse } from 'next/server';
+import { readCollectorStatus, isCollectorAlive } from '@/lib/collector';
+import { ApiResponse, CollectorStatus } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const status = await readCollectorStatus();
+
+    const response: ApiResponse<{
+      alive: boolean;
+      status: CollectorStatus | null;
+    }> = {
+      success: true,
+      data: {
+        alive: status ? isCollectorAlive(status) : false,
+        status,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error reading collector status:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read collector status',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+// =============================================================================
+// API Route: GET /api/consensus
+// Gossip agreement across every pRPC endpoint of a network
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchConsensus } from '@/lib/xandeumClient';
+import { PRPC_CONFIG } from '@/lib/constants';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ApiResponse, ConsensusReport, PrpcMode } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Queried in parallel regardless of PRPC_MODE, which only decides
+    // whether the rest of the app uses the merged view
+    const { report } = await fetchConsensus({ network: network.name });
+
+    const response: ApiResponse<{ mode: PrpcMode } & ConsensusReport> = {
+      success: true,
+      data: {
+        mode: PRPC_CONFIG.mode,
+        ...report,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching gossip consensus:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch gossip consensus',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
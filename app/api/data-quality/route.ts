@@ -0,0 +1,57 @@
+// =============================================================================
+// API Route: GET /api/data-quality
+// Anomalies in a network's gossip data
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchPods, getParseReport } from '@/lib/xandeumClient';
+import { buildDataQualityReport } from '@/lib/dataQuality';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ApiResponse, DataQualityReport } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // The parse report belongs to the fetch that filled the pod cache
+    const nodes = await fetchPods(undefined, { network: network.name });
+    const report = buildDataQualityReport(nodes, getParseReport(network.name), network.name);
+
+    const response: ApiResponse<DataQualityReport> = {
+      success: true,
+      data: report,
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+      },
+    });
+  } catch (error) {
+    console.error('Error checking data quality:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to check data quality',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
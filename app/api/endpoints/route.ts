@@ -0,0 +1,54 @@
+// =============================================================================
+// API Route: GET /api/endpoints
+// Observed health of a network's pRPC endpoints, best first
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { rankEndpoints } from '@/lib/endpointRegistry';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ApiResponse, EndpointHealth } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    const endpoints = rankEndpoints(network.endpoints);
+
+    const response: ApiResponse<{ endpoints: EndpointHealth[] }> = {
+      success: true,
+      data: { endpoints },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error reading endpoint health:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to read endpoint health',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
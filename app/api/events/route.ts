@@ -0,0 +1,96 @@
+// =============================================================================
+// API Route: GET /api/events
+// Recorded node events, newest first, with per-type counts
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getEvents, NODE_EVENT_TYPES } from '@/lib/events';
+import { parseTimeParam } from '@/lib/history';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { EVENTS_CONFIG } from '@/lib/constants';
+import { ApiResponse, NodeEvent, NodeEventType } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Comma-separated, e.g. ?type=offline,recovered
+    const typeParam = searchParams.get('type');
+    const types = typeParam ? (typeParam.split(',').map((t) => t.trim()) as NodeEventType[]) : undefined;
+    const unknown = types?.filter((t) => !NODE_EVENT_TYPES.includes(t)) ?? [];
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown event type "${unknown[0]}". Available: ${NODE_EVENT_TYPES.join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Defaults to everything recorded, capped by limit
+    const to = parseTimeParam(searchParams.get('to'), Date.now());
+    const from = parseTimeParam(searchParams.get('from'), 0);
+    const pubkey = searchParams.get('pubkey') || undefined;
+    const limitParam = parseInt(searchParams.get('limit') || '', 10);
+    const limit = Math.min(
+      isNaN(limitParam) || limitParam < 1 ? EVENTS_CONFIG.defaultLimit : limitParam,
+      EVENTS_CONFIG.maxLimit
+    );
+
+    const events = await getEvents({ pubkey, types, from, to, limit, network: network.name });
+
+    const counts: Partial<Record<NodeEventType, number>> = {};
+    for (const event of events) {
+      counts[event.type] = (counts[event.type] || 0) + 1;
+    }
+
+    const response: ApiResponse<{
+      from: number;
+      to: number;
+      events: NodeEvent[];
+      counts: Partial<Record<NodeEventType, number>>;
+    }> = {
+      success: true,
+      data: {
+        from,
+        to,
+        events,
+        counts,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching events:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch events',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
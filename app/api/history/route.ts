@@ -0,0 +1,82 @@
+// =============================================================================
+// API Route: GET /api/history
+// Network-wide time series from stored snapshots
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { clampToRetention, getNetworkHistory, parseTimeParam, resolveResolution } from '@/lib/history';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ApiResponse, NetworkHistoryPoint } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Defaults to the last 24 hours
+    const to = parseTimeParam(searchParams.get('to'), Date.now());
+    const from = parseTimeParam(searchParams.get('from'), to - 24 * 60 * 60 * 1000);
+
+    if (from > to) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '"from" must be before "to"',
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Nothing older is retained, and the resolution should fit the data
+    const start = clampToRetention(from, to);
+    const resolution = resolveResolution(searchParams.get('resolution'), start, to);
+    const points = await getNetworkHistory(start, to, resolution, network.name);
+
+    const response: ApiResponse<{
+      from: number;
+      to: number;
+      resolution: number;
+      points: NetworkHistoryPoint[];
+    }> = {
+      success: true,
+      data: {
+        from: start,
+        to,
+        resolution,
+        points,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching history:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch history',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
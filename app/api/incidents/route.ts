@@ -0,0 +1,69 @@
+// =============================================================================
+// API Route: GET /api/incidents
+// The ongoing network incident and past ones, newest first
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getIncidents } from '@/lib/incidents';
+import { parseTimeParam } from '@/lib/history';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ApiResponse, Incident } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Defaults to everything kept (the retention period)
+    const to = parseTimeParam(searchParams.get('to'), Date.now());
+    const from = parseTimeParam(searchParams.get('from'), 0);
+
+    const { current, past } = await getIncidents({ from, to, network: network.name });
+
+    const response: ApiResponse<{
+      from: number;
+      to: number;
+      current: Incident | null;
+      past: Incident[];
+    }> = {
+      success: true,
+      data: {
+        from,
+        to,
+        current,
+        past,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching incidents:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch incidents',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
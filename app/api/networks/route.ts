@@ -0,0 +1,71 @@
+// =============================================================================
+// API Route: GET /api/networks
+// Current state of every configured network, for side-by-side comparison
+// =============================================================================
+
+import { NextResponse } from 'next/server';
+import { fetchPods } from '@/lib/xandeumClient';
+import { calculateNetworkStats } from '@/lib/metrics';
+import { getReleaseInfo } from '@/lib/versions';
+import { DEFAULT_NETWORK, NETWORKS } from '@/lib/networks';
+import { ApiResponse, NetworkSummary } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Summarize one network, capturing failure instead of throwing so one
+ * unreachable network does not hide the others
+ */
+async function summarizeNetwork(name: string, endpointCount: number): Promise<NetworkSummary> {
+  const started = Date.now();
+  const summary = { name, isDefault: name === DEFAULT_NETWORK, endpointCount };
+
+  try {
+    const nodes = await fetchPods(undefined, { network: name });
+    return {
+      ...summary,
+      stats: calculateNetworkStats(nodes),
+      currentRelease: nodes.length > 0 ? getReleaseInfo(nodes).current : null,
+      error: null,
+      latency: Date.now() - started,
+    };
+  } catch (error) {
+    return {
+      ...summary,
+      stats: null,
+      currentRelease: null,
+      error: error instanceof Error ? error.message : String(error),
+      latency: Date.now() - started,
+    };
+  }
+}
+
+export async function GET() {
+  try {
+    const networks = await Promise.all(
+      NETWORKS.map((n) => summarizeNetwork(n.name, n.endpoints.length))
+    );
+
+    const response: ApiResponse<{ networks: NetworkSummary[] }> = {
+      success: true,
+      data: { networks },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching network summaries:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch network summaries',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,75 @@
+// =============================================================================
+// API Route: GET /api/nodes/[pubkey]/deep-stats
+// The system stats last collected from a pNode itself, read from storage
+// without fetching the pod list
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getNodeDeepStats } from '@/lib/deepStats';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ApiResponse, NodeDeepStats } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { pubkey: string } }
+) {
+  try {
+    const { pubkey } = params;
+
+    if (!pubkey) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Public key is required',
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    const networkName = request.nextUrl.searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    const deepStats = await getNodeDeepStats(pubkey, network.name);
+
+    const response: ApiResponse<{
+      pubkey: string;
+      deepStats: NodeDeepStats | null;
+    }> = {
+      success: true,
+      data: {
+        pubkey,
+        deepStats,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching node deep stats:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch node deep stats',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -0,0 +1,105 @@
+// =============================================================================
+// API Route: GET /api/nodes/[pubkey]/history
+// Time series of a single pNode from stored snapshots
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { clampToRetention, getNodeHistory, parseTimeParam, resolveResolution } from '@/lib/history';
+import { getRestarts } from '@/lib/restarts';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ApiResponse, NodeHistoryEntry, RestartEvent } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { pubkey: string } }
+) {
+  try {
+    const { pubkey } = params;
+    const searchParams = request.nextUrl.searchParams;
+
+    if (!pubkey) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Public key is required',
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Defaults to the last 24 hours
+    const to = parseTimeParam(searchParams.get('to'), Date.now());
+    const from = parseTimeParam(searchParams.get('from'), to - 24 * 60 * 60 * 1000);
+
+    if (from > to) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '"from" must be before "to"',
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Nothing older is retained, and the resolution should fit the data
+    const start = clampToRetention(from, to);
+    const resolution = resolveResolution(searchParams.get('resolution'), start, to);
+    const [entries, restarts] = await Promise.all([
+      getNodeHistory(pubkey, start, to, resolution, network.name),
+      getRestarts({ pubkey, from: start, to, network: network.name }),
+    ]);
+
+    const response: ApiResponse<{
+      pubkey: string;
+      from: number;
+      to: number;
+      resolution: number;
+      entries: NodeHistoryEntry[];
+      restarts: RestartEvent[];
+    }> = {
+      success: true,
+      data: {
+        pubkey,
+        from: start,
+        to,
+        resolution,
+        entries,
+        restarts,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching node history:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch node history',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
@@ -1,12 +1,32 @@
 // =============================================================================
 // API Route: GET /api/nodes/[pubkey]
-// Fetch a single pNode by public key
+// Fetch a single pNode by public key, with an explained health score and
+// the system stats last collected from the node itself
 // =============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { fetchNode } from '@/lib/xandeumClient';
-import { PNode, ApiResponse } from '@/types';
-import { calculateHealthFactors } from '@/lib/metrics';
+import { fetchPods } from '@/lib/xandeumClient';
+import {
+  PNode,
+  ApiResponse,
+  RestartEvent,
+  HealthExplanation,
+  ReleaseInfo,
+  NodeDeepStats,
+} from '@/types';
+import {
+  calculateHealthFactors,
+  calculateHealthScore,
+  explainHealthScore,
+  getHealthProfile,
+  HEALTH_PROFILES,
+  HEALTH_SCORE_VERSION,
+} from '@/lib/healthScore';
+import { getRestarts } from '@/lib/restarts';
+import { getNodeDeepStats } from '@/lib/deepStats';
+import { getReleaseInfo } from '@/lib/versions';
+import { RESTART_CONFIG } from '@/lib/constants';
+import { getNetwork, NETWORKS } from '@/lib/networks';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 60;
@@ -29,8 +49,49 @@ export async function GET(
       );
     }
 
+    const searchParams = request.nextUrl.searchParams;
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Resolve the scoring profile
+    const profileName = searchParams.get('profile');
+    const profile = getHealthProfile(profileName);
+    if (!profile) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown profile "${profileName}". Available: ${Object.keys(HEALTH_PROFILES).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
     // Fetch REAL node from Xandeum pRPC - NO MOCK DATA
-    const node: PNode | null = await fetchNode(pubkey);
+    const [pods, restarts, deepStats] = await Promise.all([
+      fetchPods(undefined, { network: network.name }),
+      getRestarts({ pubkey, from: Date.now() - RESTART_CONFIG.countWindow, network: network.name }),
+      getNodeDeepStats(pubkey, network.name),
+    ]);
+    const pod = pods.find((n) => n.pubkey === pubkey);
+    const release = getReleaseInfo(pods);
+    const node: PNode | null = pod
+      ? {
+          ...pod,
+          healthScore: calculateHealthScore(pod, pod.status, release.current, profile),
+          restartCount: restarts.length,
+        }
+      : null;
 
     if (!node) {
       return NextResponse.json(
@@ -44,16 +105,29 @@ export async function GET(
     }
 
     // Calculate additional health factors for detail view
-    const healthFactors = calculateHealthFactors(node, node.status);
+    const healthFactors = calculateHealthFactors(node, node.status, release.current, profile);
+    const explanation = explainHealthScore(node, node.status, release.current, profile);
 
     const response: ApiResponse<{
       node: PNode;
       healthFactors: typeof healthFactors;
+      explanation: HealthExplanation;
+      release: ReleaseInfo;
+      profile: string;
+      scoreVersion: number;
+      restarts: RestartEvent[];
+      deepStats: NodeDeepStats | null;
     }> = {
       success: true,
       data: {
         node,
         healthFactors,
+        explanation,
+        release,
+        profile: profile.name,
+        scoreVersion: HEALTH_SCORE_VERSION,
+        restarts,
+        deepStats,
       },
       timestamp: Date.now(),
     };
@@ -1,12 +1,20 @@
 // =============================================================================
 // API Route: GET /api/nodes
-// Fetch all pNodes with optional filtering and sorting
+// Fetch all pNodes with optional filtering, sorting and scoring profile
 // =============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchPods } from '@/lib/xandeumClient';
 import { PNode, ApiResponse, NodeFilters } from '@/types';
 import { sortCompare } from '@/lib/utils';
+import { countRestarts } from '@/lib/restarts';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import {
+  HEALTH_SCORE_VERSION,
+  HEALTH_PROFILES,
+  getHealthProfile,
+  applyHealthProfile,
+} from '@/lib/healthScore';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 60;
@@ -15,6 +23,33 @@ export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
 
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Resolve the scoring profile
+    const profileName = searchParams.get('profile');
+    const profile = getHealthProfile(profileName);
+    if (!profile) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown profile "${profileName}". Available: ${Object.keys(HEALTH_PROFILES).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
     // Parse filter parameters
     const filters: NodeFilters = {
       status: (searchParams.get('status') as NodeFilters['status']) || 'all',
@@ -25,7 +60,14 @@ export async function GET(request: NextRequest) {
     };
 
     // Fetch REAL nodes from Xandeum pRPC - NO MOCK DATA
-    const nodes: PNode[] = await fetchPods();
+    const [pods, restartCounts] = await Promise.all([
+      fetchPods(undefined, { network: network.name }),
+      countRestarts(undefined, network.name),
+    ]);
+    const nodes: PNode[] = applyHealthProfile(pods, profile).map((n) => ({
+      ...n,
+      restartCount: restartCounts[n.pubkey] || 0,
+    }));
 
     // Apply filters
     let filteredNodes = nodes;
@@ -67,12 +109,16 @@ export async function GET(request: NextRequest) {
       nodes: PNode[];
       total: number;
       filtered: number;
+      scoreVersion: number;
+      profile: string;
     }> = {
       success: true,
       data: {
         nodes: filteredNodes,
         total: nodes.length,
         filtered: filteredNodes.length,
+        scoreVersion: HEALTH_SCORE_VERSION,
+        profile: profile.name,
       },
       timestamp: Date.now(),
     };
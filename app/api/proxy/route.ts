@@ -1,23 +1,19 @@
 // =============================================================================
 // API Route: POST /api/proxy
-// Proxy to pRPC - Using Edge Runtime for better network connectivity
+// Proxy to pRPC. Runs on the Node runtime: its endpoints come from the
+// runtime config, which is read from the config file when the server starts.
 // =============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
+import { mergePods, buildConsensusReport } from '@/lib/consensus';
+import { parsePodsResult, summarizeReport } from '@/lib/prpcSchema';
+import { PRPC_CONFIG } from '@/lib/constants';
+import { getNetwork } from '@/lib/networks';
+import { EndpointPods } from '@/types';
 
-// Use Edge Runtime - has fewer network restrictions than Node.js serverless
-export const runtime = 'edge';
 export const preferredRegion = ['fra1', 'iad1', 'sfo1']; // Multiple regions for redundancy
 
-const ENDPOINTS = [
-  'http://45.151.122.71:6000/rpc',
-  'http://192.190.136.36:6000/rpc',
-  'http://62.171.135.107:6000/rpc',
-  'http://154.38.175.38:6000/rpc',
-  'http://152.53.236.91:6000/rpc',
-];
-
-const TIMEOUT = 8000;
+const TIMEOUT = PRPC_CONFIG.timeout;
 
 async function tryEndpoint(endpoint: string, body: string): Promise<Response> {
   const controller = new AbortController();
@@ -38,18 +34,95 @@ async function tryEndpoint(endpoint: string, body: string): Promise<Response> {
   }
 }
 
+/**
+ * Ask every endpoint for its pods in parallel and answer with the merged
+ * list, each pod carrying the endpoints that see it
+ */
+async function consensusPods(endpoints: string[], body: string, id: unknown): Promise<NextResponse> {
+  const answers: EndpointPods[] = await Promise.all(
+    endpoints.map(async (endpoint) => {
+      const started = Date.now();
+      try {
+        const response = await tryEndpoint(endpoint, body);
+        if (!response.ok) throw new Error(`HTTP error: ${response.status}`);
+        const data = await response.json();
+        if (data.error) throw new Error(data.error.message || 'pRPC error');
+        const { pods, report } = parsePodsResult(data.result);
+        const summary = summarizeReport(report);
+        if (summary) console.warn(`[Proxy] ${endpoint} ${summary}`);
+        return { endpoint, pods, error: null, latency: Date.now() - started, report };
+      } catch (error) {
+        return {
+          endpoint,
+          pods: [],
+          error: error instanceof Error ? error.message : String(error),
+          latency: Date.now() - started,
+          report: null,
+        };
+      }
+    })
+  );
+
+  if (answers.every((a) => a.error !== null)) {
+    return NextResponse.json(
+      { error: 'All pRPC endpoints unreachable' },
+      { status: 502 }
+    );
+  }
+
+  const pods = mergePods(answers);
+
+  return NextResponse.json(
+    {
+      jsonrpc: '2.0',
+      id,
+      result: {
+        pods,
+        total_count: pods.length,
+        consensus: buildConsensusReport(answers, pods),
+      },
+    },
+    {
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Cache-Control': 'public, s-maxage=15, stale-while-revalidate=30',
+      },
+    }
+  );
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body = await request.text();
 
-    for (const endpoint of ENDPOINTS) {
+    // Endpoints of the selected network (?network=), the default one if none
+    const networkName = request.nextUrl.searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        { error: `Unknown network "${networkName}"` },
+        { status: 400 }
+      );
+    }
+
+    // Pod lists are merged across all endpoints in consensus mode
+    // (PRPC_MODE=consensus, or ?mode=consensus per request)
+    const mode = request.nextUrl.searchParams.get('mode') ?? PRPC_CONFIG.mode;
+    if (mode === 'consensus') {
+      const rpc = JSON.parse(body);
+      if (rpc.method === 'get-pods-with-stats') {
+        return consensusPods(network.endpoints, body, rpc.id);
+      }
+    }
+
+    for (const endpoint of network.endpoints) {
       try {
-        console.log(`[Edge Proxy] Trying: ${endpoint}`);
+        console.log(`[Proxy] Trying: ${endpoint}`);
         const response = await tryEndpoint(endpoint, body);
 
         if (response.ok) {
           const data = await response.json();
-          console.log(`[Edge Proxy] Success from: ${endpoint}`);
+          console.log(`[Proxy] Success from: ${endpoint}`);
 
           return NextResponse.json(data, {
             headers: {
@@ -59,7 +132,7 @@ export async function POST(request: NextRequest) {
           });
         }
       } catch (error) {
-        console.log(`[Edge Proxy] Failed ${endpoint}:`, error);
+        console.log(`[Proxy] Failed ${endpoint}:`, error);
       }
     }
 
@@ -68,7 +141,7 @@ export async function POST(request: NextRequest) {
       { status: 502 }
     );
   } catch (error) {
-    console.error('[Edge Proxy] Error:', error);
+    console.error('[Proxy] Error:', error);
     return NextResponse.json(
       { error: 'Proxy error' },
       { status: 500 }
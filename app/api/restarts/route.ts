@@ -0,0 +1,76 @@
+// =============================================================================
+// API Route: GET /api/restarts
+// Detected node restarts, with per-node counts
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRestarts } from '@/lib/restarts';
+import { parseTimeParam } from '@/lib/history';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { RESTART_CONFIG } from '@/lib/constants';
+import { ApiResponse, RestartEvent } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Defaults to the restart count window (7 days)
+    const to = parseTimeParam(searchParams.get('to'), Date.now());
+    const from = parseTimeParam(searchParams.get('from'), to - RESTART_CONFIG.countWindow);
+    const pubkey = searchParams.get('pubkey') || undefined;
+
+    const events = await getRestarts({ pubkey, from, to, network: network.name });
+
+    const counts: Record<string, number> = {};
+    for (const event of events) {
+      counts[event.pubkey] = (counts[event.pubkey] || 0) + 1;
+    }
+
+    const response: ApiResponse<{
+      from: number;
+      to: number;
+      events: RestartEvent[];
+      counts: Record<string, number>;
+    }> = {
+      success: true,
+      data: {
+        from,
+        to,
+        events,
+        counts,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching restarts:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch restarts',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
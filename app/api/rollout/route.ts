@@ -0,0 +1,97 @@
+// =============================================================================
+// API Route: GET /api/rollout
+// Per-version adoption over time, release milestones and laggard nodes
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { parseTimeParam, resolveResolution } from '@/lib/history';
+import { getVersionRollout } from '@/lib/rollout';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ROLLOUT_CONFIG } from '@/lib/constants';
+import { ApiResponse, VersionRollout } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Defaults to the last 30 days
+    const to = parseTimeParam(searchParams.get('to'), Date.now());
+    const from = parseTimeParam(searchParams.get('from'), to - 30 * 24 * 60 * 60 * 1000);
+
+    if (from > to) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '"from" must be before "to"',
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    const graceParam = searchParams.get('graceDays');
+    const graceDays = graceParam === null ? ROLLOUT_CONFIG.laggardGraceDays : Number(graceParam);
+
+    if (!Number.isFinite(graceDays) || graceDays < 0) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: '"graceDays" must be a non-negative number',
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    const resolution = resolveResolution(searchParams.get('resolution'), from, to);
+    const rollout = await getVersionRollout(from, to, resolution, graceDays, Date.now(), network.name);
+
+    const response: ApiResponse<
+      {
+        from: number;
+        to: number;
+        resolution: number;
+      } & VersionRollout
+    > = {
+      success: true,
+      data: {
+        from,
+        to,
+        resolution,
+        ...rollout,
+      },
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching version rollout:', error);
+
+    const response: ApiResponse<null> = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to fetch version rollout',
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response, { status: 500 });
+  }
+}
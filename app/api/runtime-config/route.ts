@@ -0,0 +1,22 @@
+// =============================================================================
+// API Route: GET /api/runtime-config
+// The server's runtime configuration as a script that hands it to the
+// browser, loaded by the root layout before the app starts
+// =============================================================================
+
+import { RUNTIME_CONFIG } from '@/lib/config';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  // Escape "<" so a value can never close the script it is embedded in
+  const config = JSON.stringify(RUNTIME_CONFIG).replace(/</g, '\\u003c');
+
+  return new Response(`window.__XANDEUM_RUNTIME_CONFIG__ = ${config};\n`, {
+    headers: {
+      'Content-Type': 'application/javascript; charset=utf-8',
+      // Read on every page load, so a restart with new settings takes effect
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -1,9 +1,9 @@
 // =============================================================================
 // API Route: GET /api/stats
-// Fetch aggregated network statistics
+// Fetch aggregated network statistics, scored with an optional profile
 // =============================================================================
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { fetchPods } from '@/lib/xandeumClient';
 import {
   calculateNetworkStats,
@@ -13,15 +13,55 @@ import {
   getNodesNeedingAttention,
   getNetworkHealthSummary,
 } from '@/lib/metrics';
-import { ApiResponse, NetworkStats, PNode } from '@/types';
+import {
+  HEALTH_SCORE_VERSION,
+  HEALTH_PROFILES,
+  getHealthProfile,
+  applyHealthProfile,
+} from '@/lib/healthScore';
+import { getReleaseInfo } from '@/lib/versions';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ApiResponse, NetworkStats, PNode, ReleaseInfo } from '@/types';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 60;
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const networkName = searchParams.get('network');
+    const network = getNetwork(networkName);
+    if (!network) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
+    // Resolve the scoring profile
+    const profileName = searchParams.get('profile');
+    const profile = getHealthProfile(profileName);
+    if (!profile) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Unknown profile "${profileName}". Available: ${Object.keys(HEALTH_PROFILES).join(', ')}`,
+          timestamp: Date.now(),
+        } as ApiResponse<null>,
+        { status: 400 }
+      );
+    }
+
     // Fetch REAL nodes from Xandeum pRPC - NO MOCK DATA
-    const nodes: PNode[] = await fetchPods();
+    const nodes: PNode[] = applyHealthProfile(
+      await fetchPods(undefined, { network: network.name }),
+      profile
+    );
 
     // Calculate statistics
     const networkStats = calculateNetworkStats(nodes);
@@ -30,6 +70,7 @@ export async function GET() {
     const topNodes = getTopNodes(nodes, 5);
     const needsAttention = getNodesNeedingAttention(nodes);
     const healthSummary = getNetworkHealthSummary(networkStats);
+    const release = getReleaseInfo(nodes);
 
     const response: ApiResponse<{
       network: NetworkStats;
@@ -42,6 +83,9 @@ export async function GET() {
         highStorageCount: number;
       };
       healthSummary: typeof healthSummary;
+      release: ReleaseInfo;
+      scoreVersion: number;
+      profile: string;
     }> = {
       success: true,
       data: {
@@ -55,6 +99,9 @@ export async function GET() {
           highStorageCount: needsAttention.highStorage.length,
         },
         healthSummary,
+        release,
+        scoreVersion: HEALTH_SCORE_VERSION,
+        profile: profile.name,
       },
       timestamp: Date.now(),
     };
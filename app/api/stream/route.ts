@@ -0,0 +1,76 @@
+// =============================================================================
+// API Route: GET /api/stream
+// Server-sent events: the network's pod list, then what changed each poll
+// =============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { subscribeToNodes } from '@/lib/nodeStream';
+import { STREAM_CONFIG } from '@/lib/constants';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { ApiResponse, StreamMessage } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const networkName = request.nextUrl.searchParams.get('network');
+  const network = getNetwork(networkName);
+  if (!network) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Unknown network "${networkName}". Available: ${NETWORKS.map((n) => n.name).join(', ')}`,
+        timestamp: Date.now(),
+      } as ApiResponse<null>,
+      { status: 400 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // Closed while a message was in flight
+          cleanup();
+        }
+      };
+
+      // Reconnect after one poll interval if the connection drops
+      send(`retry: ${STREAM_CONFIG.interval}\n\n`);
+
+      const unsubscribe = subscribeToNodes((message: StreamMessage) => {
+        send(`event: ${message.type}\ndata: ${JSON.stringify(message)}\n\n`);
+      }, network.name);
+      const heartbeat = setInterval(() => send(': ping\n\n'), STREAM_CONFIG.heartbeat);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
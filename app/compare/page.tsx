@@ -28,18 +28,26 @@ import {
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Badge } from '@/components/ui/badge';
 import { StatusBadge } from '@/components/nodes/StatusBadge';
 import { HealthScore } from '@/components/nodes/HealthScore';
+import { VersionBadge } from '@/components/nodes/VersionBadge';
 import { PageLoader } from '@/components/common/LoadingSpinner';
 import { ErrorState } from '@/components/common/ErrorState';
 import { useNodes } from '@/hooks/useNodes';
-import { PNode } from '@/types';
+import { PNode, VersionStatus } from '@/types';
 import { truncateMiddle, formatBytes } from '@/lib/utils';
 import { UI_CONFIG, CHART_COLORS } from '@/lib/constants';
 
 const RADAR_COLORS = ['#F3771F', '#5D2554', '#1C3850', '#22c55e'];
 
+// Radar score for each version status
+const VERSION_SCORES: Record<VersionStatus, number> = {
+  current: 100,
+  'patch-behind': 95,
+  'one-minor-behind': 85,
+  unsupported: 50,
+};
+
 // Radar chart component for visual comparison
 function RadarComparisonChart({ nodes }: { nodes: PNode[] }) {
   const radarData = useMemo(() => {
@@ -60,8 +68,8 @@ function RadarComparisonChart({ nodes }: { nodes: PNode[] }) {
       nodes.forEach((node, i) => {
         let value: number;
         if (metric.key === 'version') {
-          // Convert version to score (0.7.3 = 100, 0.7.2 = 90, etc)
-          value = node.version === '0.7.3' ? 100 : node.version?.startsWith('0.7') ? 85 : 50;
+          // Convert version status to score
+          value = VERSION_SCORES[node.versionStatus];
         } else {
           const rawValue = node[metric.key as keyof PNode] as number;
           value = (rawValue / metric.max) * 100;
@@ -436,9 +444,12 @@ export default function ComparePage() {
                     <CompareRow
                       label="Version"
                       values={selectedNodes.map((n) => (
-                        <Badge key={n.pubkey} variant="version">
-                          v{n.version}
-                        </Badge>
+                        <VersionBadge
+                          key={n.pubkey}
+                          version={n.version}
+                          status={n.versionStatus}
+                          size="md"
+                        />
                       ))}
                     />
                     <CompareRow
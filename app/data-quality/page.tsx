@@ -0,0 +1,262 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import Link from 'next/link';
+import { ShieldAlert, RefreshCw, Database, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { PageLoader } from '@/components/common/LoadingSpinner';
+import { ErrorState } from '@/components/common/ErrorState';
+import { useDataQuality } from '@/hooks/useNodes';
+import { ANOMALY_KINDS, ANOMALY_LABELS } from '@/lib/dataQuality';
+import { cn, truncateMiddle } from '@/lib/utils';
+import { DataAnomalyKind } from '@/types';
+
+// Anomalies listed before the rest are summarized
+const MAX_ROWS = 200;
+
+/**
+ * Short display form of a reported value
+ */
+function formatValue(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined';
+  return text.length > 48 ? `${text.slice(0, 45)}...` : text;
+}
+
+export default function DataQualityPage() {
+  const { data, error, isLoading, mutate } = useDataQuality();
+  const [kind, setKind] = useState<DataAnomalyKind | 'all'>('all');
+
+  if (error) {
+    return (
+      <div className="container py-8">
+        <ErrorState
+          title="Failed to check data quality"
+          message="Could not fetch pNode data from the network."
+          onRetry={() => mutate()}
+        />
+      </div>
+    );
+  }
+
+  if (isLoading || !data) {
+    return <PageLoader />;
+  }
+
+  const anomalies = kind === 'all' ? data.anomalies : data.anomalies.filter((a) => a.kind === kind);
+  const nullFields = Object.entries(data.parse?.nullFields ?? {}).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <div className="min-h-screen">
+      {/* Hero Header with gradient */}
+      <div className="relative overflow-hidden bg-gradient-to-br from-xandeum-dark via-[#0a1525] to-background border-b border-border/50">
+        <motion.div
+          className="absolute top-0 right-0 w-[500px] h-[500px] bg-xandeum-orange/10 rounded-full blur-[150px]"
+          animate={{ scale: [1, 1.1, 1], opacity: [0.2, 0.3, 0.2] }}
+          transition={{ duration: 8, repeat: Infinity }}
+        />
+
+        <div className="container relative py-8 lg:py-12">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="flex flex-col lg:flex-row lg:items-center justify-between gap-6"
+          >
+            <div className="flex items-center gap-4">
+              <div className="p-3 rounded-xl bg-gradient-to-br from-xandeum-orange to-orange-600 shadow-lg shadow-xandeum-orange/30">
+                <ShieldAlert className="h-8 w-8 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl lg:text-4xl font-bold text-white">Data Quality</h1>
+                <p className="text-white/60 mt-1">
+                  Suspect values in the gossip data behind the dashboard
+                </p>
+              </div>
+            </div>
+
+            {/* Quick Stats */}
+            <div className="flex flex-wrap gap-4 lg:gap-6">
+              <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-white/5 border border-white/10">
+                <Database className="h-5 w-5 text-blue-400" />
+                <div>
+                  <p className="text-2xl font-bold text-white">{data.received}</p>
+                  <p className="text-xs text-white/50">Pods Received</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-white/5 border border-white/10">
+                <CheckCircle className="h-5 w-5 text-green-400" />
+                <div>
+                  <p className="text-2xl font-bold text-white">{data.checked}</p>
+                  <p className="text-xs text-white/50">Pods Checked</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-white/5 border border-white/10">
+                <AlertTriangle className="h-5 w-5 text-yellow-400" />
+                <div>
+                  <p className="text-2xl font-bold text-white">{data.affectedPods}</p>
+                  <p className="text-xs text-white/50">Pods Affected</p>
+                </div>
+              </div>
+            </div>
+          </motion.div>
+        </div>
+      </div>
+
+      <div className="container py-6 space-y-6">
+        {/* Anomaly Kinds */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-3"
+        >
+          {(['all', ...ANOMALY_KINDS] as const).map((k) => {
+            const count = k === 'all' ? data.anomalies.length : data.counts[k];
+            return (
+              <button
+                key={k}
+                onClick={() => setKind(k)}
+                className={cn(
+                  'rounded-lg border p-3 text-left transition-colors',
+                  kind === k ? 'border-xandeum-orange bg-xandeum-orange/10' : 'border-border hover:bg-muted/50'
+                )}
+              >
+                <p className={cn('text-2xl font-bold', count > 0 && k !== 'all' && 'text-yellow-500')}>{count}</p>
+                <p className="text-xs text-muted-foreground">{k === 'all' ? 'All anomalies' : ANOMALY_LABELS[k]}</p>
+              </button>
+            );
+          })}
+        </motion.div>
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_18rem]">
+          {/* Anomalies */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="text-lg">
+                  {kind === 'all' ? 'All anomalies' : ANOMALY_LABELS[kind]}
+                </CardTitle>
+                <Button variant="outline" size="sm" onClick={() => mutate()}>
+                  <RefreshCw className="h-4 w-4 sm:mr-1" />
+                  <span className="hidden sm:inline">Refresh</span>
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {anomalies.length === 0 ? (
+                <div className="h-[120px] flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                  <CheckCircle className="h-4 w-4 text-green-500" />
+                  Nothing suspect found
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Kind</TableHead>
+                        <TableHead>Pod</TableHead>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Value</TableHead>
+                        <TableHead>Detail</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {anomalies.slice(0, MAX_ROWS).map((a, i) => (
+                        <TableRow key={`${a.kind}-${a.pubkey ?? a.value}-${a.field}-${i}`}>
+                          <TableCell>
+                            <Badge variant="outline" className="text-xs whitespace-nowrap">
+                              {ANOMALY_LABELS[a.kind]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">
+                            {a.pubkey && a.kind !== 'dropped' ? (
+                              <Link href={`/nodes/${a.pubkey}`} className="hover:text-xandeum-orange">
+                                {truncateMiddle(a.pubkey, 8, 6)}
+                              </Link>
+                            ) : a.pubkey ? (
+                              truncateMiddle(a.pubkey, 8, 6)
+                            ) : a.related.length > 0 ? (
+                              <div className="flex flex-col gap-1">
+                                {a.related.map((pubkey) => (
+                                  <Link key={pubkey} href={`/nodes/${pubkey}`} className="hover:text-xandeum-orange">
+                                    {truncateMiddle(pubkey, 8, 6)}
+                                  </Link>
+                                ))}
+                              </div>
+                            ) : (
+                              <span className="text-muted-foreground">unknown</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{a.field}</TableCell>
+                          <TableCell className="font-mono text-xs">{formatValue(a.value)}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{a.detail}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  {anomalies.length > MAX_ROWS && (
+                    <p className="text-xs text-muted-foreground mt-3">
+                      and {anomalies.length - MAX_ROWS} more
+                    </p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Validation */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Validation</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 text-sm">
+              {data.parse ? (
+                <>
+                  <div className="space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Result shape</span>
+                      <span className="font-mono">{data.parse.shape}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Accepted</span>
+                      <span className="font-mono">{data.parse.accepted}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Dropped</span>
+                      <span className="font-mono">{data.parse.dropped}</span>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="font-medium">Null fields defaulted</p>
+                    {nullFields.length === 0 ? (
+                      <p className="text-muted-foreground">None</p>
+                    ) : (
+                      nullFields.map(([field, count]) => (
+                        <div key={field} className="flex justify-between">
+                          <span className="font-mono text-xs text-muted-foreground">{field}</span>
+                          <span className="font-mono">{count}</span>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </>
+              ) : (
+                <p className="text-muted-foreground">No validation report for the cached pod list yet.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
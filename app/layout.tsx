@@ -1,10 +1,13 @@
 import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
+import Script from 'next/script';
 import { ThemeProvider } from 'next-themes';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { WatchlistProvider } from '@/contexts/WatchlistContext';
+import { HealthProfileProvider } from '@/contexts/HealthProfileContext';
+import { NetworkProvider } from '@/contexts/NetworkContext';
 import { APP_META } from '@/lib/constants';
 import './globals.css';
 
@@ -79,13 +82,17 @@ export default function RootLayout({
   return (
     <html lang="en" suppressHydrationWarning>
       <body className={`${inter.variable} font-sans antialiased`}>
+        {/* Runtime configuration for client code; runs before the app starts */}
+        <Script src="/api/runtime-config" strategy="beforeInteractive" />
         <ThemeProvider
           attribute="class"
           defaultTheme="dark"
           enableSystem
           disableTransitionOnChange
         >
+          <NetworkProvider>
           <WatchlistProvider>
+            <HealthProfileProvider>
             <TooltipProvider>
               <div className="relative flex min-h-screen flex-col">
               {/* Background effects */}
@@ -99,7 +106,9 @@ export default function RootLayout({
                 <Footer />
               </div>
             </TooltipProvider>
+            </HealthProfileProvider>
           </WatchlistProvider>
+          </NetworkProvider>
         </ThemeProvider>
       </body>
     </html>
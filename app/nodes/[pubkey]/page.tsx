@@ -21,11 +21,15 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { StatusBadge } from '@/components/nodes/StatusBadge';
 import { HealthScore } from '@/components/nodes/HealthScore';
+import { NodeHistory } from '@/components/nodes/NodeHistory';
+import { HealthImprovement } from '@/components/nodes/HealthImprovement';
+import { NodeSystemStats } from '@/components/nodes/NodeSystemStats';
+import { VersionBadge, versionStatusConfig } from '@/components/nodes/VersionBadge';
 import { PageLoader } from '@/components/common/LoadingSpinner';
 import { ErrorState } from '@/components/common/ErrorState';
-import { useNode } from '@/hooks/useNodes';
+import { useNode, useRestarts } from '@/hooks/useNodes';
 import { copyToClipboard, formatRelativeTime, formatBytes, formatPercent } from '@/lib/utils';
-import { LATEST_VERSION } from '@/lib/constants';
+import { endpointLabel } from '@/lib/consensus';
 import { useState } from 'react';
 
 export default function NodeDetailPage() {
@@ -35,6 +39,7 @@ export default function NodeDetailPage() {
   const [copied, setCopied] = useState<string | null>(null);
 
   const { data, error, isLoading, mutate } = useNode(pubkey);
+  const { counts: restartCounts } = useRestarts();
 
   const handleCopy = async (text: string, field: string) => {
     const success = await copyToClipboard(text);
@@ -60,8 +65,8 @@ export default function NodeDetailPage() {
     return <PageLoader />;
   }
 
-  const { node, healthFactors } = data;
-  const isLatestVersion = node.version === LATEST_VERSION;
+  const { node, healthFactors, explanation, release } = data;
+  const isCurrentVersion = node.versionStatus === 'current';
 
   return (
     <div className="container py-8 space-y-6">
@@ -102,11 +107,11 @@ export default function NodeDetailPage() {
             <div className="flex items-center gap-2 flex-wrap">
               <h1 className="text-2xl font-bold font-mono">{node.pubkey.slice(0, 8)}...</h1>
               <StatusBadge status={node.status} />
-              <Badge variant="version">v{node.version}</Badge>
-              {!isLatestVersion && (
-                <Badge variant="degraded" className="text-xs">
+              <VersionBadge version={node.version} status={node.versionStatus} size="md" />
+              {!isCurrentVersion && (
+                <Badge variant={versionStatusConfig[node.versionStatus].variant} className="text-xs">
                   <AlertTriangle className="h-3 w-3 mr-1" />
-                  Update Available
+                  Update to v{release.current}
                 </Badge>
               )}
             </div>
@@ -198,6 +203,9 @@ export default function NodeDetailPage() {
         </motion.div>
       </div>
 
+      {/* How to Improve */}
+      <HealthImprovement explanation={explanation} />
+
       {/* Detailed Information */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Node Details */}
@@ -234,6 +242,9 @@ export default function NodeDetailPage() {
                 icon={node.is_public ? CheckCircle : AlertTriangle}
                 iconColor={node.is_public ? 'text-green-500' : 'text-yellow-500'}
               />
+              {node.seenBy && (
+                <DetailRow label="Seen By" value={node.seenBy.map(endpointLabel).join(', ')} />
+              )}
             </CardContent>
           </Card>
         </motion.div>
@@ -250,11 +261,9 @@ export default function NodeDetailPage() {
             </CardHeader>
             <CardContent className="space-y-4">
               <DetailRow label="Version" value={`v${node.version}`}>
-                {isLatestVersion ? (
-                  <Badge variant="online" className="text-xs">Latest</Badge>
-                ) : (
-                  <Badge variant="degraded" className="text-xs">Outdated</Badge>
-                )}
+                <Badge variant={versionStatusConfig[node.versionStatus].variant} className="text-xs">
+                  {versionStatusConfig[node.versionStatus].label}
+                </Badge>
               </DetailRow>
               <DetailRow
                 label="Storage Committed"
@@ -269,6 +278,10 @@ export default function NodeDetailPage() {
                 value={formatPercent(node.storage_usage_percent)}
               />
               <DetailRow label="Uptime" value={node.uptimeFormatted} />
+              <DetailRow
+                label="Restarts (7d)"
+                value={restartCounts ? String(restartCounts[node.pubkey] || 0) : '—'}
+              />
               <DetailRow
                 label="Last Seen"
                 value={formatRelativeTime(node.last_seen_timestamp)}
@@ -319,6 +332,12 @@ export default function NodeDetailPage() {
           </CardContent>
         </Card>
       </motion.div>
+
+      {/* System Stats */}
+      <NodeSystemStats pubkey={node.pubkey} isPublic={node.is_public} gossipVersion={node.version} />
+
+      {/* History */}
+      <NodeHistory pubkey={node.pubkey} />
     </div>
   );
 }
@@ -13,6 +13,8 @@ import { PageLoader } from '@/components/common/LoadingSpinner';
 import { ErrorState } from '@/components/common/ErrorState';
 import { NoSearchResults } from '@/components/common/EmptyState';
 import { useNodes, useVersions } from '@/hooks/useNodes';
+import { HEALTH_SCORE_VERSION } from '@/lib/healthScore';
+import { useHealthProfile } from '@/contexts/HealthProfileContext';
 import { NodeFilters as NodeFiltersType } from '@/types';
 
 export default function NodesPage() {
@@ -27,6 +29,7 @@ export default function NodesPage() {
 
   const { data, error, isLoading, mutate } = useNodes(filters);
   const versions = useVersions();
+  const { profile } = useHealthProfile();
 
   const handleFilterChange = (newFilters: Partial<NodeFiltersType>) => {
     setFilters((prev) => ({ ...prev, ...newFilters }));
@@ -42,7 +45,7 @@ export default function NodesPage() {
 
   const exportToJSON = () => {
     if (!data?.nodes) return;
-    const dataStr = JSON.stringify(data.nodes, null, 2);
+    const dataStr = JSON.stringify({ scoreVersion: HEALTH_SCORE_VERSION, profile: profile.name, nodes: data.nodes }, null, 2);
     const blob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -54,9 +57,9 @@ export default function NodesPage() {
 
   const exportToCSV = () => {
     if (!data?.nodes) return;
-    const headers = ['pubkey', 'ip', 'status', 'healthScore', 'uptime', 'version', 'storage_committed', 'storage_used', 'is_public'];
+    const headers = ['pubkey', 'ip', 'status', 'healthScore', 'healthScoreVersion', 'healthScoreProfile', 'uptime', 'version', 'storage_committed', 'storage_used', 'is_public'];
     const rows = data.nodes.map(n => [
-      n.pubkey, n.ip, n.status, n.healthScore, n.uptime, n.version, n.storage_committed, n.storage_used, n.is_public
+      n.pubkey, n.ip, n.status, n.healthScore, HEALTH_SCORE_VERSION, profile.name, n.uptime, n.version, n.storage_committed, n.storage_used, n.is_public
     ]);
     const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
     const blob = new Blob([csv], { type: 'text/csv' });
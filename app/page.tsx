@@ -10,6 +10,10 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { HeroStats } from '@/components/dashboard/HeroStats';
 import { VersionDistribution } from '@/components/dashboard/VersionDistribution';
+import { VersionRollout } from '@/components/dashboard/VersionRollout';
+import { GossipConsensus } from '@/components/dashboard/GossipConsensus';
+import { EndpointStatus } from '@/components/dashboard/EndpointStatus';
+import { NetworkComparison } from '@/components/dashboard/NetworkComparison';
 import { StatusChart } from '@/components/dashboard/StatusChart';
 import { TopNodes } from '@/components/dashboard/TopNodes';
 import { NetworkMap } from '@/components/dashboard/NetworkMap';
@@ -32,6 +36,9 @@ import { InfoTooltip } from '@/components/common/MetricTooltip';
 import { NodeTable } from '@/components/nodes/NodeTable';
 import { QuickCompare } from '@/components/dashboard/QuickCompare';
 import { useStats, useNodes } from '@/hooks/useNodes';
+import { HEALTH_SCORE_VERSION } from '@/lib/healthScore';
+import { useHealthProfile } from '@/contexts/HealthProfileContext';
+import { NETWORKS } from '@/lib/networks';
 
 // Dynamically import 3D components
 const StorageCapacity3D = dynamic(
@@ -79,6 +86,7 @@ const NetworkGlobe = dynamic(
 export default function DashboardPage() {
   const { data: statsData, error: statsError, isLoading: statsLoading, mutate: mutateStats } = useStats();
   const { data: nodesData, error: nodesError, isLoading: nodesLoading, mutate: mutateNodes } = useNodes();
+  const { profile } = useHealthProfile();
   const [compareSelection, setCompareSelection] = useState<string[]>([]);
   const [isMapModalOpen, setIsMapModalOpen] = useState(false);
 
@@ -92,7 +100,7 @@ export default function DashboardPage() {
 
   const exportToJSON = () => {
     if (!nodesData?.nodes) return;
-    const dataStr = JSON.stringify(nodesData.nodes, null, 2);
+    const dataStr = JSON.stringify({ scoreVersion: HEALTH_SCORE_VERSION, profile: profile.name, nodes: nodesData.nodes }, null, 2);
     const blob = new Blob([dataStr], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -104,9 +112,9 @@ export default function DashboardPage() {
 
   const exportToCSV = () => {
     if (!nodesData?.nodes) return;
-    const headers = ['pubkey', 'ip', 'status', 'healthScore', 'uptime', 'version', 'storage_committed', 'storage_used', 'is_public'];
+    const headers = ['pubkey', 'ip', 'status', 'healthScore', 'healthScoreVersion', 'healthScoreProfile', 'uptime', 'version', 'storage_committed', 'storage_used', 'is_public'];
     const rows = nodesData.nodes.map(n => [
-      n.pubkey, n.ip, n.status, n.healthScore, n.uptime, n.version, n.storage_committed, n.storage_used, n.is_public
+      n.pubkey, n.ip, n.status, n.healthScore, HEALTH_SCORE_VERSION, profile.name, n.uptime, n.version, n.storage_committed, n.storage_used, n.is_public
     ]);
     const csv = [headers.join(','), ...rows.map(r => r.join(','))].join('\n');
     const blob = new Blob([csv], { type: 'text/csv' });
@@ -492,6 +500,45 @@ export default function DashboardPage() {
           </motion.div>
         </div>
 
+        {/* Version Rollout */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          viewport={{ once: true }}
+        >
+          <VersionRollout />
+        </motion.div>
+
+        {/* Gossip Consensus & Endpoint Health */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <motion.div
+            className="lg:col-span-2"
+            initial={{ opacity: 0, x: -20 }}
+            whileInView={{ opacity: 1, x: 0 }}
+            viewport={{ once: true }}
+          >
+            <GossipConsensus />
+          </motion.div>
+          <motion.div
+            initial={{ opacity: 0, x: 20 }}
+            whileInView={{ opacity: 1, x: 0 }}
+            viewport={{ once: true }}
+          >
+            <EndpointStatus />
+          </motion.div>
+        </div>
+
+        {/* Network Comparison - only with more than one network configured */}
+        {NETWORKS.length > 1 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            viewport={{ once: true }}
+          >
+            <NetworkComparison />
+          </motion.div>
+        )}
+
         {/* Storage Analytics */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -0,0 +1,173 @@
+import type { Metadata } from 'next';
+import { Activity, AlertTriangle, CheckCircle, History, TrendingUp, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { AvailabilityBars, AvailabilityLegend } from '@/components/status/AvailabilityBars';
+import { IncidentCard, IncidentSummary, formatUtc } from '@/components/status/IncidentCard';
+import { getAvailability } from '@/lib/availability';
+import { getIncidents } from '@/lib/incidents';
+import { getNetworkHealthSummary } from '@/lib/metrics';
+import { getLatestSnapshot } from '@/lib/snapshotStore';
+import { getNetwork, NETWORKS } from '@/lib/networks';
+import { AVAILABILITY_CONFIG, COLLECTOR_CONFIG, INCIDENT_CONFIG } from '@/lib/constants';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import { NetworkHealthStatus } from '@/types';
+
+// Rendered on the server from stored history, so it works without JavaScript
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Status',
+  description: 'Availability and incidents of the Xandeum pNode network',
+};
+
+const STATE_STYLES: Record<NetworkHealthStatus, { label: string; icon: typeof CheckCircle; className: string }> = {
+  healthy: { label: 'All systems operational', icon: CheckCircle, className: 'border-green-500/30 bg-green-500/10 text-green-500' },
+  warning: { label: 'Degraded performance', icon: AlertTriangle, className: 'border-yellow-500/30 bg-yellow-500/10 text-yellow-500' },
+  critical: { label: 'Major outage', icon: XCircle, className: 'border-red-500/30 bg-red-500/10 text-red-500' },
+};
+
+export default async function StatusPage({
+  searchParams,
+}: {
+  searchParams: { network?: string };
+}) {
+  const network = getNetwork(searchParams.network) ?? NETWORKS[0];
+  const now = Date.now();
+  const [snapshot, availability, { current, past }] = await Promise.all([
+    getLatestSnapshot(network.name),
+    getAvailability(network.name, now),
+    getIncidents({ network: network.name }),
+  ]);
+
+  const summary = snapshot ? getNetworkHealthSummary(snapshot.stats) : null;
+  const state = summary ? STATE_STYLES[summary.status] : null;
+  // The collector has stopped if it missed several polls in a row
+  const stale =
+    snapshot !== null && now - snapshot.timestamp > COLLECTOR_CONFIG.interval * COLLECTOR_CONFIG.staleAfterIntervals;
+
+  return (
+    <div className="min-h-screen">
+      {/* Hero Header with gradient */}
+      <div className="relative overflow-hidden bg-gradient-to-br from-xandeum-dark via-[#0a1525] to-background border-b border-border/50">
+        <div className="absolute top-0 right-0 w-[500px] h-[500px] bg-xandeum-orange/10 rounded-full blur-[150px] opacity-30" />
+
+        <div className="container relative py-8 lg:py-12">
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-6">
+            <div className="flex items-center gap-4">
+              <div className="p-3 rounded-xl bg-gradient-to-br from-xandeum-orange to-orange-600 shadow-lg shadow-xandeum-orange/30">
+                <Activity className="h-8 w-8 text-white" />
+              </div>
+              <div>
+                <h1 className="text-3xl lg:text-4xl font-bold text-white">Network Status</h1>
+                <p className="text-white/60 mt-1">{network.name}</p>
+              </div>
+            </div>
+
+            {/* Quick Stats */}
+            <div className="flex flex-wrap gap-4 lg:gap-6">
+              <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-white/5 border border-white/10">
+                <TrendingUp className="h-5 w-5 text-green-400" />
+                <div>
+                  <p className="text-2xl font-bold text-white">
+                    {availability.network.uptime === null ? '-' : `${availability.network.uptime.toFixed(2)}%`}
+                  </p>
+                  <p className="text-xs text-white/50">Uptime ({AVAILABILITY_CONFIG.days}d)</p>
+                </div>
+              </div>
+              <div className="flex items-center gap-3 px-4 py-2 rounded-lg bg-white/5 border border-white/10">
+                <History className="h-5 w-5 text-blue-400" />
+                <div>
+                  <p className="text-2xl font-bold text-white">{past.length}</p>
+                  <p className="text-xs text-white/50">Past incidents ({INCIDENT_CONFIG.retentionDays}d)</p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Plain links, so switching networks needs no JavaScript */}
+          {NETWORKS.length > 1 && (
+            <nav className="mt-6 flex flex-wrap gap-2 text-sm">
+              {NETWORKS.map((n) => (
+                <a
+                  key={n.name}
+                  href={`/status?network=${encodeURIComponent(n.name)}`}
+                  className={
+                    n.name === network.name
+                      ? 'px-3 py-1 rounded-md bg-white/10 text-white'
+                      : 'px-3 py-1 rounded-md text-white/60 hover:text-white'
+                  }
+                >
+                  {n.name}
+                </a>
+              ))}
+            </nav>
+          )}
+        </div>
+      </div>
+
+      <div className="container py-6 space-y-6">
+        {/* Overall state */}
+        {state && summary && snapshot ? (
+          <div className={cn('flex flex-wrap items-center gap-3 rounded-lg border p-4', state.className)}>
+            <state.icon className="h-6 w-6" />
+            <div className="flex-1">
+              <p className="text-lg font-semibold">{state.label}</p>
+              <p className="text-sm text-muted-foreground">{summary.message}</p>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Updated {formatRelativeTime(Math.floor(snapshot.timestamp / 1000))}
+              {stale && ' - the collector has not reported since, so this may be out of date'}
+            </p>
+          </div>
+        ) : (
+          <div className="rounded-lg border border-border p-4 text-sm text-muted-foreground">
+            No data yet: the collector has not recorded a poll of this network.
+          </div>
+        )}
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Current incident</h2>
+          {current ? (
+            <IncidentCard incident={current} now={now} />
+          ) : (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <CheckCircle className="h-4 w-4 text-green-500" />
+              No ongoing incident.
+            </p>
+          )}
+        </section>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Availability</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <AvailabilityBars series={availability.network} label="Network" />
+            {availability.endpoints.map((series) => (
+              <AvailabilityBars key={series.name} series={series} label={series.name} />
+            ))}
+            <AvailabilityLegend />
+            <p className="text-xs text-muted-foreground">
+              The network is down during a poll when it is critical or no endpoint answers; a day
+              under {AVAILABILITY_CONFIG.outageBelow}% uptime is an outage. Days run midnight to
+              midnight UTC, as of {formatUtc(now)}.
+            </p>
+          </CardContent>
+        </Card>
+
+        <section className="space-y-3">
+          <h2 className="text-xl font-semibold">Past incidents</h2>
+          {past.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No incidents in the last {INCIDENT_CONFIG.retentionDays} days.</p>
+          ) : (
+            <div className="space-y-2">
+              {past.map((incident) => (
+                <IncidentSummary key={incident.id} incident={incident} now={now} />
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
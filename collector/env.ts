@@ -0,0 +1,6 @@
+// Load .env files the same way `next dev`/`next start` do. Imported first so
+// the runtime configuration (lib/config.ts) and lib/constants.ts see the
+// variables.
+import { loadEnvConfig } from '@next/env';
+
+loadEnvConfig(process.cwd(), process.env.NODE_ENV !== 'production');
@@ -0,0 +1,18 @@
+// =============================================================================
+// Collector entry point
+// Runs alongside the Next app: `npm run collector`
+// =============================================================================
+
+import './env';
+import { startCollector } from '@/lib/collector';
+
+const collector = startCollector();
+
+const shutdown = async (signal: string) => {
+  console.log(`[Collector] ${signal} received, stopping`);
+  await collector.stop();
+  process.exit(0);
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import { Send, CheckCircle, XCircle, Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAlertChannels } from '@/hooks/useNodes';
+import { formatRelativeTime } from '@/lib/utils';
+import { AlertChannelSummary, AlertChannelType, AlertDelivery } from '@/types';
+
+const CHANNEL_LABELS: Record<AlertChannelType, string> = {
+  webhook: 'Webhook',
+  slack: 'Slack',
+  discord: 'Discord',
+  telegram: 'Telegram',
+};
+
+function DeliveryResult({ delivery }: { delivery: AlertDelivery }) {
+  return delivery.ok ? (
+    <span className="flex items-center gap-1 text-green-500">
+      <CheckCircle className="h-4 w-4" />
+      {delivery.status}
+    </span>
+  ) : (
+    <span className="flex items-center gap-1 text-red-500" title={delivery.error ?? undefined}>
+      <XCircle className="h-4 w-4" />
+      {delivery.error}
+    </span>
+  );
+}
+
+/**
+ * Configured notification channels with a test button each, and the
+ * latest deliveries to them
+ */
+export function AlertChannels() {
+  const { channels, deliveries, error, isLoading, sendTest } = useAlertChannels();
+  // Per channel: sending, or the last test's result
+  const [tests, setTests] = useState<Record<string, 'sending' | AlertDelivery | Error>>({});
+
+  const runTest = async (channel: AlertChannelSummary) => {
+    setTests((prev) => ({ ...prev, [channel.id]: 'sending' }));
+    try {
+      const delivery = await sendTest(channel.id);
+      setTests((prev) => ({ ...prev, [channel.id]: delivery }));
+    } catch (e) {
+      setTests((prev) => ({ ...prev, [channel.id]: e instanceof Error ? e : new Error(String(e)) }));
+    }
+  };
+
+  const channelName = (id: string) => channels.find((c) => c.id === id)?.name ?? id;
+
+  return (
+    <div className="grid gap-6 xl:grid-cols-2">
+      {/* Channels */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Notification Channels</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {error ? (
+            <p className="text-sm text-red-500">{error.message}</p>
+          ) : isLoading ? (
+            <div className="h-[120px] animate-pulse bg-muted rounded-lg" />
+          ) : channels.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No channels configured. Copy <code>config/alert-channels.example.json</code> to{' '}
+              <code>config/alert-channels.json</code> and add your webhooks.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Sends</TableHead>
+                    <TableHead className="text-right">Test</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {channels.map((channel) => {
+                    const test = tests[channel.id];
+                    return (
+                      <TableRow key={channel.id} className={channel.enabled ? undefined : 'opacity-60'}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{channel.name}</span>
+                            <Badge variant="outline" className="text-xs">{CHANNEL_LABELS[channel.type]}</Badge>
+                            {channel.signed && <Lock className="h-3 w-3 text-muted-foreground" aria-label="Signed" />}
+                            {!channel.enabled && <Badge variant="secondary" className="text-xs">Disabled</Badge>}
+                          </div>
+                          <p className="text-xs text-muted-foreground font-mono">{channel.target}</p>
+                        </TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          <p>{channel.minSeverity} and above{channel.sendResolved ? ', with resolutions' : ''}</p>
+                          {channel.rules && <p>Rules: {channel.rules.join(', ')}</p>}
+                          {channel.networks && <p>Networks: {channel.networks.join(', ')}</p>}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex flex-col items-end gap-1">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={test === 'sending'}
+                              onClick={() => runTest(channel)}
+                            >
+                              {test === 'sending' ? (
+                                <Loader2 className="h-4 w-4 animate-spin sm:mr-1" />
+                              ) : (
+                                <Send className="h-4 w-4 sm:mr-1" />
+                              )}
+                              <span className="hidden sm:inline">Send test</span>
+                            </Button>
+                            {test instanceof Error ? (
+                              <span className="text-xs text-red-500">{test.message}</span>
+                            ) : test && test !== 'sending' ? (
+                              <span className="text-xs">
+                                <DeliveryResult delivery={test} />
+                              </span>
+                            ) : null}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Deliveries */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Recent Deliveries</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing delivered yet.</p>
+          ) : (
+            <div className="overflow-x-auto max-h-[400px] overflow-y-auto custom-scrollbar">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Channel</TableHead>
+                    <TableHead>Alert</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map((delivery) => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatRelativeTime(Math.floor(delivery.timestamp / 1000))}
+                      </TableCell>
+                      <TableCell className="text-sm">{channelName(delivery.channelId)}</TableCell>
+                      <TableCell className="text-xs font-mono">
+                        {delivery.test ? <Badge variant="secondary" className="text-xs">Test</Badge> : delivery.alertKey.split(':')[0]}
+                        {!delivery.test && <span className="text-muted-foreground"> {delivery.alertState}</span>}
+                      </TableCell>
+                      <TableCell className="text-sm font-mono">{delivery.attempts}</TableCell>
+                      <TableCell className="text-xs">
+                        <DeliveryResult delivery={delivery} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
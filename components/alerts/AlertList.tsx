@@ -0,0 +1,239 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CheckCircle, Check, BellOff, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatRelativeTime, formatUptime, truncateMiddle } from '@/lib/utils';
+import { AlertInstance, AlertSeverity, AlertStatus } from '@/types';
+
+// Offered when silencing an alert from its row
+export const SILENCE_DURATIONS = ['1h', '4h', '24h', '7d'];
+
+const SEVERITY_VARIANTS: Record<AlertSeverity, 'version' | 'degraded' | 'offline'> = {
+  info: 'version',
+  warning: 'degraded',
+  critical: 'offline',
+};
+
+const STATUS_LABELS: Record<AlertStatus, string> = {
+  firing: 'Firing',
+  acknowledged: 'Acknowledged',
+  silenced: 'Silenced',
+  resolved: 'Resolved',
+};
+
+export function SeverityBadge({ severity }: { severity: AlertSeverity }) {
+  return (
+    <Badge variant={SEVERITY_VARIANTS[severity]} className="text-xs capitalize">
+      {severity}
+    </Badge>
+  );
+}
+
+function Subject({ alert }: { alert: AlertInstance }) {
+  if (!alert.pubkey) return <span className="text-muted-foreground">Network</span>;
+  return (
+    <Link href={`/nodes/${alert.pubkey}`} className="font-mono text-xs hover:text-xandeum-orange">
+      {truncateMiddle(alert.pubkey, 8, 6)}
+    </Link>
+  );
+}
+
+function seconds(ms: number): number {
+  return Math.max(0, Math.floor(ms / 1000));
+}
+
+interface OpenAlertsProps {
+  alerts: AlertInstance[];
+  onAcknowledge: (id: string) => Promise<unknown>;
+  onSilence: (alert: AlertInstance, duration: string) => Promise<unknown>;
+}
+
+/**
+ * Alerts that have not resolved yet, with acknowledge and silence actions
+ */
+export function OpenAlerts({ alerts, onAcknowledge, onSilence }: OpenAlertsProps) {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const act = async (id: string, action: () => Promise<unknown>) => {
+    setBusy(id);
+    setActionError(null);
+    try {
+      await action();
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Open Alerts</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {actionError && <p className="text-sm text-red-500 mb-3">{actionError}</p>}
+        {alerts.length === 0 ? (
+          <div className="h-[120px] flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            Nothing is firing
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Alert</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Since</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map((alert) => (
+                  <TableRow key={alert.id}>
+                    <TableCell>
+                      <SeverityBadge severity={alert.severity} />
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{alert.ruleName}</p>
+                      <p className="text-xs text-muted-foreground">{alert.message}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Subject alert={alert} />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatRelativeTime(seconds(alert.firedAt))}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <p>{STATUS_LABELS[alert.status]}</p>
+                      {alert.silencedUntil && (
+                        <p className="text-muted-foreground">
+                          until {new Date(alert.silencedUntil).toLocaleString()}
+                        </p>
+                      )}
+                      {alert.acknowledgeNote && (
+                        <p className="text-muted-foreground">{alert.acknowledgeNote}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-2">
+                        {alert.acknowledgedAt === null && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busy === alert.id}
+                            onClick={() => act(alert.id, () => onAcknowledge(alert.id))}
+                          >
+                            <Check className="h-4 w-4 sm:mr-1" />
+                            <span className="hidden sm:inline">Acknowledge</span>
+                          </Button>
+                        )}
+                        <Select
+                          value=""
+                          disabled={busy === alert.id}
+                          onValueChange={(duration) => act(alert.id, () => onSilence(alert, duration))}
+                        >
+                          <SelectTrigger className="h-9 w-[120px] gap-1" title="Silence this rule for this subject">
+                            <BellOff className="h-4 w-4" />
+                            <SelectValue placeholder="Silence" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {SILENCE_DURATIONS.map((d) => (
+                              <SelectItem key={d} value={d}>
+                                For {d}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Alerts that fired and resolved, newest first
+ */
+export function PastAlerts({ alerts }: { alerts: AlertInstance[] }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Resolved (last 7 days)</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {alerts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No alerts resolved in this period.</p>
+        ) : (
+          <div className="overflow-x-auto max-h-[400px] overflow-y-auto custom-scrollbar">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Severity</TableHead>
+                  <TableHead>Alert</TableHead>
+                  <TableHead>Subject</TableHead>
+                  <TableHead>Resolved</TableHead>
+                  <TableHead>Lasted</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {alerts.map((alert) => (
+                  <TableRow key={alert.id}>
+                    <TableCell>
+                      <SeverityBadge severity={alert.severity} />
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-medium">{alert.ruleName}</p>
+                      <p className="text-xs text-muted-foreground">{alert.message}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Subject alert={alert} />
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                      {formatRelativeTime(seconds(alert.resolvedAt ?? alert.firedAt))}
+                    </TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3 text-muted-foreground" />
+                        {formatUptime(seconds((alert.resolvedAt ?? alert.firedAt) - alert.firedAt))}
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { BellOff, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SILENCE_DURATIONS } from './AlertList';
+import { truncateMiddle } from '@/lib/utils';
+import { AlertRule, AlertSilence } from '@/types';
+
+const ALL_RULES = 'all';
+
+interface AlertSilencesProps {
+  silences: AlertSilence[];
+  rules: AlertRule[];
+  onSilence: (silence: { ruleId?: string; pubkey?: string; duration: string; reason?: string }) => Promise<unknown>;
+  onEndSilence: (id: string) => Promise<unknown>;
+}
+
+/**
+ * Current and upcoming silences, and a form to add one, e.g. ahead of
+ * planned maintenance on a node
+ */
+export function AlertSilences({ silences, rules, onSilence, onEndSilence }: AlertSilencesProps) {
+  const [ruleId, setRuleId] = useState(ALL_RULES);
+  const [pubkey, setPubkey] = useState('');
+  const [duration, setDuration] = useState(SILENCE_DURATIONS[1]);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const ruleName = (id: string | null) => (id ? rules.find((r) => r.id === id)?.name ?? id : 'All rules');
+
+  const act = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setActionError(null);
+    try {
+      await action();
+      return true;
+    } catch (e) {
+      setActionError(e instanceof Error ? e.message : String(e));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const created = await act(() =>
+      onSilence({
+        ruleId: ruleId === ALL_RULES ? undefined : ruleId,
+        pubkey: pubkey.trim() || undefined,
+        duration,
+        reason: reason.trim() || undefined,
+      })
+    );
+    if (created) {
+      setPubkey('');
+      setReason('');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BellOff className="h-5 w-5 text-muted-foreground" />
+          Silences
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {silences.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No alerts are silenced.</p>
+        ) : (
+          <div className="space-y-2">
+            {silences.map((silence) => (
+              <div key={silence.id} className="flex items-start gap-3 p-3 rounded-lg border border-border">
+                <div className="flex-1 min-w-0 text-sm">
+                  <p className="font-medium">
+                    {ruleName(silence.ruleId)}
+                    {silence.pubkey && (
+                      <span className="font-mono text-xs text-muted-foreground">
+                        {' '}on {truncateMiddle(silence.pubkey, 8, 6)}
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {silence.startsAt > Date.now() && `From ${new Date(silence.startsAt).toLocaleString()} `}
+                    until {new Date(silence.endsAt).toLocaleString()}
+                  </p>
+                  {silence.reason && <p className="text-xs text-muted-foreground">{silence.reason}</p>}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={busy}
+                  title="End silence"
+                  onClick={() => act(() => onEndSilence(silence.id))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={submit} className="space-y-2 border-t border-border pt-4">
+          <p className="text-sm font-medium">Add silence</p>
+          <Select value={ruleId} onValueChange={setRuleId}>
+            <SelectTrigger className="h-9">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_RULES}>All rules</SelectItem>
+              {rules.map((rule) => (
+                <SelectItem key={rule.id} value={rule.id}>
+                  {rule.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            value={pubkey}
+            onChange={(e) => setPubkey(e.target.value)}
+            placeholder="Node pubkey (blank for every node)"
+            className="h-9 font-mono text-xs"
+          />
+          <Input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Reason, e.g. planned maintenance"
+            className="h-9"
+          />
+          <div className="flex gap-2">
+            <Select value={duration} onValueChange={setDuration}>
+              <SelectTrigger className="h-9 w-[120px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SILENCE_DURATIONS.map((d) => (
+                  <SelectItem key={d} value={d}>
+                    For {d}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="submit"
+              size="sm"
+              className="h-9 flex-1"
+              disabled={busy || (ruleId === ALL_RULES && !pubkey.trim())}
+            >
+              Silence
+            </Button>
+          </div>
+          {actionError && <p className="text-xs text-red-500">{actionError}</p>}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { Gauge } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useHealthProfile } from '@/contexts/HealthProfileContext';
+import { HEALTH_PROFILES } from '@/lib/healthScore';
+import { cn } from '@/lib/utils';
+
+interface HealthProfileSelectProps {
+  className?: string;
+}
+
+/**
+ * Picks the scoring profile used for every health score in the UI
+ */
+export function HealthProfileSelect({ className }: HealthProfileSelectProps) {
+  const { profile, setProfile } = useHealthProfile();
+
+  return (
+    <Select value={profile.name} onValueChange={setProfile}>
+      <SelectTrigger
+        className={cn('h-9 w-[190px] gap-2', className)}
+        title={`Health scoring: ${profile.description}`}
+      >
+        <Gauge className="h-4 w-4 shrink-0" />
+        <SelectValue placeholder="Scoring profile" />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(HEALTH_PROFILES).map((p) => (
+          <SelectItem key={p.name} value={p.name} title={p.description}>
+            {p.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
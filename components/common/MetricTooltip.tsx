@@ -17,16 +17,17 @@ interface MetricTooltipProps {
 const METRIC_DEFINITIONS: Record<string, string> = {
   // Node metrics
   'pnodes': 'Persistent Nodes (pNodes) are storage providers in the Xandeum network. They commit storage space and earn rewards for storing data reliably.',
-  'health_score': 'Overall node health (0-100%) calculated from uptime (30%), recency (35%), storage efficiency (20%), and software version (15%).',
+  'health_score': 'Overall node health (0-100%) calculated from uptime, recency, storage efficiency, and software version, weighted by the selected scoring profile (default: 30/35/20/15%).',
   'uptime': 'Total time the node has been running continuously since last restart.',
   'last_seen': 'Time since the node was last detected in the gossip network. Nodes not seen in 5+ minutes are considered offline.',
   'storage_committed': 'Total storage space this node has pledged to the network.',
   'storage_used': 'Actual storage space currently being used by the node.',
   'storage_utilization': 'Percentage of committed storage currently in use. Lower is better for accepting new data.',
-  'version': 'pNode software version. Latest version ensures best performance and security.',
+  'version': 'pNode software version, compared with the current release: current, patch behind, one minor behind, or unsupported.',
   'gossip_status': 'Node visibility in the Xandeum gossip network: Online (active), Degraded (intermittent), or Offline (not responding).',
   'is_public': 'Whether the node accepts connections from any peer (public) or only from specific peers (private).',
   'pubkey': 'Unique cryptographic identifier for this node on the network.',
+  'restarts': 'Restarts detected in the last 7 days from uptime resets between polls. Requires the background collector.',
 
   // Network metrics
   'total_nodes': 'Total number of pNodes registered in the Xandeum network.',
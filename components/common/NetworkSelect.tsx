@@ -0,0 +1,42 @@
+'use client';
+
+import { Layers } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { cn } from '@/lib/utils';
+
+interface NetworkSelectProps {
+  className?: string;
+}
+
+/**
+ * Picks the network every page and API request is pointed at. Hidden when
+ * only one network is configured.
+ */
+export function NetworkSelect({ className }: NetworkSelectProps) {
+  const { network, networks, setNetwork } = useNetwork();
+
+  if (networks.length < 2) return null;
+
+  return (
+    <Select value={network} onValueChange={setNetwork}>
+      <SelectTrigger className={cn('h-9 w-[150px] gap-2', className)} title="Network">
+        <Layers className="h-4 w-4 shrink-0" />
+        <SelectValue placeholder="Network" />
+      </SelectTrigger>
+      <SelectContent>
+        {networks.map((n) => (
+          <SelectItem key={n.name} value={n.name}>
+            {n.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
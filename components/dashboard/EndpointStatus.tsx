@@ -0,0 +1,75 @@
+'use client';
+
+import { Server } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useEndpoints } from '@/hooks/useNodes';
+import { endpointLabel } from '@/lib/consensus';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { formatPercent, formatRelativeTime } from '@/lib/utils';
+import { CircuitState } from '@/types';
+
+const circuitConfig: Record<CircuitState, { label: string; variant: 'online' | 'degraded' | 'offline' }> = {
+  closed: { label: 'Healthy', variant: 'online' },
+  'half-open': { label: 'Trial', variant: 'degraded' },
+  open: { label: 'Circuit open', variant: 'offline' },
+};
+
+export function EndpointStatus() {
+  const { data: endpoints, isLoading } = useEndpoints();
+  const { network } = useNetwork();
+
+  return (
+    <Card className="h-full">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Server className="h-5 w-5 text-xandeum-orange" />
+          pRPC Endpoints
+          <Badge variant="outline" className="text-xs font-normal ml-auto">
+            {network}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading && endpoints.length === 0 ? (
+          <div className="h-[200px] animate-pulse bg-muted rounded-lg" />
+        ) : (
+          <div className="space-y-3">
+            {endpoints.map((e, index) => (
+              <div key={e.endpoint} className="p-3 rounded-lg bg-muted/50 space-y-1 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-mono truncate">
+                    <span className="text-muted-foreground">#{index + 1}</span> {endpointLabel(e.endpoint)}
+                  </span>
+                  <Badge variant={circuitConfig[e.circuit].variant} className="text-xs shrink-0">
+                    {circuitConfig[e.circuit].label}
+                  </Badge>
+                </div>
+                {e.requests === 0 ? (
+                  <p className="text-xs text-muted-foreground">Not used yet</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    {formatPercent(e.successRate)} of {e.requests} requests ok
+                    {e.latency && ` · p50 ${e.latency.p50}ms · p90 ${e.latency.p90}ms · p99 ${e.latency.p99}ms`}
+                  </p>
+                )}
+                {e.lastError && e.lastErrorAt && (
+                  <p className="text-xs text-red-500 truncate" title={e.lastError}>
+                    {formatRelativeTime(Math.floor(e.lastErrorAt / 1000))}: {e.lastError}
+                  </p>
+                )}
+                {e.circuit === 'open' && e.retryAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Retrying in {Math.max(1, Math.ceil((e.retryAt - Date.now()) / 1000))}s
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default EndpointStatus;
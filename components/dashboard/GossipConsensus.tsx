@@ -0,0 +1,154 @@
+'use client';
+
+import Link from 'next/link';
+import { AlertTriangle, CheckCircle, Network, XCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useConsensus } from '@/hooks/useNodes';
+import { endpointLabel } from '@/lib/consensus';
+import { formatPercent, truncateMiddle } from '@/lib/utils';
+
+// Partially visible nodes listed before the rest are summarized
+const MAX_PARTIAL_NODES = 20;
+
+export function GossipConsensus() {
+  const { data, error, isLoading } = useConsensus();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Network className="h-5 w-5 text-xandeum-orange" />
+            Gossip Consensus
+          </CardTitle>
+          {data && (
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className="text-xs">
+                Mode: {data.mode}
+              </Badge>
+              {data.partitioned ? (
+                <Badge variant="offline">Partition suspected</Badge>
+              ) : (
+                <Badge variant="online">{formatPercent(data.agreement)} agreement</Badge>
+              )}
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && !data ? (
+          <div className="h-[200px] animate-pulse bg-muted rounded-lg" />
+        ) : error || !data ? (
+          <div className="h-[120px] flex items-center justify-center text-sm text-muted-foreground">
+            No pRPC endpoint answered
+          </div>
+        ) : (
+          <>
+            {/* Endpoints */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">
+                {data.respondingCount} of {data.endpoints.length} endpoints responding ·{' '}
+                {data.totalNodes} nodes in the merged view
+              </p>
+              <div className="divide-y divide-border">
+                {data.endpoints.map((e) => (
+                  <div
+                    key={e.endpoint}
+                    className="grid grid-cols-[1.25rem_1fr_auto] sm:grid-cols-[1.25rem_12rem_1fr_auto] items-center gap-3 py-2 text-sm"
+                  >
+                    {e.ok ? (
+                      <CheckCircle className="h-4 w-4 text-green-500" />
+                    ) : (
+                      <XCircle className="h-4 w-4 text-red-500" />
+                    )}
+                    <span className="font-mono truncate" title={e.error ?? e.endpoint}>
+                      {endpointLabel(e.endpoint)}
+                    </span>
+                    {e.ok ? (
+                      <div className="h-2 bg-muted rounded-full overflow-hidden hidden sm:block">
+                        <div
+                          className="h-full rounded-full bg-green-500"
+                          style={{ width: `${e.coverage}%` }}
+                        />
+                      </div>
+                    ) : (
+                      <span className="text-xs text-red-500 truncate hidden sm:block">{e.error}</span>
+                    )}
+                    <span className="text-right whitespace-nowrap text-muted-foreground">
+                      {e.ok
+                        ? `${e.nodeCount} nodes · ${e.exclusiveCount} only here · ${e.latency}ms`
+                        : `${e.latency}ms`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Visibility groups */}
+            {data.groups.length > 1 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Who sees whom</p>
+                <div className="space-y-2">
+                  {data.groups.map((group) => (
+                    <div
+                      key={group.endpoints.join('|')}
+                      className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50 text-sm"
+                    >
+                      <span className="flex flex-wrap gap-1">
+                        {group.endpoints.map((e) => (
+                          <Badge key={e} variant="outline" className="text-xs font-mono">
+                            {endpointLabel(e)}
+                          </Badge>
+                        ))}
+                      </span>
+                      <span className="whitespace-nowrap">
+                        {group.count} nodes ({group.endpoints.length}/{data.respondingCount})
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Partially visible nodes */}
+            {data.partialNodes.length === 0 ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <CheckCircle className="h-4 w-4 text-green-500" />
+                Every responding endpoint sees every node
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                  {data.partialNodes.length} nodes visible to only part of the network
+                </p>
+                <div className="max-h-[240px] overflow-y-auto divide-y divide-border">
+                  {data.partialNodes.slice(0, MAX_PARTIAL_NODES).map((node) => (
+                    <Link
+                      key={node.pubkey}
+                      href={`/nodes/${node.pubkey}`}
+                      className="flex items-center justify-between gap-4 py-2 text-sm hover:bg-muted/50 rounded-md px-2"
+                    >
+                      <span className="font-mono">{truncateMiddle(node.pubkey, 8, 6)}</span>
+                      <span className="text-xs text-muted-foreground text-right">
+                        missing from {node.missingFrom.map(endpointLabel).join(', ')}
+                      </span>
+                    </Link>
+                  ))}
+                </div>
+                {data.partialNodes.length > MAX_PARTIAL_NODES && (
+                  <p className="text-xs text-muted-foreground">
+                    and {data.partialNodes.length - MAX_PARTIAL_NODES} more
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default GossipConsensus;
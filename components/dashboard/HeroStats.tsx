@@ -50,7 +50,7 @@ const statsConfig = [
     format: (v: number) => `${Math.round(v)}%`,
     color: 'from-xandeum-orange to-amber-400',
     glow: 'shadow-xandeum-orange/20',
-    tooltip: 'Average health score across all nodes. Health is calculated from: uptime (30%), recency (35%), storage efficiency (20%), and software version (15%).',
+    tooltip: 'Average health score across all nodes. Health is calculated from uptime, recency, storage efficiency, and software version, weighted by the selected scoring profile.',
   },
 ];
 
@@ -1,59 +1,33 @@
 'use client';
 
-import { useMemo } from 'react';
+import { useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Activity, Zap, Server, Clock, AlertTriangle } from 'lucide-react';
+import { Activity, Server, Clock, AlertTriangle, ArrowUpCircle, ArrowDownCircle, HardDrive, LogIn, LogOut, RotateCcw } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { PNode } from '@/types';
-import { truncateMiddle, formatRelativeTime } from '@/lib/utils';
+import { useEvents, useLiveChanges } from '@/hooks/useNodes';
+import { NodeEvent, NodeEventType, PNode } from '@/types';
+import { truncateMiddle, formatRelativeTime, formatBytes, formatUptime } from '@/lib/utils';
 
 interface LiveActivityProps {
   nodes: PNode[];
   isLoading?: boolean;
 }
 
-interface ActivityItem {
-  id: string;
-  type: 'online' | 'degraded' | 'offline' | 'high_health' | 'low_health';
-  node: PNode;
-  timestamp: number;
-}
+const MAX_EVENTS = 50;
 
 export function LiveActivity({ nodes, isLoading }: LiveActivityProps) {
-  // Generate activities from REAL node data - no simulation
-  const activities = useMemo(() => {
-    if (nodes.length === 0) return [];
-
-    // Sort by last_seen_timestamp to show most recent activity
-    const sortedNodes = [...nodes]
-      .sort((a, b) => b.last_seen_timestamp - a.last_seen_timestamp)
-      .slice(0, 15);
-
-    return sortedNodes.map((node): ActivityItem => {
-      // Determine activity type based on real node status and health
-      let type: ActivityItem['type'];
-      if (node.status === 'online' && node.healthScore >= 90) {
-        type = 'high_health';
-      } else if (node.status === 'online') {
-        type = 'online';
-      } else if (node.status === 'degraded') {
-        type = 'degraded';
-      } else if (node.healthScore < 50) {
-        type = 'low_health';
-      } else {
-        type = 'offline';
-      }
+  // Events recorded by the collector, newest first
+  const { events, isLoading: eventsLoading, mutate } = useEvents({ limit: MAX_EVENTS });
+  // The stream says when something changed, so the feed need not wait for its next poll
+  const { live, degraded, changes } = useLiveChanges();
+  const latestChange = changes[0]?.timestamp;
+  const nodesByPubkey = useMemo(() => new Map(nodes.map((n) => [n.pubkey, n])), [nodes]);
 
-      return {
-        id: node.pubkey,
-        type,
-        node,
-        timestamp: node.last_seen_timestamp,
-      };
-    });
-  }, [nodes]);
+  useEffect(() => {
+    if (latestChange) mutate();
+  }, [latestChange, mutate]);
 
-  if (isLoading) {
+  if (isLoading || eventsLoading) {
     return (
       <Card className="h-[400px]">
         <CardHeader>
@@ -73,48 +47,68 @@ export function LiveActivity({ nodes, isLoading }: LiveActivityProps) {
     );
   }
 
-  const getActivityIcon = (type: ActivityItem['type']) => {
+  const getActivityIcon = (type: NodeEventType) => {
     switch (type) {
-      case 'high_health':
-        return <Zap className="h-4 w-4 text-green-500" />;
-      case 'online':
-        return <Server className="h-4 w-4 text-blue-500" />;
+      case 'joined':
+        return <LogIn className="h-4 w-4 text-green-500" />;
+      case 'left':
+        return <LogOut className="h-4 w-4 text-gray-500" />;
+      case 'recovered':
+        return <Server className="h-4 w-4 text-green-500" />;
       case 'degraded':
         return <AlertTriangle className="h-4 w-4 text-yellow-500" />;
-      case 'low_health':
-        return <AlertTriangle className="h-4 w-4 text-red-500" />;
       case 'offline':
-        return <Server className="h-4 w-4 text-gray-500" />;
+        return <AlertTriangle className="h-4 w-4 text-red-500" />;
+      case 'upgraded':
+        return <ArrowUpCircle className="h-4 w-4 text-blue-500" />;
+      case 'downgraded':
+        return <ArrowDownCircle className="h-4 w-4 text-yellow-500" />;
+      case 'restarted':
+        return <RotateCcw className="h-4 w-4 text-yellow-500" />;
+      case 'storage-changed':
+        return <HardDrive className="h-4 w-4 text-xandeum-orange" />;
     }
   };
 
-  const getActivityText = (activity: ActivityItem) => {
-    switch (activity.type) {
-      case 'high_health':
-        return `Excellent health (${activity.node.healthScore}%)`;
-      case 'online':
-        return `Online (${activity.node.healthScore}% health)`;
+  const getActivityText = (event: NodeEvent) => {
+    switch (event.type) {
+      case 'joined':
+        return 'Joined gossip';
+      case 'left':
+        return 'Left gossip';
+      case 'recovered':
+        return `Recovered (was ${event.from})`;
       case 'degraded':
-        return `Degraded performance`;
-      case 'low_health':
-        return `Low health (${activity.node.healthScore}%)`;
+        return 'Went degraded';
       case 'offline':
-        return `Last seen`;
+        return 'Went offline';
+      case 'upgraded':
+      case 'downgraded':
+        return `${event.type === 'upgraded' ? 'Upgraded' : 'Downgraded'} v${event.from} → v${event.to}`;
+      case 'restarted':
+        return `Restarted after ${formatUptime(Number(event.from))}`;
+      case 'storage-changed':
+        return `Storage ${formatBytes(Number(event.from))} → ${formatBytes(Number(event.to))}`;
     }
   };
 
-  const getActivityColor = (type: ActivityItem['type']) => {
+  const getActivityColor = (type: NodeEventType) => {
     switch (type) {
-      case 'high_health':
+      case 'joined':
+      case 'recovered':
         return 'border-l-green-500 bg-green-500/5';
-      case 'online':
+      case 'upgraded':
         return 'border-l-blue-500 bg-blue-500/5';
       case 'degraded':
+      case 'downgraded':
+      case 'restarted':
         return 'border-l-yellow-500 bg-yellow-500/5';
-      case 'low_health':
-        return 'border-l-red-500 bg-red-500/5';
       case 'offline':
+        return 'border-l-red-500 bg-red-500/5';
+      case 'left':
         return 'border-l-gray-500 bg-gray-500/5';
+      case 'storage-changed':
+        return 'border-l-xandeum-orange bg-xandeum-orange/5';
     }
   };
 
@@ -124,41 +118,55 @@ export function LiveActivity({ nodes, isLoading }: LiveActivityProps) {
         <CardTitle className="text-lg flex items-center gap-2">
           <Activity className="h-5 w-5 text-xandeum-orange" />
           Recent Node Activity
-          <span className="ml-auto text-xs font-normal text-muted-foreground">
-            Based on last_seen data
+          <span className="ml-auto flex items-center gap-1.5 text-xs font-normal text-muted-foreground">
+            <span
+              className={`h-2 w-2 rounded-full ${live ? 'bg-green-500' : degraded ? 'bg-yellow-500' : 'bg-gray-400'}`}
+            />
+            {live ? 'Live' : degraded ? 'Delayed' : 'Connecting'}
           </span>
         </CardTitle>
       </CardHeader>
       <CardContent className="overflow-hidden">
-        <div className="space-y-2 max-h-[320px] overflow-y-auto custom-scrollbar pr-2">
-          <AnimatePresence mode="popLayout">
-            {activities.map((activity) => (
-              <motion.div
-                key={activity.id}
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                transition={{ duration: 0.3 }}
-                className={`flex items-center gap-3 p-3 rounded-lg border-l-2 ${getActivityColor(activity.type)}`}
-              >
-                <div className="flex-shrink-0">
-                  {getActivityIcon(activity.type)}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium truncate">
-                    {getActivityText(activity)}
-                  </p>
-                  <p className="text-xs text-muted-foreground font-mono">
-                    {truncateMiddle(activity.node.pubkey, 8, 6)} • {activity.node.ip}
-                  </p>
-                </div>
-                <div className="flex-shrink-0 flex items-center gap-1 text-xs text-muted-foreground">
-                  <Clock className="h-3 w-3" />
-                  {formatRelativeTime(activity.timestamp)}
-                </div>
-              </motion.div>
-            ))}
-          </AnimatePresence>
-        </div>
+        {events.length === 0 ? (
+          <div className="h-[300px] flex flex-col items-center justify-center gap-2 text-sm text-muted-foreground text-center">
+            <Activity className="h-6 w-6" />
+            No events recorded yet. Nodes joining, leaving, changing status or version, restarting or changing storage will appear here once the collector has polled twice.
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-[320px] overflow-y-auto custom-scrollbar pr-2">
+            <AnimatePresence mode="popLayout">
+              {events.map((event) => {
+                const node = nodesByPubkey.get(event.pubkey);
+                return (
+                  <motion.div
+                    key={event.id}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ duration: 0.3 }}
+                    className={`flex items-center gap-3 p-3 rounded-lg border-l-2 ${getActivityColor(event.type)}`}
+                  >
+                    <div className="flex-shrink-0">
+                      {getActivityIcon(event.type)}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {getActivityText(event)}
+                      </p>
+                      <p className="text-xs text-muted-foreground font-mono">
+                        {truncateMiddle(event.pubkey, 8, 6)}
+                        {node && ` • ${node.ip}`}
+                      </p>
+                    </div>
+                    <div className="flex-shrink-0 flex items-center gap-1 text-xs text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      {formatRelativeTime(Math.floor(event.timestamp / 1000))}
+                    </div>
+                  </motion.div>
+                );
+              })}
+            </AnimatePresence>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,110 @@
+'use client';
+
+import { Layers } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useNetworkSummaries } from '@/hooks/useNodes';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { calculatePercent, formatBytes, formatPercent } from '@/lib/utils';
+import { NetworkStats, NetworkSummary } from '@/types';
+
+const rows: { label: string; value: (stats: NetworkStats, summary: NetworkSummary) => string }[] = [
+  { label: 'Nodes', value: (s) => s.totalNodes.toLocaleString() },
+  {
+    label: 'Online',
+    value: (s) => `${s.onlineNodes} (${formatPercent(calculatePercent(s.onlineNodes, s.totalNodes))})`,
+  },
+  { label: 'Degraded / offline', value: (s) => `${s.degradedNodes} / ${s.offlineNodes}` },
+  { label: 'Avg health', value: (s) => s.averageHealthScore.toFixed(1) },
+  { label: 'Storage committed', value: (s) => formatBytes(s.totalStorageCommitted) },
+  { label: 'Storage used', value: (s) => formatPercent(s.storageUtilization) },
+  { label: 'Current release', value: (_, n) => (n.currentRelease ? `v${n.currentRelease}` : '—') },
+  { label: 'Endpoints', value: (_, n) => `${n.endpointCount} · ${n.latency}ms` },
+];
+
+/**
+ * Every configured network side by side, with a shortcut to switch to one
+ */
+export function NetworkComparison() {
+  const { data: networks, isLoading } = useNetworkSummaries();
+  const { network: selected, setNetwork } = useNetwork();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Layers className="h-5 w-5 text-xandeum-orange" />
+          Networks
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading && networks.length === 0 ? (
+          <div className="h-[200px] animate-pulse bg-muted rounded-lg" />
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  {networks.map((n) => (
+                    <TableHead key={n.name} className={n.name === selected ? 'bg-muted/50' : undefined}>
+                      <div className="flex items-center gap-2 py-2">
+                        <span className="font-semibold text-foreground">{n.name}</span>
+                        {n.isDefault && (
+                          <Badge variant="outline" className="text-xs">
+                            Default
+                          </Badge>
+                        )}
+                        {n.name === selected ? (
+                          <Badge variant="secondary" className="text-xs">
+                            Viewing
+                          </Badge>
+                        ) : (
+                          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setNetwork(n.name)}>
+                            View
+                          </Button>
+                        )}
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.label}>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">{row.label}</TableCell>
+                    {networks.map((n) => (
+                      <TableCell
+                        key={n.name}
+                        className={n.name === selected ? 'bg-muted/50 font-mono' : 'font-mono'}
+                      >
+                        {n.stats ? (
+                          row.value(n.stats, n)
+                        ) : (
+                          <span className="text-red-500 text-xs" title={n.error ?? undefined}>
+                            Unreachable
+                          </span>
+                        )}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default NetworkComparison;
@@ -20,6 +20,7 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { NetworkStats } from '@/types';
+import { useNetworkHistory } from '@/hooks/useNodes';
 
 interface NetworkHealthChartProps {
   stats: NetworkStats | null;
@@ -35,8 +36,9 @@ interface HistoryPoint {
 }
 
 export function NetworkHealthChart({ stats, isLoading }: NetworkHealthChartProps) {
-  const [history, setHistory] = useState<HistoryPoint[]>([]);
+  const [liveHistory, setLiveHistory] = useState<HistoryPoint[]>([]);
   const lastUpdateRef = useRef<number>(0);
+  const { data: storedHistory } = useNetworkHistory('24h');
 
   // Add new data point every time stats updates
   useEffect(() => {
@@ -61,13 +63,30 @@ export function NetworkHealthChart({ stats, isLoading }: NetworkHealthChartProps
       storageUtil: Math.round(stats.storageUtilization * 10) / 10,
     };
 
-    setHistory(prev => {
+    setLiveHistory(prev => {
       const updated = [...prev, newPoint];
       // Keep last 30 points (5 minutes of data at 10s intervals)
       return updated.slice(-30);
     });
   }, [stats]);
 
+  // Stored snapshots first, then live points collected since the last one
+  const history = useMemo(() => {
+    const stored: HistoryPoint[] = storedHistory.map((point) => ({
+      time: new Date(point.timestamp).toLocaleTimeString('en-US', {
+        hour: '2-digit',
+        minute: '2-digit',
+      }),
+      timestamp: point.timestamp,
+      onlinePercentage: Math.round(point.onlinePercentage * 10) / 10,
+      avgHealth: Math.round(point.averageHealthScore * 10) / 10,
+      storageUtil: Math.round(point.storageUtilization * 10) / 10,
+    }));
+    const lastStored = stored[stored.length - 1]?.timestamp ?? 0;
+
+    return [...stored, ...liveHistory.filter((p) => p.timestamp > lastStored)];
+  }, [storedHistory, liveHistory]);
+
   // Calculate trend
   const trend = useMemo(() => {
     if (history.length < 3) return { direction: 'stable', change: 0 };
@@ -154,7 +173,7 @@ export function NetworkHealthChart({ stats, isLoading }: NetworkHealthChartProps
               </button>
             </TooltipTrigger>
             <TooltipContent side="left" className="max-w-[220px] text-sm">
-              <p>Real-time health metrics tracking. Shows online percentage, average health score, and storage utilization over time.</p>
+              <p>Health metrics over the last 24 hours from stored snapshots, followed by live updates. Shows online percentage, average health score, and storage utilization over time.</p>
             </TooltipContent>
           </TooltipUI>
         </div>
@@ -17,9 +17,9 @@ import {
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import { StatusBadge } from '@/components/nodes/StatusBadge';
 import { HealthScore } from '@/components/nodes/HealthScore';
+import { VersionBadge } from '@/components/nodes/VersionBadge';
 import { PNode } from '@/types';
 import { truncateMiddle } from '@/lib/utils';
 
@@ -177,9 +177,7 @@ export function QuickCompare({ selectedPubkeys, nodes, onClear, onRemove }: Quic
                         </div>
                       </td>
                       <td className="py-3 px-3 text-center">
-                        <Badge variant="version" className="text-xs">
-                          v{node.version}
-                        </Badge>
+                        <VersionBadge version={node.version} status={node.versionStatus} />
                       </td>
                       <td className="py-3 px-3">
                         <Button
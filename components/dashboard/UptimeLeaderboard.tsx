@@ -4,7 +4,14 @@ import { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Trophy, Clock, Medal, Crown, Zap } from 'lucide-react';
-import { PNode } from '@/types';
+import { PNode, VersionStatus } from '@/types';
+
+const VERSION_STATUS_CLASSES: Record<VersionStatus, string> = {
+  current: 'bg-green-500/20 text-green-400',
+  'patch-behind': 'bg-blue-500/20 text-blue-400',
+  'one-minor-behind': 'bg-yellow-500/20 text-yellow-400',
+  unsupported: 'bg-red-500/20 text-red-400',
+};
 
 interface UptimeLeaderboardProps {
   nodes: PNode[];
@@ -122,7 +129,7 @@ export function UptimeLeaderboard({ nodes, isLoading }: UptimeLeaderboardProps)
                   </p>
                   <div className="flex items-center gap-2 mt-1">
                     <span className="text-xs text-white/50">{node.ip}</span>
-                    <span className="text-xs px-1.5 py-0.5 rounded bg-green-500/20 text-green-400">
+                    <span className={`text-xs px-1.5 py-0.5 rounded ${VERSION_STATUS_CLASSES[node.versionStatus]}`}>
                       v{node.version}
                     </span>
                   </div>
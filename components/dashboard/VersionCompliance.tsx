@@ -4,7 +4,15 @@ import { useMemo } from 'react';
 import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { CheckCircle2, AlertTriangle, XCircle, GitBranch, ArrowUpCircle } from 'lucide-react';
-import { PNode } from '@/types';
+import { PNode, VersionStatus } from '@/types';
+import { compareVersions, getReleaseInfo } from '@/lib/versions';
+
+const STATUS_COLORS: Record<VersionStatus, string> = {
+  current: 'bg-green-500',
+  'patch-behind': 'bg-blue-500',
+  'one-minor-behind': 'bg-yellow-500',
+  unsupported: 'bg-red-500',
+};
 
 interface VersionComplianceProps {
   nodes: PNode[];
@@ -13,40 +21,36 @@ interface VersionComplianceProps {
 
 export function VersionCompliance({ nodes, isLoading }: VersionComplianceProps) {
   const versionStats = useMemo(() => {
-    const versionMap = new Map<string, number>();
+    const versionMap = new Map<string, { count: number; status: VersionStatus }>();
     nodes.forEach(node => {
-      const count = versionMap.get(node.version) || 0;
-      versionMap.set(node.version, count + 1);
+      const count = versionMap.get(node.version)?.count || 0;
+      versionMap.set(node.version, { count: count + 1, status: node.versionStatus });
     });
 
     const versions = Array.from(versionMap.entries())
-      .map(([version, count]) => ({
+      .map(([version, { count, status }]) => ({
         version,
         count,
+        status,
         percentage: (count / nodes.length) * 100
       }))
-      .sort((a, b) => {
-        // Sort by semantic versioning (newest first)
-        const aParts = a.version.split('.').map(Number);
-        const bParts = b.version.split('.').map(Number);
-        for (let i = 0; i < 3; i++) {
-          if ((bParts[i] || 0) !== (aParts[i] || 0)) {
-            return (bParts[i] || 0) - (aParts[i] || 0);
-          }
-        }
-        return 0;
-      });
+      // Newest first, by semver precedence
+      .sort((a, b) => compareVersions(b.version, a.version));
 
-    const latestVersion = versions[0]?.version || '0.0.0';
-    const upToDate = nodes.filter(n => n.version === latestVersion).length;
-    const outdated = nodes.length - upToDate;
+    const release = getReleaseInfo(nodes);
+    const upToDate = nodes.filter(n => n.versionStatus === 'current').length;
+    const patchBehind = nodes.filter(n => n.versionStatus === 'patch-behind').length;
+    const oneMinorBehind = nodes.filter(n => n.versionStatus === 'one-minor-behind').length;
+    const unsupported = nodes.filter(n => n.versionStatus === 'unsupported').length;
     const complianceRate = nodes.length > 0 ? (upToDate / nodes.length) * 100 : 0;
 
     return {
       versions,
-      latestVersion,
+      release,
       upToDate,
-      outdated,
+      patchBehind,
+      oneMinorBehind,
+      unsupported,
       complianceRate
     };
   }, [nodes]);
@@ -140,14 +144,28 @@ export function VersionCompliance({ nodes, isLoading }: VersionComplianceProps)
               <CheckCircle2 className="h-5 w-5 text-green-500" />
               <div>
                 <p className="text-sm font-medium">{versionStats.upToDate} nodes</p>
-                <p className="text-xs text-muted-foreground">Running v{versionStats.latestVersion}</p>
+                <p className="text-xs text-muted-foreground">Running v{versionStats.release.current} or newer</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <ArrowUpCircle className="h-5 w-5 text-blue-500" />
+              <div>
+                <p className="text-sm font-medium">{versionStats.patchBehind} nodes</p>
+                <p className="text-xs text-muted-foreground">Patch behind</p>
               </div>
             </div>
             <div className="flex items-center gap-3">
               <ArrowUpCircle className="h-5 w-5 text-yellow-500" />
               <div>
-                <p className="text-sm font-medium">{versionStats.outdated} nodes</p>
-                <p className="text-xs text-muted-foreground">Need update</p>
+                <p className="text-sm font-medium">{versionStats.oneMinorBehind} nodes</p>
+                <p className="text-xs text-muted-foreground">One minor behind</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <XCircle className="h-5 w-5 text-red-500" />
+              <div>
+                <p className="text-sm font-medium">{versionStats.unsupported} nodes</p>
+                <p className="text-xs text-muted-foreground">Unsupported</p>
               </div>
             </div>
           </div>
@@ -166,11 +184,11 @@ export function VersionCompliance({ nodes, isLoading }: VersionComplianceProps)
             >
               <div className="flex items-center justify-between mb-1">
                 <div className="flex items-center gap-2">
-                  <span className={`w-2 h-2 rounded-full ${index === 0 ? 'bg-green-500' : 'bg-yellow-500'}`} />
+                  <span className={`w-2 h-2 rounded-full ${STATUS_COLORS[v.status]}`} />
                   <span className="text-sm font-mono">v{v.version}</span>
-                  {index === 0 && (
+                  {v.version === versionStats.release.current && (
                     <span className="text-[10px] px-1.5 py-0.5 bg-green-500/20 text-green-400 rounded">
-                      LATEST
+                      CURRENT
                     </span>
                   )}
                 </div>
@@ -180,7 +198,7 @@ export function VersionCompliance({ nodes, isLoading }: VersionComplianceProps)
               </div>
               <div className="h-2 bg-muted/20 rounded-full overflow-hidden">
                 <motion.div
-                  className={`h-full rounded-full ${index === 0 ? 'bg-green-500' : 'bg-yellow-500'}`}
+                  className={`h-full rounded-full ${STATUS_COLORS[v.status]}`}
                   initial={{ width: 0 }}
                   animate={{ width: `${v.percentage}%` }}
                   transition={{ duration: 0.8, delay: index * 0.1 }}
@@ -190,7 +208,7 @@ export function VersionCompliance({ nodes, isLoading }: VersionComplianceProps)
           ))}
         </div>
 
-        {/* Latest version info */}
+        {/* Current release info */}
         <div className="p-4 rounded-xl bg-gradient-to-r from-green-500/10 to-emerald-500/10 border border-green-500/20">
           <div className="flex items-center gap-3">
             {getComplianceIcon(versionStats.complianceRate)}
@@ -203,7 +221,9 @@ export function VersionCompliance({ nodes, isLoading }: VersionComplianceProps)
                     : 'Needs Attention'}
               </p>
               <p className="text-sm text-muted-foreground">
-                Latest version: Heidelberg v{versionStats.latestVersion}
+                Current release: {versionStats.release.name ? `${versionStats.release.name} ` : ''}
+                {`v${versionStats.release.current}`}
+                {versionStats.release.policy === 'observed' ? ' (highest stable in gossip)' : ' (release manifest)'}
               </p>
             </div>
           </div>
@@ -11,8 +11,9 @@ import {
 } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { VersionDistributionItem } from '@/types';
-import { CHART_COLORS, LATEST_VERSION } from '@/lib/constants';
+import { VersionDistributionItem, VersionStatus } from '@/types';
+import { CHART_COLORS } from '@/lib/constants';
+import { versionStatusConfig } from '@/components/nodes/VersionBadge';
 import { AlertTriangle, CheckCircle } from 'lucide-react';
 
 interface VersionDistributionProps {
@@ -49,28 +50,30 @@ export function VersionDistribution({ data, isLoading }: VersionDistributionProp
     name: `v${item.version}`,
     value: item.count,
     percentage: item.percentage,
-    isLatest: item.version === LATEST_VERSION,
+    status: item.status,
   }));
 
-  const latestVersionCount = data.find((d) => d.version === LATEST_VERSION)?.count || 0;
+  const currentVersionCount = data
+    .filter((d) => d.status === 'current')
+    .reduce((sum, d) => sum + d.count, 0);
   const totalCount = data.reduce((sum, d) => sum + d.count, 0);
-  const latestPercentage =
-    totalCount > 0 ? ((latestVersionCount / totalCount) * 100).toFixed(1) : 0;
+  const currentPercentage =
+    totalCount > 0 ? ((currentVersionCount / totalCount) * 100).toFixed(1) : 0;
 
   return (
     <Card>
       <CardHeader className="pb-2">
         <div className="flex items-center justify-between">
           <CardTitle className="text-lg">Version Distribution</CardTitle>
-          {Number(latestPercentage) >= 80 ? (
+          {Number(currentPercentage) >= 80 ? (
             <Badge variant="online" className="text-xs">
               <CheckCircle className="h-3 w-3 mr-1" />
-              {latestPercentage}% on latest
+              {currentPercentage}% on current
             </Badge>
           ) : (
             <Badge variant="degraded" className="text-xs">
               <AlertTriangle className="h-3 w-3 mr-1" />
-              {latestPercentage}% on latest
+              {currentPercentage}% on current
             </Badge>
           )}
         </div>
@@ -91,7 +94,7 @@ export function VersionDistribution({ data, isLoading }: VersionDistributionProp
                 {chartData.map((entry, index) => (
                   <Cell
                     key={`cell-${index}`}
-                    fill={entry.isLatest ? CHART_COLORS.primary : COLORS[index % COLORS.length]}
+                    fill={entry.status === 'current' ? CHART_COLORS.primary : COLORS[index % COLORS.length]}
                     className="transition-all hover:opacity-80"
                   />
                 ))}
@@ -106,9 +109,9 @@ export function VersionDistribution({ data, isLoading }: VersionDistributionProp
                         <p className="text-sm text-muted-foreground">
                           {data.value} nodes ({data.percentage.toFixed(1)}%)
                         </p>
-                        {data.isLatest && (
-                          <p className="text-xs text-green-500 mt-1">Latest version</p>
-                        )}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {versionStatusConfig[data.status as VersionStatus].label}
+                        </p>
                       </div>
                     );
                   }
@@ -154,17 +157,18 @@ export function VersionDistribution({ data, isLoading }: VersionDistributionProp
                   className="h-2 w-2 rounded-full"
                   style={{
                     backgroundColor:
-                      item.version === LATEST_VERSION
+                      item.status === 'current'
                         ? CHART_COLORS.primary
                         : COLORS[index % COLORS.length],
                   }}
                 />
                 <span className="text-sm">v{item.version}</span>
-                {item.version === LATEST_VERSION && (
-                  <Badge variant="online" className="text-[10px] px-1.5">
-                    Latest
-                  </Badge>
-                )}
+                <Badge
+                  variant={versionStatusConfig[item.status].variant}
+                  className="text-[10px] px-1.5"
+                >
+                  {versionStatusConfig[item.status].label}
+                </Badge>
               </div>
               <div className="flex items-center gap-2">
                 <span className="text-sm font-medium">{item.count}</span>
@@ -7,6 +7,7 @@ import { motion } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dna, GitBranch, CheckCircle2 } from 'lucide-react';
 import { PNode } from '@/types';
+import { compareVersions, getReleaseInfo } from '@/lib/versions';
 import * as THREE from 'three';
 
 interface VersionHelix3DProps {
@@ -165,7 +166,7 @@ function ConnectorBar({
 }
 
 function HelixVisualization({ versionData }: {
-  versionData: Array<{ version: string; count: number; isLatest: boolean }>;
+  versionData: Array<{ version: string; count: number; isCurrent: boolean }>;
 }) {
   const groupRef = useRef<THREE.Group>(null);
 
@@ -203,7 +204,7 @@ function HelixVisualization({ versionData }: {
           const x2 = Math.cos(angle + Math.PI) * 1.2;
           const z2 = Math.sin(angle + Math.PI) * 1.2;
 
-          const color = v.isLatest ? '#22c55e' : '#6366f1';
+          const color = v.isCurrent ? '#22c55e' : '#6366f1';
 
           return (
             <group key={v.version}>
@@ -249,31 +250,23 @@ export function VersionHelix3D({ nodes, isLoading }: VersionHelix3DProps) {
 
     const versions = Array.from(versionMap.entries())
       .map(([version, count]) => ({ version, count }))
-      .sort((a, b) => {
-        // Sort by semantic versioning
-        const aParts = a.version.split('.').map(Number);
-        const bParts = b.version.split('.').map(Number);
-        for (let i = 0; i < 3; i++) {
-          if ((bParts[i] || 0) !== (aParts[i] || 0)) {
-            return (bParts[i] || 0) - (aParts[i] || 0);
-          }
-        }
-        return 0;
-      });
-
-    const latestVersion = versions[0]?.version || '';
+      // Sort by semver precedence, newest first
+      .sort((a, b) => compareVersions(b.version, a.version));
+
+    const currentVersion = getReleaseInfo(nodes).current;
+    const currentCount = nodes.filter(n => n.versionStatus === 'current').length;
 
     return {
       versionData: versions.map(v => ({
         ...v,
-        isLatest: v.version === latestVersion
+        isCurrent: compareVersions(v.version, currentVersion) >= 0
       })),
       stats: {
-        latestVersion,
-        latestCount: versions[0]?.count || 0,
+        currentVersion,
+        currentCount,
         totalVersions: versions.length,
         complianceRate: nodes.length > 0
-          ? ((versions[0]?.count || 0) / nodes.length) * 100
+          ? (currentCount / nodes.length) * 100
           : 0
       }
     };
@@ -307,7 +300,7 @@ export function VersionHelix3D({ nodes, isLoading }: VersionHelix3DProps) {
           </div>
           <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-green-500/20">
             <CheckCircle2 className="h-4 w-4 text-green-400" />
-            <span className="text-sm font-medium text-green-400">v{stats.latestVersion}</span>
+            <span className="text-sm font-medium text-green-400">v{stats.currentVersion}</span>
           </div>
         </div>
       </CardHeader>
@@ -328,9 +321,9 @@ export function VersionHelix3D({ nodes, isLoading }: VersionHelix3DProps) {
           <div className="text-center">
             <div className="flex items-center justify-center gap-1 mb-1">
               <GitBranch className="h-3 w-3 text-green-400" />
-              <span className="text-xs text-muted-foreground">On Latest</span>
+              <span className="text-xs text-muted-foreground">On Current</span>
             </div>
-            <p className="text-xl font-bold text-green-400">{stats.latestCount}</p>
+            <p className="text-xl font-bold text-green-400">{stats.currentCount}</p>
           </div>
           <div className="text-center">
             <div className="flex items-center justify-center gap-1 mb-1">
@@ -0,0 +1,227 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { GitBranch, Rocket } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { VersionBadge } from '@/components/nodes/VersionBadge';
+import { StatusBadge } from '@/components/nodes/StatusBadge';
+import { useVersionRollout } from '@/hooks/useNodes';
+import { CHART_COLORS } from '@/lib/constants';
+import { formatPercent, formatUptime, truncateMiddle } from '@/lib/utils';
+
+const RANGES = ['7d', '30d', '90d'] as const;
+type RolloutRange = (typeof RANGES)[number];
+
+const COLORS = [
+  CHART_COLORS.primary,
+  CHART_COLORS.secondary,
+  CHART_COLORS.tertiary,
+  '#22c55e',
+  '#8b5cf6',
+  '#ec4899',
+  '#06b6d4',
+  '#eab308',
+];
+
+/**
+ * Format a time-to-adoption milestone (milliseconds) for display
+ */
+function formatMilestone(ms: number | null): string {
+  if (ms === null) return '—';
+  return ms === 0 ? 'Immediately' : formatUptime(Math.round(ms / 1000));
+}
+
+export function VersionRollout() {
+  const [range, setRange] = useState<RolloutRange>('30d');
+  const { data, isLoading } = useVersionRollout(range);
+
+  const series = data?.series ?? [];
+  const releases = data?.releases ?? [];
+  const laggards = data?.laggards;
+  const timeFormat = range === '7d' ? 'MMM d HH:mm' : 'MMM d';
+
+  const tooltipStyle = {
+    backgroundColor: 'hsl(var(--card))',
+    border: '1px solid hsl(var(--border))',
+    borderRadius: '8px',
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <GitBranch className="h-5 w-5 text-xandeum-orange" />
+            Version Rollout
+          </CardTitle>
+          <Tabs value={range} onValueChange={(value) => setRange(value as RolloutRange)}>
+            <TabsList>
+              {RANGES.map((r) => (
+                <TabsTrigger key={r} value={r}>
+                  {r}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading && !data ? (
+          <div className="h-[300px] animate-pulse bg-muted rounded-lg" />
+        ) : series.length < 2 ? (
+          <div className="h-[200px] flex items-center justify-center text-center text-muted-foreground">
+            <div>
+              <GitBranch className="h-8 w-8 mx-auto mb-2" />
+              <p className="text-sm">Not enough history for this range yet</p>
+              <p className="text-xs mt-1">Snapshots are recorded by the background collector</p>
+            </div>
+          </div>
+        ) : (
+          <>
+            {/* Share over time */}
+            <div className="h-[280px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={series} margin={{ top: 10, right: 10, left: -20, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(t) => format(t, 'MMM d')}
+                    className="text-xs"
+                    minTickGap={24}
+                  />
+                  <YAxis domain={[0, 100]} tickFormatter={(v) => `${v}%`} className="text-xs" />
+                  <Tooltip
+                    contentStyle={tooltipStyle}
+                    labelFormatter={(t) => format(Number(t), timeFormat)}
+                    formatter={(value: number, name: string) => [formatPercent(value), name]}
+                  />
+                  {releases
+                    .filter((r) => !r.seenAtHistoryStart)
+                    .map((r) => (
+                      <ReferenceLine
+                        key={r.version}
+                        x={r.firstSeen}
+                        stroke="#6B7280"
+                        strokeDasharray="3 3"
+                        label={{ value: `v${r.version}`, position: 'top', fill: '#6B7280', fontSize: 10 }}
+                      />
+                    ))}
+                  {data?.versions
+                    .slice()
+                    .reverse()
+                    .map((version, i) => (
+                      <Area
+                        key={version}
+                        type="monotone"
+                        dataKey={(point) => point.shares[version] ?? 0}
+                        name={`v${version}`}
+                        stackId="versions"
+                        stroke={COLORS[i % COLORS.length]}
+                        fill={COLORS[i % COLORS.length]}
+                        fillOpacity={0.6}
+                      />
+                    ))}
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+
+            {/* Release milestones */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-muted-foreground">Releases</p>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-muted-foreground border-b border-border">
+                      <th className="py-2 pr-4 font-medium">Version</th>
+                      <th className="py-2 pr-4 font-medium">First seen</th>
+                      <th className="py-2 pr-4 font-medium">Time to 50%</th>
+                      <th className="py-2 pr-4 font-medium">Time to 90%</th>
+                      <th className="py-2 pr-4 font-medium text-right">Share</th>
+                      <th className="py-2 font-medium text-right">On this or newer</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {releases.map((r) => (
+                      <tr key={r.version}>
+                        <td className="py-2 pr-4 font-mono">
+                          v{r.version}
+                          {!r.stable && (
+                            <Badge variant="outline" className="ml-2 text-xs">
+                              pre-release
+                            </Badge>
+                          )}
+                        </td>
+                        <td
+                          className="py-2 pr-4"
+                          title={r.seenAtHistoryStart ? 'Already present in the oldest stored snapshot' : undefined}
+                        >
+                          {r.seenAtHistoryStart && '≤ '}
+                          {format(r.firstSeen, timeFormat)}
+                        </td>
+                        <td className="py-2 pr-4">{formatMilestone(r.timeTo50)}</td>
+                        <td className="py-2 pr-4">{formatMilestone(r.timeTo90)}</td>
+                        <td className="py-2 pr-4 text-right">{formatPercent(r.share)}</td>
+                        <td className="py-2 text-right">{formatPercent(r.adoption)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Laggards */}
+            {laggards && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground flex items-center gap-2">
+                  <Rocket className="h-4 w-4" />
+                  {laggards.release
+                    ? `Laggards: still behind v${laggards.release} more than ${laggards.graceDays} days after it was first seen`
+                    : `Laggards: no stable release has been out for ${laggards.graceDays} days`}
+                </p>
+                {laggards.release && laggards.nodes.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Every node has upgraded</p>
+                )}
+                {laggards.nodes.length > 0 && (
+                  <div className="max-h-[240px] overflow-y-auto divide-y divide-border">
+                    {laggards.nodes.map((node) => (
+                      <Link
+                        key={node.pubkey}
+                        href={`/nodes/${node.pubkey}`}
+                        className="flex items-center justify-between gap-4 py-2 text-sm hover:bg-muted/50 rounded-md px-2"
+                      >
+                        <span className="font-mono">{truncateMiddle(node.pubkey, 8, 6)}</span>
+                        <span className="flex items-center gap-2">
+                          <VersionBadge version={node.version} status={node.versionStatus} />
+                          <StatusBadge status={node.status} size="sm" />
+                        </span>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default VersionRollout;
@@ -55,6 +55,14 @@ export function Footer() {
                   Compare Nodes
                 </Link>
               </li>
+              <li>
+                <Link
+                  href="/status"
+                  className="text-muted-foreground hover:text-xandeum-orange transition-colors"
+                >
+                  Network Status
+                </Link>
+              </li>
             </ul>
           </div>
 
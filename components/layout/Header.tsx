@@ -8,6 +8,8 @@ import {
   LayoutDashboard,
   Server,
   GitCompare,
+  ShieldAlert,
+  Bell,
   Menu,
   X,
   Moon,
@@ -16,19 +18,25 @@ import {
 } from 'lucide-react';
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { HealthProfileSelect } from '@/components/common/HealthProfileSelect';
+import { NetworkSelect } from '@/components/common/NetworkSelect';
 import { cn } from '@/lib/utils';
 import { useTheme } from 'next-themes';
+import { useNetwork } from '@/contexts/NetworkContext';
 
 const navItems = [
   { href: '/', label: 'Dashboard', icon: LayoutDashboard },
   { href: '/nodes', label: 'Nodes', icon: Server },
   { href: '/compare', label: 'Compare', icon: GitCompare },
+  { href: '/data-quality', label: 'Data Quality', icon: ShieldAlert },
+  { href: '/alerts', label: 'Alerts', icon: Bell },
 ];
 
 export function Header() {
   const pathname = usePathname();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const { theme, setTheme } = useTheme();
+  const { networks } = useNetwork();
 
   return (
     <header className="sticky top-0 z-50 w-full border-b border-[#2a4a63] bg-[#1C3850]">
@@ -86,6 +94,12 @@ export function Header() {
 
         {/* Right Actions */}
         <div className="flex items-center space-x-2">
+          {/* Network */}
+          <NetworkSelect className="hidden md:flex border-white/30 bg-transparent text-white" />
+
+          {/* Scoring Profile */}
+          <HealthProfileSelect className="hidden lg:flex border-white/30 bg-transparent text-white" />
+
           {/* Theme Toggle */}
           <Button
             variant="ghost"
@@ -158,7 +172,17 @@ export function Header() {
                 </Link>
               );
             })}
+            {networks.length > 1 && (
+              <div className="pt-4 border-t border-[#2a4a63] flex items-center justify-between px-4">
+                <span className="text-sm text-white/70">Network</span>
+                <NetworkSelect className="border-white/30 bg-transparent text-white" />
+              </div>
+            )}
             <div className="pt-4 border-t border-[#2a4a63] flex items-center justify-between px-4">
+              <span className="text-sm text-white/70">Scoring</span>
+              <HealthProfileSelect className="border-white/30 bg-transparent text-white" />
+            </div>
+            <div className="flex items-center justify-between px-4">
               <span className="text-sm text-white/70">Theme</span>
               <Button
                 variant="ghost"
@@ -0,0 +1,112 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { CheckCircle, Lightbulb } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { formatPercent, formatUptime } from '@/lib/utils';
+import { HealthExplanation, HealthFactorExplanation } from '@/types';
+
+const FACTOR_LABELS: Record<HealthFactorExplanation['factor'], string> = {
+  uptime: 'Uptime',
+  recency: 'Recency',
+  storage: 'Storage',
+  version: 'Version',
+};
+
+interface HealthImprovementProps {
+  explanation: HealthExplanation;
+}
+
+/**
+ * Format a factor's raw input for display
+ */
+function formatInput(factor: HealthFactorExplanation): string {
+  switch (factor.factor) {
+    case 'uptime':
+      return formatUptime(Number(factor.input));
+    case 'storage':
+      return formatPercent(Number(factor.input));
+    case 'version':
+      return `v${factor.input}`;
+    default:
+      return String(factor.input);
+  }
+}
+
+export function HealthImprovement({ explanation }: HealthImprovementProps) {
+  const actions = explanation.factors
+    .filter((f) => f.action)
+    .sort((a, b) => b.recoverablePoints - a.recoverablePoints);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+    >
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Lightbulb className="h-5 w-5 text-xandeum-orange" />
+              How to improve
+            </CardTitle>
+            <Badge variant="outline" className="text-xs">
+              Profile: {explanation.profile}
+            </Badge>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Actions */}
+          {actions.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="h-4 w-4 text-green-500" />
+              Nothing left to recover: every factor is at its best
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {actions.map((f) => (
+                <div
+                  key={f.factor}
+                  className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50 text-sm"
+                >
+                  <span>
+                    <span className="font-medium">{FACTOR_LABELS[f.factor]}:</span> {f.action}
+                  </span>
+                  <Badge variant="online" className="text-xs shrink-0">
+                    +{f.recoverablePoints}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Breakdown */}
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-muted-foreground">Score breakdown</p>
+            <div className="divide-y divide-border">
+              {explanation.factors.map((f) => (
+                <div
+                  key={f.factor}
+                  className="grid grid-cols-[5rem_6rem_1fr_auto] items-center gap-4 py-2 text-sm"
+                >
+                  <span className="font-medium">{FACTOR_LABELS[f.factor]}</span>
+                  <span className="font-mono capitalize">{formatInput(f)}</span>
+                  <span className="text-muted-foreground">{f.rule}</span>
+                  <span className="text-right whitespace-nowrap">
+                    {f.factorScore}/100
+                    <span className="text-muted-foreground">
+                      {' · '}
+                      {f.pointsLost > 0 ? `-${f.pointsLost}` : '0'} pts ({Math.round(f.weight * 100)}%)
+                    </span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -4,7 +4,6 @@ import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { Server, HardDrive, Clock, Copy, ExternalLink } from 'lucide-react';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
   Tooltip,
@@ -13,6 +12,7 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { StatusBadge } from './StatusBadge';
+import { VersionBadge } from './VersionBadge';
 import { HealthScore } from './HealthScore';
 import { PNode } from '@/types';
 import { truncateMiddle, copyToClipboard, formatRelativeTime } from '@/lib/utils';
@@ -99,9 +99,7 @@ export function NodeCard({ node, index = 0 }: NodeCardProps) {
             {/* Status and Version */}
             <div className="flex items-center gap-2">
               <StatusBadge status={node.status} size="sm" />
-              <Badge variant="version" className="text-xs">
-                v{node.version}
-              </Badge>
+              <VersionBadge version={node.version} status={node.versionStatus} />
             </div>
 
             {/* Metrics */}
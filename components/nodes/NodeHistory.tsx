@@ -0,0 +1,250 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { History, RotateCcw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Badge } from '@/components/ui/badge';
+import { useNodeHistory } from '@/hooks/useNodes';
+import { CHART_COLORS } from '@/lib/constants';
+import { formatBytes, formatUptime } from '@/lib/utils';
+import { NodeHistoryEntry, NodeStatus, RestartKind } from '@/types';
+
+const RANGES = ['1h', '24h', '7d', '30d'] as const;
+type HistoryRange = (typeof RANGES)[number];
+
+const RESTART_LABELS: Record<RestartKind, { label: string; variant: 'online' | 'degraded' | 'offline' }> = {
+  upgrade: { label: 'Upgrade', variant: 'online' },
+  downgrade: { label: 'Downgrade', variant: 'degraded' },
+  crash: { label: 'Crash / Restart', variant: 'offline' },
+};
+
+interface NodeHistoryProps {
+  pubkey: string;
+}
+
+interface StatusInterval {
+  status: NodeStatus;
+  start: number;
+  end: number;
+}
+
+/**
+ * Merge consecutive entries with the same status into intervals
+ */
+function toStatusIntervals(entries: NodeHistoryEntry[]): StatusInterval[] {
+  const intervals: StatusInterval[] = [];
+
+  entries.forEach((entry, i) => {
+    const end = entries[i + 1]?.timestamp ?? entry.timestamp;
+    const last = intervals[intervals.length - 1];
+    if (last && last.status === entry.status) {
+      last.end = end;
+    } else {
+      intervals.push({ status: entry.status, start: entry.timestamp, end });
+    }
+  });
+
+  return intervals;
+}
+
+export function NodeHistory({ pubkey }: NodeHistoryProps) {
+  const [range, setRange] = useState<HistoryRange>('24h');
+  const { data: entries, restarts, isLoading } = useNodeHistory(pubkey, range);
+
+  const timeFormat = range === '1h' || range === '24h' ? 'HH:mm' : 'MMM d';
+
+  const chartData = useMemo(
+    () =>
+      entries.map((entry) => ({
+        ...entry,
+        time: format(entry.timestamp, timeFormat),
+      })),
+    [entries, timeFormat]
+  );
+
+  const intervals = useMemo(() => toStatusIntervals(entries), [entries]);
+
+  const rangeStart = entries[0]?.timestamp ?? 0;
+  const rangeSpan = (entries[entries.length - 1]?.timestamp ?? 0) - rangeStart;
+
+  const tooltipStyle = {
+    backgroundColor: 'hsl(var(--card))',
+    border: '1px solid hsl(var(--border))',
+    borderRadius: '8px',
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.6 }}
+    >
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="h-5 w-5 text-xandeum-orange" />
+              History
+            </CardTitle>
+            <Tabs value={range} onValueChange={(value) => setRange(value as HistoryRange)}>
+              <TabsList>
+                {RANGES.map((r) => (
+                  <TabsTrigger key={r} value={r}>
+                    {r}
+                  </TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading && entries.length === 0 ? (
+            <div className="h-[300px] animate-pulse bg-muted rounded-lg" />
+          ) : entries.length < 2 ? (
+            <div className="h-[200px] flex items-center justify-center text-center text-muted-foreground">
+              <div>
+                <History className="h-8 w-8 mx-auto mb-2" />
+                <p className="text-sm">Not enough history for this range yet</p>
+                <p className="text-xs mt-1">Snapshots are recorded by the background collector</p>
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Status Ribbon */}
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-muted-foreground">Status</p>
+                <div className="flex h-6 w-full overflow-hidden rounded-md bg-muted">
+                  {intervals.map((interval) => (
+                    <div
+                      key={interval.start}
+                      className="h-full"
+                      style={{
+                        width: `${rangeSpan > 0 ? ((interval.end - interval.start) / rangeSpan) * 100 : 100}%`,
+                        backgroundColor: CHART_COLORS[interval.status],
+                      }}
+                      title={`${interval.status}: ${format(interval.start, 'MMM d HH:mm')} – ${format(interval.end, 'MMM d HH:mm')}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>{format(rangeStart, 'MMM d HH:mm')}</span>
+                  <div className="flex items-center gap-4">
+                    {(['online', 'degraded', 'offline'] as NodeStatus[]).map((status) => (
+                      <span key={status} className="flex items-center gap-1 capitalize">
+                        <span
+                          className="h-2 w-2 rounded-full"
+                          style={{ backgroundColor: CHART_COLORS[status] }}
+                        />
+                        {status}
+                      </span>
+                    ))}
+                  </div>
+                  <span>{format(rangeStart + rangeSpan, 'MMM d HH:mm')}</span>
+                </div>
+              </div>
+
+              {/* Charts */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-muted-foreground">Storage Used</p>
+                  <div className="h-[220px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                        <XAxis dataKey="time" className="text-xs" minTickGap={24} />
+                        <YAxis tickFormatter={(v) => formatBytes(v, 0)} className="text-xs" width={70} />
+                        <Tooltip
+                          contentStyle={tooltipStyle}
+                          formatter={(value: number) => [formatBytes(value), 'Storage Used']}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="storageUsed"
+                          stroke={CHART_COLORS.storage}
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-sm font-medium text-muted-foreground">Health Score</p>
+                  <div className="h-[220px]">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={chartData}>
+                        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                        <XAxis dataKey="time" className="text-xs" minTickGap={24} />
+                        <YAxis domain={[0, 100]} className="text-xs" />
+                        <Tooltip
+                          contentStyle={tooltipStyle}
+                          formatter={(value: number) => [value, 'Health Score']}
+                        />
+                        <Line
+                          type="monotone"
+                          dataKey="healthScore"
+                          stroke={CHART_COLORS.health}
+                          strokeWidth={2}
+                          dot={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              </div>
+
+              {/* Restarts */}
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <p className="text-sm font-medium text-muted-foreground">Detected Restarts</p>
+                  <Badge variant="outline" className="text-xs">
+                    {restarts.length}
+                  </Badge>
+                </div>
+                {restarts.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No restarts in this range</p>
+                ) : (
+                  <div className="space-y-2">
+                    {restarts.map((restart) => (
+                      <div
+                        key={`${restart.detectedAt}-${restart.estimatedAt}`}
+                        className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50 text-sm"
+                      >
+                        <span className="flex items-center gap-2">
+                          <RotateCcw className="h-4 w-4 text-xandeum-orange" />
+                          {format(restart.estimatedAt, 'MMM d, HH:mm')}
+                          <Badge variant={RESTART_LABELS[restart.kind].variant} className="text-xs">
+                            {RESTART_LABELS[restart.kind].label}
+                          </Badge>
+                        </span>
+                        <span className="text-muted-foreground text-right">
+                          {restart.versionBefore === restart.versionAfter
+                            ? `v${restart.versionAfter}`
+                            : `v${restart.versionBefore} → v${restart.versionAfter}`}
+                          {' · '}after {formatUptime(restart.uptimeBefore)} up
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { AlertTriangle, Cpu, HardDrive, MemoryStick, Network } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { useNodeDeepStats } from '@/hooks/useNodes';
+import { formatBytes, formatPercent, formatRelativeTime } from '@/lib/utils';
+
+interface NodeSystemStatsProps {
+  pubkey: string;
+  isPublic: boolean;
+  gossipVersion: string;
+}
+
+function Meter({
+  label,
+  icon: Icon,
+  percent,
+  detail,
+}: {
+  label: string;
+  icon: React.ElementType;
+  percent: number;
+  detail: string;
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-2 text-muted-foreground">
+          <Icon className="h-4 w-4" />
+          {label}
+        </span>
+        <span className="font-medium">{formatPercent(percent)}</span>
+      </div>
+      <div className="h-2 bg-muted rounded-full overflow-hidden">
+        <motion.div
+          className={`h-full rounded-full ${
+            percent > 90 ? 'bg-red-500' : percent > 70 ? 'bg-yellow-500' : 'bg-xandeum-500'
+          }`}
+          initial={{ width: 0 }}
+          animate={{ width: `${Math.min(percent, 100)}%` }}
+          transition={{ duration: 0.5 }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">{detail}</p>
+    </div>
+  );
+}
+
+/**
+ * CPU, memory, disk and network throughput reported by the node itself
+ */
+export function NodeSystemStats({ pubkey, isPublic, gossipVersion }: NodeSystemStatsProps) {
+  const { data: deepStats, isLoading } = useNodeDeepStats(isPublic ? pubkey : null);
+  const stats = deepStats?.stats;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.55 }}
+    >
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <CardTitle className="text-lg">System</CardTitle>
+            {deepStats?.lastSuccessAt && (
+              <span className="text-xs text-muted-foreground">
+                Collected {formatRelativeTime(Math.floor(deepStats.lastSuccessAt / 1000))}
+              </span>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!isPublic ? (
+            <p className="text-sm text-muted-foreground">
+              This node&apos;s RPC port is not public, so its system stats cannot be collected
+            </p>
+          ) : isLoading && !deepStats ? (
+            <div className="h-[120px] animate-pulse bg-muted rounded-lg" />
+          ) : !stats ? (
+            <p className="text-sm text-muted-foreground">
+              {deepStats?.error
+                ? `The node did not answer: ${deepStats.error}`
+                : 'Not collected yet. The background collector queries public nodes every few minutes.'}
+            </p>
+          ) : (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                <Meter
+                  label="CPU"
+                  icon={Cpu}
+                  percent={stats.cpu_percent}
+                  detail={`${stats.active_streams} active streams`}
+                />
+                <Meter
+                  label="Memory"
+                  icon={MemoryStick}
+                  percent={stats.memory_percent}
+                  detail={`${formatBytes(stats.memory_used)} / ${formatBytes(stats.memory_total)}`}
+                />
+                <Meter
+                  label="Disk"
+                  icon={HardDrive}
+                  percent={stats.disk_percent}
+                  detail={`${formatBytes(stats.disk_used)} / ${formatBytes(stats.disk_total)}`}
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4 flex-wrap p-3 rounded-lg bg-muted/50 text-sm">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <Network className="h-4 w-4" />
+                  Network
+                </span>
+                <span className="font-mono">
+                  {deepStats.throughput
+                    ? `${deepStats.throughput.packetsInPerSec} pkt/s in · ${deepStats.throughput.packetsOutPerSec} pkt/s out`
+                    : `${stats.packets_recv.toLocaleString()} packets in · ${stats.packets_sent.toLocaleString()} out`}
+                </span>
+              </div>
+
+              <div className="flex items-center gap-2 flex-wrap text-sm">
+                {deepStats.version && (
+                  <Badge variant="outline" className="text-xs">
+                    Reports v{deepStats.version}
+                  </Badge>
+                )}
+                {deepStats.version && deepStats.version !== gossipVersion && (
+                  <span className="flex items-center gap-1 text-xs text-yellow-500">
+                    <AlertTriangle className="h-3 w-3" />
+                    Gossip lists v{gossipVersion}
+                  </span>
+                )}
+                {deepStats.error && (
+                  <span className="flex items-center gap-1 text-xs text-red-500" title={deepStats.error}>
+                    <AlertTriangle className="h-3 w-3" />
+                    Last attempt failed; showing earlier data
+                  </span>
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
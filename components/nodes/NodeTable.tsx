@@ -26,16 +26,17 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
-import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { StatusBadge } from './StatusBadge';
+import { VersionBadge } from './VersionBadge';
 import { HealthScore } from './HealthScore';
 import { InfoTooltip } from '@/components/common/MetricTooltip';
 import { PNode, NodeFilters } from '@/types';
 import { truncateMiddle, formatRelativeTime, copyToClipboard } from '@/lib/utils';
 import { useWatchlist } from '@/hooks/useWatchlist';
+import { useRestarts } from '@/hooks/useNodes';
 
 interface NodeTableProps {
   nodes: PNode[];
@@ -69,6 +70,7 @@ export function NodeTable({
   const [copiedPubkey, setCopiedPubkey] = useState<string | null>(null);
   const [internalSelected, setInternalSelected] = useState<string[]>([]);
   const { isWatched, toggleWatchlist } = useWatchlist();
+  const { counts: restartCounts } = useRestarts();
 
   // Use external state if provided, otherwise use internal
   const selectedForCompare = externalSelected ?? internalSelected;
@@ -288,6 +290,12 @@ export function NodeTable({
               <TableHead>
                 <SortableHeader label="Uptime" sortKey="uptime" tooltip="uptime" />
               </TableHead>
+              <TableHead>
+                <div className="flex items-center gap-1">
+                  Restarts
+                  <InfoTooltip term="restarts" />
+                </div>
+              </TableHead>
               <TableHead>
                 <SortableHeader label="Last Seen" sortKey="lastSeen" tooltip="last_seen" />
               </TableHead>
@@ -297,7 +305,7 @@ export function NodeTable({
           <TableBody>
             {paginatedNodes.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={showCompare ? 11 : 10} className="text-center py-8">
+                <TableCell colSpan={showCompare ? 12 : 11} className="text-center py-8">
                   <p className="text-muted-foreground">No nodes found</p>
                 </TableCell>
               </TableRow>
@@ -370,9 +378,7 @@ export function NodeTable({
 
                     {/* Version */}
                     <TableCell>
-                      <Badge variant="version" className="text-xs">
-                        v{node.version}
-                      </Badge>
+                      <VersionBadge version={node.version} status={node.versionStatus} />
                     </TableCell>
 
                     {/* Gossip Status */}
@@ -400,6 +406,11 @@ export function NodeTable({
                       <span className="text-sm">{node.uptimeFormatted}</span>
                     </TableCell>
 
+                    {/* Restarts (last 7 days) */}
+                    <TableCell>
+                      <RestartCount count={node.restartCount ?? restartCounts?.[node.pubkey]} />
+                    </TableCell>
+
                     {/* Last Seen */}
                     <TableCell>
                       <span className="text-sm text-muted-foreground">
@@ -472,3 +483,19 @@ export function NodeTable({
     </div>
   );
 }
+
+function RestartCount({ count }: { count?: number }) {
+  if (count === undefined) {
+    return <span className="text-sm text-muted-foreground">—</span>;
+  }
+
+  return (
+    <span
+      className={`text-sm ${
+        count >= 3 ? 'text-red-500 font-medium' : count > 0 ? 'text-yellow-500' : 'text-muted-foreground'
+      }`}
+    >
+      {count}
+    </span>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { VersionStatus } from '@/types';
+
+interface VersionBadgeProps {
+  version: string;
+  status: VersionStatus;
+  size?: 'sm' | 'md';
+}
+
+export const versionStatusConfig = {
+  current: {
+    label: 'Current',
+    variant: 'online' as const,
+    description: 'Running the current release',
+  },
+  'patch-behind': {
+    label: 'Patch behind',
+    variant: 'version' as const,
+    description: 'An older patch of the current minor release',
+  },
+  'one-minor-behind': {
+    label: 'One minor behind',
+    variant: 'degraded' as const,
+    description: 'Behind the current release, within the previous minor line',
+  },
+  unsupported: {
+    label: 'Unsupported',
+    variant: 'offline' as const,
+    description: 'More than one minor release behind',
+  },
+};
+
+/**
+ * Version badge colored by how far the version is behind the current release
+ */
+export function VersionBadge({ version, status, size = 'sm' }: VersionBadgeProps) {
+  const config = versionStatusConfig[status];
+
+  return (
+    <Badge
+      variant={config.variant}
+      className={size === 'sm' ? 'text-xs' : ''}
+      title={config.description}
+    >
+      v{version}
+    </Badge>
+  );
+}
@@ -0,0 +1,68 @@
+import { cn } from '@/lib/utils';
+import { AvailabilitySeries, AvailabilityStatus } from '@/types';
+
+const STATUS_COLORS: Record<AvailabilityStatus, string> = {
+  operational: 'bg-green-500',
+  degraded: 'bg-yellow-500',
+  outage: 'bg-red-500',
+  'no-data': 'bg-muted',
+};
+
+const STATUS_LABELS: Record<AvailabilityStatus, string> = {
+  operational: 'No issues',
+  degraded: 'Degraded',
+  outage: 'Outage',
+  'no-data': 'No data',
+};
+
+/**
+ * One bar per day, oldest on the left. Each bar's details are in its title,
+ * so they show on hover without JavaScript.
+ */
+export function AvailabilityBars({ series, label }: { series: AvailabilitySeries; label: string }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4 text-sm">
+        <span className="font-medium truncate" title={series.name}>
+          {label}
+        </span>
+        <span className="text-muted-foreground whitespace-nowrap">
+          {series.uptime === null ? 'No data' : `${series.uptime.toFixed(2)}% uptime`}
+        </span>
+      </div>
+      <div className="flex h-8 gap-px">
+        {series.days.map((day) => (
+          <div
+            key={day.day}
+            title={
+              day.uptime === null
+                ? `${day.day}: ${STATUS_LABELS[day.status]}`
+                : `${day.day}: ${STATUS_LABELS[day.status]}, ${day.uptime.toFixed(2)}% up over ${day.polls} polls`
+            }
+            className={cn('flex-1 rounded-sm', STATUS_COLORS[day.status])}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>{series.days[0]?.day}</span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Key to the bar colors
+ */
+export function AvailabilityLegend() {
+  return (
+    <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+      {(Object.keys(STATUS_LABELS) as AvailabilityStatus[]).map((status) => (
+        <span key={status} className="flex items-center gap-1">
+          <span className={cn('h-3 w-3 rounded-sm', STATUS_COLORS[status])} />
+          {STATUS_LABELS[status]}
+        </span>
+      ))}
+    </div>
+  );
+}
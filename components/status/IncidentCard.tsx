@@ -0,0 +1,178 @@
+import Link from 'next/link';
+import { AlertTriangle, CheckCircle, Clock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatUptime, truncateMiddle } from '@/lib/utils';
+import { Incident, IncidentGroup } from '@/types';
+
+// Nodes listed on an ongoing incident before the rest are summarized
+const MAX_LISTED_NODES = 20;
+
+/**
+ * Server-rendered times are shown in UTC, so every visitor reads the same
+ */
+export function formatUtc(timestamp: number): string {
+  return `${new Date(timestamp).toLocaleString('en-US', {
+    timeZone: 'UTC',
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  })} UTC`;
+}
+
+function Groups({ label, groups }: { label: string; groups: IncidentGroup[] }) {
+  if (groups.length === 0) return null;
+  return (
+    <div>
+      <p className="text-xs text-muted-foreground mb-1">{label}</p>
+      <div className="flex flex-wrap gap-1">
+        {groups.map((group) => (
+          <Badge key={group.name} variant="outline" className="text-xs font-normal">
+            {group.name} · {group.count}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function duration(incident: Incident, now: number): string {
+  return formatUptime(Math.floor(((incident.endedAt ?? now) - incident.startedAt) / 1000));
+}
+
+function SeverityBadge({ incident }: { incident: Incident }) {
+  return (
+    <Badge variant={incident.severity === 'critical' ? 'offline' : 'degraded'} className="capitalize">
+      {incident.severity}
+    </Badge>
+  );
+}
+
+/**
+ * Peak impact, where the affected nodes are, and the timeline
+ */
+function IncidentDetails({ incident }: { incident: Incident }) {
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-3 text-sm">
+        <div>
+          <p className="text-xs text-muted-foreground">Nodes affected</p>
+          <p className="font-semibold">{incident.affected.length}</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Peak impact</p>
+          <p className="font-semibold">
+            {incident.peak.affected} of {incident.peak.total} nodes down
+          </p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Online at peak</p>
+          <p className="font-semibold">{incident.peak.onlinePercent.toFixed(1)}%</p>
+        </div>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3">
+        <Groups label="Regions" groups={incident.groups.region} />
+        <Groups label="ISPs" groups={incident.groups.isp} />
+        <Groups label="Versions" groups={incident.groups.version} />
+      </div>
+
+      <ol className="space-y-1 border-l border-border pl-4 text-sm">
+        {[...incident.updates].reverse().map((update) => (
+          <li key={`${update.at}-${update.message}`}>
+            <span className="text-xs text-muted-foreground">{formatUtc(update.at)}</span>
+            <span className="ml-2">{update.message}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
+
+/**
+ * An incident in full, listing the affected nodes while it is ongoing
+ */
+export function IncidentCard({ incident, now }: { incident: Incident; now: number }) {
+  const ongoing = incident.endedAt === null;
+  const listed = incident.affected.slice(0, MAX_LISTED_NODES);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <CardTitle className="text-lg flex items-center gap-2">
+            {ongoing ? (
+              <AlertTriangle
+                className={incident.severity === 'critical' ? 'h-5 w-5 text-red-500' : 'h-5 w-5 text-yellow-500'}
+              />
+            ) : (
+              <CheckCircle className="h-5 w-5 text-green-500" />
+            )}
+            {incident.title}
+          </CardTitle>
+          <SeverityBadge incident={incident} />
+        </div>
+        <p className="text-sm text-muted-foreground flex flex-wrap items-center gap-x-2">
+          <span>{formatUtc(incident.startedAt)}</span>
+          <span>→ {ongoing ? 'ongoing' : formatUtc(incident.endedAt as number)}</span>
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3" />
+            {duration(incident, now)}
+          </span>
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <IncidentDetails incident={incident} />
+
+        {ongoing && listed.length > 0 && (
+          <details className="text-sm">
+            <summary className="cursor-pointer text-muted-foreground">Affected nodes</summary>
+            <ul className="mt-2 grid gap-1 sm:grid-cols-2">
+              {listed.map((node) => (
+                <li key={node.pubkey} className="flex items-center gap-2">
+                  <Link href={`/nodes/${node.pubkey}`} className="font-mono text-xs hover:text-xandeum-orange">
+                    {truncateMiddle(node.pubkey, 8, 6)}
+                  </Link>
+                  <span className="text-xs text-muted-foreground capitalize">{node.status}</span>
+                </li>
+              ))}
+            </ul>
+            {incident.affected.length > listed.length && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                and {incident.affected.length - listed.length} more
+              </p>
+            )}
+          </details>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * A past incident on one line, opening to its details. Uses a native
+ * disclosure, so it works without JavaScript.
+ */
+export function IncidentSummary({ incident, now }: { incident: Incident; now: number }) {
+  const topRegion = incident.groups.region[0];
+
+  return (
+    <details className="rounded-lg border border-border">
+      <summary className="flex cursor-pointer flex-wrap items-center gap-x-3 gap-y-1 p-3 text-sm">
+        <SeverityBadge incident={incident} />
+        <span className="font-medium">{incident.title}</span>
+        <span className="text-muted-foreground">{formatUtc(incident.startedAt)}</span>
+        <span className="flex items-center gap-1 text-muted-foreground">
+          <Clock className="h-3 w-3" />
+          {duration(incident, now)}
+        </span>
+        <span className="text-muted-foreground">
+          {incident.affected.length} nodes
+          {topRegion && topRegion.name !== 'Unknown' && `, mostly ${topRegion.name}`}
+        </span>
+      </summary>
+      <div className="border-t border-border p-3">
+        <IncidentDetails incident={incident} />
+      </div>
+    </details>
+  );
+}
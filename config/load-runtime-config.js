@@ -0,0 +1,43 @@
+// =============================================================================
+// Runtime Configuration Loader
+// Reads the optional JSON config file and resolves it against the environment
+// (Node only: next.config.js and the collector)
+// =============================================================================
+
+const fs = require('fs');
+const path = require('path');
+const { resolveRuntimeConfig } = require('./runtime-config');
+
+const DEFAULT_CONFIG_FILE = 'xandeum.config.json';
+
+/**
+ * Read the file named by XANDEUM_CONFIG_FILE, or xandeum.config.json in the
+ * working directory if present. Returns {} when there is none.
+ */
+function readConfigFile(env = process.env) {
+  const file = env.XANDEUM_CONFIG_FILE || DEFAULT_CONFIG_FILE;
+  const resolved = path.resolve(process.cwd(), file);
+
+  if (!fs.existsSync(resolved)) {
+    if (env.XANDEUM_CONFIG_FILE) {
+      throw new Error(`Invalid Xandeum configuration: XANDEUM_CONFIG_FILE ${file} does not exist`);
+    }
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(resolved, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid Xandeum configuration: ${file} is not valid JSON (${error.message})`);
+  }
+}
+
+/**
+ * Load and validate the runtime configuration. Throws with every problem
+ * listed so startup fails before any request is made.
+ */
+function loadRuntimeConfig(env = process.env) {
+  return resolveRuntimeConfig(env, readConfigFile(env));
+}
+
+module.exports = { readConfigFile, loadRuntimeConfig };
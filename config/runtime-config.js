@@ -0,0 +1,265 @@
+// =============================================================================
+// Runtime Configuration
+// Defaults, an optional JSON config file and environment variables, merged in
+// that order and validated. Plain CommonJS so next.config.js, the server and
+// the collector can share it; it is only ever loaded through
+// load-runtime-config.js, which reads the file with Node's fs. Browsers get
+// the resolved values from /api/runtime-config instead.
+// =============================================================================
+
+const DEFAULTS = {
+  network: {
+    name: 'mainnet',
+  },
+  prpc: {
+    // Tried in order until observed health says otherwise; the first is primary
+    endpoints: [
+      'http://45.151.122.71:6000/rpc',
+      'http://192.190.136.36:6000/rpc',
+      'http://62.171.135.107:6000/rpc',
+      'http://173.212.207.32:6000/rpc',
+      'http://154.38.175.38:6000/rpc',
+      'http://152.53.236.91:6000/rpc',
+    ],
+    timeout: 10000,
+    // Passes over the endpoints after the first fails; 0 tries each once
+    retries: 2,
+    retryDelay: 1000,
+    mode: 'first',
+  },
+  // Proxy the browser posts pRPC requests to
+  proxyUrl: 'https://proxy-server-tan.vercel.app',
+  // Local mock pRPC server; replaces every endpoint and the proxy when set
+  mockUrl: '',
+  // How the current pNode release is determined: 'observed' (highest stable
+  // version in gossip) or 'manifest' (config/release-manifest.json)
+  versionPolicy: 'observed',
+  // Cache TTLs in seconds
+  cache: {
+    pods: 60,
+    stats: 30,
+    version: 300,
+    swr: 300,
+  },
+  // Further networks selectable in the UI: { name, endpoints, proxyUrl? }.
+  // The network above (network.name with prpc.endpoints) is the default.
+  networks: [],
+};
+
+// Network names appear in URLs and data directory names
+const NETWORK_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+// Environment variable for each setting, so errors can name what to fix
+const ENV_KEYS = {
+  'network.name': 'XANDEUM_NETWORK_NAME',
+  'prpc.endpoint': 'XANDEUM_PRPC_ENDPOINT',
+  'prpc.endpoints': 'XANDEUM_PRPC_ENDPOINTS',
+  'prpc.timeout': 'PRPC_TIMEOUT_MS',
+  'prpc.retries': 'PRPC_RETRIES',
+  'prpc.retryDelay': 'PRPC_RETRY_DELAY_MS',
+  'prpc.mode': 'PRPC_MODE',
+  proxyUrl: 'XANDEUM_PROXY_URL',
+  mockUrl: 'PRPC_MOCK_URL',
+  versionPolicy: 'VERSION_POLICY',
+  'cache.pods': 'CACHE_TTL',
+  'cache.stats': 'CACHE_STATS_TTL',
+  'cache.version': 'CACHE_VERSION_TTL',
+  'cache.swr': 'CACHE_SWR',
+  networks: 'XANDEUM_NETWORKS',
+};
+
+function isUrl(value) {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse XANDEUM_NETWORKS: networks separated by ";", each "name=url,url"
+ */
+function parseNetworksEnv(value) {
+  return value
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, urls = ''] = entry.split('=');
+      return {
+        name: name.trim(),
+        endpoints: urls.split(',').map((e) => e.trim()).filter(Boolean),
+      };
+    });
+}
+
+/**
+ * Merge defaults, file values and environment variables, then validate.
+ * Throws one error listing every problem found.
+ * @param {Record<string, string | undefined>} env
+ * @param {object} file - Parsed config file contents
+ */
+function resolveRuntimeConfig(env = process.env, file = {}) {
+  const errors = [];
+  const fileConfig = file && typeof file === 'object' ? file : {};
+
+  // Typos in the file would otherwise be silently ignored
+  const known = { network: ['name'], prpc: Object.keys(DEFAULTS.prpc), cache: Object.keys(DEFAULTS.cache) };
+  for (const [key, value] of Object.entries(fileConfig)) {
+    if (!(key in DEFAULTS)) {
+      errors.push(`unknown setting "${key}" in config file`);
+    } else if (known[key] && value && typeof value === 'object') {
+      for (const sub of Object.keys(value)) {
+        if (!known[key].includes(sub)) errors.push(`unknown setting "${key}.${sub}" in config file`);
+      }
+    }
+  }
+
+  const source = (setting) => (env[ENV_KEYS[setting]] !== undefined ? ENV_KEYS[setting] : 'config file');
+  const pick = (setting, fileValue, fallback) => {
+    const envValue = env[ENV_KEYS[setting]];
+    if (envValue !== undefined && envValue !== '') return envValue;
+    return fileValue !== undefined ? fileValue : fallback;
+  };
+
+  const integer = (setting, fileValue, fallback, min) => {
+    const raw = pick(setting, fileValue, fallback);
+    const value = typeof raw === 'number' ? raw : /^\d+$/.test(String(raw).trim()) ? Number(raw) : NaN;
+    if (!Number.isInteger(value) || value < min) {
+      errors.push(`${setting} (${source(setting)}): must be an integer of at least ${min}, got "${raw}"`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const url = (setting, fileValue, fallback, optional) => {
+    const value = String(pick(setting, fileValue, fallback)).trim();
+    if (optional && value === '') return '';
+    if (!isUrl(value)) {
+      errors.push(`${setting} (${source(setting)}): must be an http(s) URL, got "${value}"`);
+      return fallback;
+    }
+    return value;
+  };
+
+  const prpcFile = fileConfig.prpc || {};
+  const cacheFile = fileConfig.cache || {};
+
+  // XANDEUM_PRPC_ENDPOINT names the primary endpoint; XANDEUM_PRPC_ENDPOINTS
+  // (comma-separated) replaces the rest of the list
+  const listed = env.XANDEUM_PRPC_ENDPOINTS
+    ? env.XANDEUM_PRPC_ENDPOINTS.split(',').map((e) => e.trim()).filter(Boolean)
+    : prpcFile.endpoints !== undefined
+      ? prpcFile.endpoints
+      : DEFAULTS.prpc.endpoints;
+  let endpoints = [];
+  if (!Array.isArray(listed) || listed.some((e) => typeof e !== 'string')) {
+    errors.push(`prpc.endpoints (${source('prpc.endpoints')}): must be a list of URLs`);
+  } else {
+    endpoints = Array.from(new Set([env.XANDEUM_PRPC_ENDPOINT, ...listed].filter(Boolean)));
+    for (const endpoint of endpoints) {
+      if (!isUrl(endpoint)) errors.push(`prpc.endpoints: "${endpoint}" is not an http(s) URL`);
+    }
+    if (endpoints.length === 0) errors.push('prpc.endpoints: at least one endpoint is required');
+  }
+
+  const mode = pick('prpc.mode', prpcFile.mode, DEFAULTS.prpc.mode);
+  if (!['first', 'consensus'].includes(mode)) {
+    errors.push(`prpc.mode (${source('prpc.mode')}): must be "first" or "consensus", got "${mode}"`);
+  }
+
+  const versionPolicy = pick('versionPolicy', fileConfig.versionPolicy, DEFAULTS.versionPolicy);
+  if (!['observed', 'manifest'].includes(versionPolicy)) {
+    errors.push(
+      `versionPolicy (${source('versionPolicy')}): must be "observed" or "manifest", got "${versionPolicy}"`
+    );
+  }
+
+  const name = String(pick('network.name', (fileConfig.network || {}).name, DEFAULTS.network.name)).trim();
+  if (!NETWORK_NAME_PATTERN.test(name)) {
+    errors.push(`network.name (${source('network.name')}): must be lowercase letters, digits and dashes, got "${name}"`);
+  }
+
+  const networkList = env.XANDEUM_NETWORKS
+    ? parseNetworksEnv(env.XANDEUM_NETWORKS)
+    : fileConfig.networks !== undefined
+      ? fileConfig.networks
+      : DEFAULTS.networks;
+  const networks = [];
+  if (!Array.isArray(networkList)) {
+    errors.push(`networks (${source('networks')}): must be a list of networks`);
+  } else {
+    networkList.forEach((network, index) => {
+      const label = `networks[${index}]`;
+      if (!network || typeof network !== 'object') {
+        errors.push(`${label}: must be an object with a name and endpoints`);
+        return;
+      }
+      for (const key of Object.keys(network)) {
+        if (!['name', 'endpoints', 'proxyUrl'].includes(key)) {
+          errors.push(`unknown setting "${label}.${key}" in config file`);
+        }
+      }
+      if (typeof network.name !== 'string' || !NETWORK_NAME_PATTERN.test(network.name)) {
+        errors.push(`${label}.name: must be lowercase letters, digits and dashes, got "${network.name}"`);
+      } else if (network.name === name || networks.some((n) => n.name === network.name)) {
+        errors.push(`${label}.name: network "${network.name}" is defined more than once`);
+      }
+      if (!Array.isArray(network.endpoints) || network.endpoints.length === 0) {
+        errors.push(`${label}.endpoints: at least one endpoint is required`);
+      } else {
+        for (const endpoint of network.endpoints) {
+          if (!isUrl(endpoint)) errors.push(`${label}.endpoints: "${endpoint}" is not an http(s) URL`);
+        }
+      }
+      if (network.proxyUrl !== undefined && !isUrl(network.proxyUrl)) {
+        errors.push(`${label}.proxyUrl: must be an http(s) URL, got "${network.proxyUrl}"`);
+      }
+      networks.push({
+        name: network.name,
+        endpoints: Array.isArray(network.endpoints) ? Array.from(new Set(network.endpoints)) : [],
+        // Empty: the browser goes through this app's own /api/proxy
+        proxyUrl: network.proxyUrl || '',
+      });
+    });
+  }
+
+  const proxyUrl = url('proxyUrl', fileConfig.proxyUrl, DEFAULTS.proxyUrl, false);
+
+  const config = {
+    network: { name },
+    prpc: {
+      endpoints,
+      timeout: integer('prpc.timeout', prpcFile.timeout, DEFAULTS.prpc.timeout, 1),
+      retries: integer('prpc.retries', prpcFile.retries, DEFAULTS.prpc.retries, 0),
+      retryDelay: integer('prpc.retryDelay', prpcFile.retryDelay, DEFAULTS.prpc.retryDelay, 0),
+      mode,
+    },
+    proxyUrl,
+    mockUrl: url('mockUrl', fileConfig.mockUrl, DEFAULTS.mockUrl, true),
+    versionPolicy,
+    cache: {
+      pods: integer('cache.pods', cacheFile.pods, DEFAULTS.cache.pods, 0),
+      stats: integer('cache.stats', cacheFile.stats, DEFAULTS.cache.stats, 0),
+      version: integer('cache.version', cacheFile.version, DEFAULTS.cache.version, 0),
+      swr: integer('cache.swr', cacheFile.swr, DEFAULTS.cache.swr, 0),
+    },
+    // The default network always comes first
+    networks: [{ name, endpoints, proxyUrl }, ...networks],
+  };
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid Xandeum configuration:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  // The mock answers every request, so nothing may reach the live network
+  if (config.mockUrl) {
+    config.prpc.endpoints = [config.mockUrl];
+    config.proxyUrl = config.mockUrl;
+    config.networks = config.networks.map((n) => ({ ...n, endpoints: [config.mockUrl], proxyUrl: config.mockUrl }));
+  }
+
+  return config;
+}
+
+module.exports = { DEFAULTS, ENV_KEYS, resolveRuntimeConfig };
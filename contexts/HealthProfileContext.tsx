@@ -0,0 +1,48 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { HealthProfile } from '@/types';
+import { DEFAULT_HEALTH_PROFILE, getHealthProfile } from '@/lib/healthScore';
+
+const HEALTH_PROFILE_KEY = 'xandeum_health_profile';
+
+interface HealthProfileContextType {
+  profile: HealthProfile;
+  setProfile: (name: string) => void;
+}
+
+const HealthProfileContext = createContext<HealthProfileContextType | undefined>(undefined);
+
+export function HealthProfileProvider({ children }: { children: ReactNode }) {
+  const [profile, setProfileState] = useState<HealthProfile>(DEFAULT_HEALTH_PROFILE);
+
+  // Load from localStorage on mount, ignoring profiles that no longer exist
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      const saved = getHealthProfile(localStorage.getItem(HEALTH_PROFILE_KEY));
+      if (saved) setProfileState(saved);
+    }
+  }, []);
+
+  // Select a profile by name and remember it
+  const setProfile = useCallback((name: string) => {
+    const next = getHealthProfile(name);
+    if (!next) return;
+    setProfileState(next);
+    localStorage.setItem(HEALTH_PROFILE_KEY, next.name);
+  }, []);
+
+  return (
+    <HealthProfileContext.Provider value={{ profile, setProfile }}>
+      {children}
+    </HealthProfileContext.Provider>
+  );
+}
+
+export function useHealthProfile() {
+  const context = useContext(HealthProfileContext);
+  if (context === undefined) {
+    throw new Error('useHealthProfile must be used within a HealthProfileProvider');
+  }
+  return context;
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { usePathname } from 'next/navigation';
+import { NetworkConfig } from '@/types';
+import { NETWORKS, DEFAULT_NETWORK, getNetwork } from '@/lib/networks';
+
+const NETWORK_PARAM = 'network';
+
+interface NetworkContextType {
+  network: string;
+  // False until the selection has been read from the URL
+  ready: boolean;
+  networks: NetworkConfig[];
+  setNetwork: (name: string) => void;
+}
+
+const NetworkContext = createContext<NetworkContextType | undefined>(undefined);
+
+export function NetworkProvider({ children }: { children: ReactNode }) {
+  const pathname = usePathname();
+  const [network, setNetworkState] = useState(DEFAULT_NETWORK);
+  const [isHydrated, setIsHydrated] = useState(false);
+
+  // Load from the URL on mount, ignoring networks that no longer exist
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      const selected = getNetwork(new URLSearchParams(window.location.search).get(NETWORK_PARAM));
+      if (selected) setNetworkState(selected.name);
+      setIsHydrated(true);
+    }
+  }, []);
+
+  // Keep the selection in the URL, including after navigating to another page
+  useEffect(() => {
+    if (!isHydrated) return;
+    const url = new URL(window.location.href);
+    if (network === DEFAULT_NETWORK) {
+      url.searchParams.delete(NETWORK_PARAM);
+    } else {
+      url.searchParams.set(NETWORK_PARAM, network);
+    }
+    if (url.href !== window.location.href) {
+      window.history.replaceState(null, '', url);
+    }
+  }, [network, pathname, isHydrated]);
+
+  // Select a network by name
+  const setNetwork = useCallback((name: string) => {
+    const next = getNetwork(name);
+    if (next) setNetworkState(next.name);
+  }, []);
+
+  return (
+    <NetworkContext.Provider value={{ network, ready: isHydrated, networks: NETWORKS, setNetwork }}>
+      {children}
+    </NetworkContext.Provider>
+  );
+}
+
+export function useNetwork() {
+  const context = useContext(NetworkContext);
+  if (context === undefined) {
+    throw new Error('useNetwork must be used within a NetworkProvider');
+  }
+  return context;
+}
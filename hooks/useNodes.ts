@@ -1,31 +1,74 @@
 'use client';
 
-import useSWR from 'swr';
-import { PNode, NodeFilters, NetworkStats, HealthFactors, NodeStatus } from '@/types';
-import { UI_CONFIG, HEALTH_WEIGHTS, LATEST_VERSION } from '@/lib/constants';
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import useSWR, { mutate as mutateSWR } from 'swr';
+import {
+  PNode,
+  NodeFilters,
+  NetworkStats,
+  NodeStatus,
+  ApiResponse,
+  NetworkHistoryPoint,
+  NodeHistoryEntry,
+  RestartEvent,
+  NodeEvent,
+  NodeEventType,
+  VersionStatus,
+  VersionRollout,
+  ConsensusReport,
+  PrpcMode,
+  EndpointHealth,
+  NodeDeepStats,
+  NetworkSummary,
+  DataQualityReport,
+  StreamMessage,
+  AlertChannelSummary,
+  AlertDelivery,
+  AlertsOverview,
+  AlertInstance,
+  AlertSilence,
+} from '@/types';
+import { UI_CONFIG } from '@/lib/constants';
 import { fetchPodsClient } from '@/lib/clientPrpc';
-
-// Cache for nodes data
-let nodesCache: { data: PNode[]; timestamp: number } | null = null;
+import {
+  calculateHealthFactors,
+  explainHealthScore,
+  applyHealthProfile,
+  HEALTH_SCORE_VERSION,
+} from '@/lib/healthScore';
+import { compareVersions, getReleaseInfo } from '@/lib/versions';
+import { useHealthProfile } from '@/contexts/HealthProfileContext';
+import { useNetwork } from '@/contexts/NetworkContext';
+import { withNetwork } from '@/lib/networks';
+import { applyNodesDiff, reviveNode } from '@/lib/nodeDiff';
+import { openStream, getStreamState, subscribeToStreamState, StreamState } from '@/lib/clientStream';
+
+// Cache for nodes data, per network
+const nodesCache = new Map<string, { data: PNode[]; timestamp: number }>();
 const CACHE_TTL = 30000; // 30 seconds
 
 /**
- * Fetcher that uses direct pRPC from client
+ * Fetcher that uses direct pRPC from client, keyed by ['pnodes', network]
  */
-const fetchNodes = async (): Promise<{ nodes: PNode[]; total: number; filtered: number }> => {
+const fetchNodes = async ([, network]: [string, string]): Promise<{
+  nodes: PNode[];
+  total: number;
+  filtered: number;
+}> => {
   // Check cache
-  if (nodesCache && Date.now() - nodesCache.timestamp < CACHE_TTL) {
+  const cached = nodesCache.get(network);
+  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
     return {
-      nodes: nodesCache.data,
-      total: nodesCache.data.length,
-      filtered: nodesCache.data.length,
+      nodes: cached.data,
+      total: cached.data.length,
+      filtered: cached.data.length,
     };
   }
 
-  const nodes = await fetchPodsClient();
+  const nodes = await fetchPodsClient(network);
 
   // Update cache
-  nodesCache = { data: nodes, timestamp: Date.now() };
+  nodesCache.set(network, { data: nodes, timestamp: Date.now() });
 
   return {
     nodes,
@@ -35,28 +78,122 @@ const fetchNodes = async (): Promise<{ nodes: PNode[]; total: number; filtered:
 };
 
 /**
- * Calculate health factors for a node
+ * Apply a /api/stream message to the cached pod list of its network,
+ * without refetching
+ */
+function handleStreamMessage(message: StreamMessage): void {
+  let nodes: PNode[];
+  if (message.type === 'snapshot') {
+    nodes = message.nodes.map(reviveNode);
+  } else if (message.type === 'diff') {
+    const cached = nodesCache.get(message.network);
+    if (!cached) return;
+    nodes = applyNodesDiff(cached.data, message);
+  } else {
+    return;
+  }
+
+  nodesCache.set(message.network, { data: nodes, timestamp: Date.now() });
+  mutateSWR(['pnodes', message.network], { nodes, total: nodes.length, filtered: nodes.length }, { revalidate: false });
+}
+
+/**
+ * Fetcher for the app's own API routes, unwrapping the ApiResponse envelope
  */
-function calculateHealthFactors(node: PNode): HealthFactors {
-  const now = Math.floor(Date.now() / 1000);
-  const lastSeenTs = node.last_seen_timestamp;
-  const secondsSinceLastSeen = now - lastSeenTs;
+const fetchApi = async <T>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  const body: ApiResponse<T> = await response.json();
 
-  // Uptime score (0-100)
-  const uptimeHours = node.uptime / 3600;
-  const uptime = Math.min(100, (uptimeHours / 168) * 100);
+  if (!response.ok || !body.success || body.data === undefined) {
+    throw new Error(body.error || `Request failed: ${response.status}`);
+  }
 
-  // Recency score (0-100)
-  const recency = Math.max(0, 100 - (secondsSinceLastSeen / 300) * 100);
+  return body.data;
+};
 
-  // Storage score (0-100)
-  const storagePercent = node.storage_usage_percent;
-  const storage = storagePercent < 80 ? 100 : storagePercent < 95 ? 70 : 30;
+// Admin token for the alert actions, kept for the browser tab only
+const ADMIN_TOKEN_KEY = 'xandeum_admin_token';
 
-  // Version score (0-100)
-  const version = node.version === LATEST_VERSION ? 100 : node.version?.startsWith('0.7') ? 80 : 50;
+/**
+ * Send a request with a JSON body to an API route and unwrap the response.
+ * These routes are admin actions: the saved token goes along, and when the
+ * server refuses it the user is asked for the token and the request retried
+ * once.
+ */
+const sendApi = async <T>(
+  url: string,
+  method: 'POST' | 'DELETE',
+  body?: unknown,
+  askForToken = true
+): Promise<T> => {
+  const headers: Record<string, string> = {};
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  const token = sessionStorage.getItem(ADMIN_TOKEN_KEY);
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const response = await fetch(url, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
 
-  return { uptime, recency, storage, version };
+  if (response.status === 401 && askForToken) {
+    const entered = window.prompt('Admin token (ADMIN_TOKEN on the server)');
+    if (entered) {
+      sessionStorage.setItem(ADMIN_TOKEN_KEY, entered);
+      return sendApi<T>(url, method, body, false);
+    }
+  }
+
+  const result: ApiResponse<T> = await response.json();
+
+  if (!response.ok || !result.success || result.data === undefined) {
+    throw new Error(result.error || `Request failed: ${response.status}`);
+  }
+
+  return result.data;
+};
+
+/**
+ * The selected network, or null until it has been read from the URL so
+ * nothing is fetched for the wrong network first
+ */
+function useSelectedNetwork(): string | null {
+  const { network, ready } = useNetwork();
+  return ready ? network : null;
+}
+
+/**
+ * Follow the selected network's change stream while mounted. While it is
+ * live the pod list is kept current by diffs and polling can pause.
+ */
+function useNodeStream(network: string | null): StreamState {
+  useEffect(() => {
+    if (!network) return;
+    return openStream(network, handleStreamMessage);
+  }, [network]);
+
+  return useSyncExternalStore(
+    subscribeToStreamState,
+    () => getStreamState(network),
+    () => getStreamState(null)
+  );
+}
+
+/**
+ * SWR nodes data re-scored under the selected health profile, with the
+ * release the nodes' versions are measured against
+ */
+function useScoredNodes(data: { nodes: PNode[]; total: number; filtered: number } | undefined) {
+  const { profile } = useHealthProfile();
+
+  const scored = useMemo(
+    () => (data ? { ...data, nodes: applyHealthProfile(data.nodes, profile) } : undefined),
+    [data, profile]
+  );
+  const release = useMemo(() => getReleaseInfo(data?.nodes ?? []), [data]);
+
+  return { data: scored, profile, release };
 }
 
 /**
@@ -102,17 +239,18 @@ function calculateNetworkStats(nodes: PNode[]): NetworkStats {
  * Get version distribution
  */
 function getVersionDistribution(nodes: PNode[]) {
-  const versionCounts = new Map<string, number>();
+  const versionCounts = new Map<string, { count: number; status: VersionStatus }>();
   nodes.forEach((node) => {
-    const count = versionCounts.get(node.version) || 0;
-    versionCounts.set(node.version, count + 1);
+    const count = versionCounts.get(node.version)?.count || 0;
+    versionCounts.set(node.version, { count: count + 1, status: node.versionStatus });
   });
 
   return Array.from(versionCounts.entries())
-    .map(([version, count]) => ({
+    .map(([version, { count, status }]) => ({
       version,
       count,
       percentage: (count / nodes.length) * 100,
+      status,
     }))
     .sort((a, b) => b.count - a.count);
 }
@@ -161,15 +299,19 @@ function getNetworkHealthSummary(stats: NetworkStats): { status: string; message
  * Hook to fetch all nodes with filters
  */
 export function useNodes(filters?: NodeFilters) {
-  const { data, error, isLoading, mutate } = useSWR<{ nodes: PNode[]; total: number; filtered: number }>(
-    'pnodes',
+  const network = useSelectedNetwork();
+  const { live } = useNodeStream(network);
+  const { data: raw, error, isLoading, mutate } = useSWR<{ nodes: PNode[]; total: number; filtered: number }>(
+    network ? ['pnodes', network] : null,
     fetchNodes,
     {
-      refreshInterval: UI_CONFIG.refreshInterval,
+      refreshInterval: live ? 0 : UI_CONFIG.refreshInterval,
       revalidateOnFocus: false,
     }
   );
 
+  const { data } = useScoredNodes(raw);
+
   // Apply client-side filtering
   let filteredData = data;
   if (data && filters) {
@@ -229,20 +371,60 @@ export function useNodes(filters?: NodeFilters) {
  * Hook to fetch a single node
  */
 export function useNode(pubkey: string | null) {
-  const { data, error, isLoading, mutate } = useSWR<{ nodes: PNode[]; total: number; filtered: number }>(
-    pubkey ? 'pnodes' : null,
+  const network = useSelectedNetwork();
+  const { live } = useNodeStream(pubkey ? network : null);
+  const { data: raw, error, isLoading, mutate } = useSWR<{ nodes: PNode[]; total: number; filtered: number }>(
+    pubkey && network ? ['pnodes', network] : null,
     fetchNodes,
     {
-      refreshInterval: UI_CONFIG.refreshInterval,
+      refreshInterval: live ? 0 : UI_CONFIG.refreshInterval,
       revalidateOnFocus: false,
     }
   );
+  const { data, profile, release } = useScoredNodes(raw);
 
   const node = data?.nodes.find((n) => n.pubkey === pubkey) || null;
-  const healthFactors = node ? calculateHealthFactors(node) : null;
+  const healthFactors = node
+    ? calculateHealthFactors(node, node.status, release.current, profile)
+    : null;
+  const explanation = node
+    ? explainHealthScore(node, node.status, release.current, profile)
+    : null;
+
+  return {
+    data:
+      node && healthFactors && explanation
+        ? {
+            node,
+            healthFactors,
+            explanation,
+            release,
+            scoreVersion: HEALTH_SCORE_VERSION,
+            profile: profile.name,
+          }
+        : undefined,
+    error,
+    isLoading,
+    mutate,
+  };
+}
+
+/**
+ * Hook to fetch the system stats last collected from a node's own RPC port
+ */
+export function useNodeDeepStats(pubkey: string | null) {
+  const network = useSelectedNetwork();
+  const { data, error, isLoading, mutate } = useSWR<{ deepStats: NodeDeepStats | null }>(
+    pubkey && network ? withNetwork(`/api/nodes/${pubkey}/deep-stats`, network) : null,
+    fetchApi,
+    {
+      refreshInterval: UI_CONFIG.refreshInterval * 2,
+      revalidateOnFocus: false,
+    }
+  );
 
   return {
-    data: node && healthFactors ? { node, healthFactors } : undefined,
+    data: data?.deepStats ?? null,
     error,
     isLoading,
     mutate,
@@ -253,14 +435,17 @@ export function useNode(pubkey: string | null) {
  * Hook to fetch network statistics
  */
 export function useStats() {
-  const { data, error, isLoading, mutate } = useSWR<{ nodes: PNode[]; total: number; filtered: number }>(
-    'pnodes',
+  const selectedNetwork = useSelectedNetwork();
+  const { live } = useNodeStream(selectedNetwork);
+  const { data: raw, error, isLoading, mutate } = useSWR<{ nodes: PNode[]; total: number; filtered: number }>(
+    selectedNetwork ? ['pnodes', selectedNetwork] : null,
     fetchNodes,
     {
-      refreshInterval: UI_CONFIG.refreshInterval,
+      refreshInterval: live ? 0 : UI_CONFIG.refreshInterval,
       revalidateOnFocus: false,
     }
   );
+  const { data, profile, release } = useScoredNodes(raw);
 
   if (!data) {
     return { data: undefined, error, isLoading, mutate };
@@ -273,7 +458,7 @@ export function useStats() {
   const topNodes = getTopNodes(nodes, 5);
   const healthSummary = getNetworkHealthSummary(network);
 
-  const outdatedCount = nodes.filter((n) => n.version !== LATEST_VERSION).length;
+  const outdatedCount = nodes.filter((n) => n.versionStatus !== 'current').length;
   const lowHealthCount = nodes.filter((n) => n.healthScore < 50).length;
   const highStorageCount = nodes.filter((n) => n.storage_usage_percent > 80).length;
 
@@ -289,6 +474,9 @@ export function useStats() {
         highStorageCount,
       },
       healthSummary,
+      release,
+      scoreVersion: HEALTH_SCORE_VERSION,
+      profile: profile.name,
     },
     error,
     isLoading,
@@ -305,5 +493,300 @@ export function useVersions() {
   if (!data?.nodes) return [];
 
   const versions = new Set(data.nodes.map((n) => n.version));
-  return Array.from(versions).sort((a, b) => b.localeCompare(a));
+  return Array.from(versions).sort((a, b) => compareVersions(b, a));
+}
+
+/**
+ * Hook to fetch stored network history
+ * @param range - How far back to look, as a duration (e.g. "24h", "7d")
+ */
+export function useNetworkHistory(range = '24h') {
+  const network = useSelectedNetwork();
+  const { data, error, isLoading, mutate } = useSWR<{ points: NetworkHistoryPoint[] }>(
+    network ? withNetwork(`/api/history?from=${range}`, network) : null,
+    fetchApi,
+    {
+      refreshInterval: UI_CONFIG.refreshInterval * 10,
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    data: data?.points ?? [],
+    error,
+    isLoading,
+    mutate,
+  };
+}
+
+/**
+ * Hook to fetch stored history for a single node
+ * @param range - How far back to look, as a duration (e.g. "1h", "30d")
+ */
+export function useNodeHistory(pubkey: string | null, range = '24h') {
+  const network = useSelectedNetwork();
+  const { data, error, isLoading, mutate } = useSWR<{
+    entries: NodeHistoryEntry[];
+    restarts: RestartEvent[];
+    resolution: number;
+  }>(
+    pubkey && network ? withNetwork(`/api/nodes/${pubkey}/history?from=${range}`, network) : null,
+    fetchApi,
+    {
+      refreshInterval: UI_CONFIG.refreshInterval * 2,
+      revalidateOnFocus: false,
+      keepPreviousData: true,
+    }
+  );
+
+  return {
+    data: data?.entries ?? [],
+    restarts: data?.restarts ?? [],
+    resolution: data?.resolution ?? 0,
+    error,
+    isLoading,
+    mutate,
+  };
+}
+
+/**
+ * Hook to fetch detected restarts and per-node restart counts
+ * @param range - How far back to look, as a duration (defaults to 7 days)
+ */
+export function useRestarts(range = '7d') {
+  const network = useSelectedNetwork();
+  const { data, error, isLoading, mutate } = useSWR<{
+    events: RestartEvent[];
+    counts: Record<string, number>;
+  }>(network ? withNetwork(`/api/restarts?from=${range}`, network) : null, fetchApi, {
+    refreshInterval: UI_CONFIG.refreshInterval * 2,
+    revalidateOnFocus: false,
+  });
+
+  return {
+    events: data?.events ?? [],
+    counts: data?.counts,
+    error,
+    isLoading,
+    mutate,
+  };
+}
+
+/**
+ * Hook to fetch version rollout history and laggard nodes
+ * @param range - How far back to look, as a duration (e.g. "30d")
+ * @param graceDays - Days after a release before nodes behind it are laggards
+ */
+export function useVersionRollout(range = '30d', graceDays?: number) {
+  const network = useSelectedNetwork();
+  const grace = graceDays === undefined ? '' : `&graceDays=${graceDays}`;
+  const { data, error, isLoading, mutate } = useSWR<VersionRollout>(
+    network ? withNetwork(`/api/rollout?from=${range}${grace}`, network) : null,
+    fetchApi,
+    {
+      refreshInterval: UI_CONFIG.refreshInterval * 10,
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    data,
+    error,
+    isLoading,
+    mutate,
+  };
+}
+
+/**
+ * Hook to fetch gossip agreement across all configured pRPC endpoints
+ */
+export function useConsensus() {
+  const network = useSelectedNetwork();
+  const { data, error, isLoading, mutate } = useSWR<{ mode: PrpcMode } & ConsensusReport>(
+    network ? withNetwork('/api/consensus', network) : null,
+    fetchApi,
+    {
+      refreshInterval: UI_CONFIG.refreshInterval * 2,
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    data,
+    error,
+    isLoading,
+    mutate,
+  };
+}
+
+/**
+ * Hook to fetch the observed health of the configured pRPC endpoints
+ */
+export function useEndpoints() {
+  const network = useSelectedNetwork();
+  const { data, error, isLoading, mutate } = useSWR<{ endpoints: EndpointHealth[] }>(
+    network ? withNetwork('/api/endpoints', network) : null,
+    fetchApi,
+    {
+      refreshInterval: UI_CONFIG.refreshInterval,
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    data: data?.endpoints ?? [],
+    error,
+    isLoading,
+    mutate,
+  };
+}
+
+/**
+ * Hook to follow node changes on the selected network as they are polled
+ * @returns Whether the stream is live, and recent changes, newest first
+ */
+export function useLiveChanges(): StreamState {
+  return useNodeStream(useSelectedNetwork());
+}
+
+/**
+ * Hook to fetch recorded node events on the selected network, newest first
+ * @param filter - Only events for this node and/or of these types
+ */
+export function useEvents(filter: { pubkey?: string; types?: NodeEventType[]; limit?: number } = {}) {
+  const network = useSelectedNetwork();
+  const params = new URLSearchParams();
+  if (filter.pubkey) params.set('pubkey', filter.pubkey);
+  if (filter.types?.length) params.set('type', filter.types.join(','));
+  if (filter.limit) params.set('limit', String(filter.limit));
+  const query = params.toString();
+
+  const { data, error, isLoading, mutate } = useSWR<{
+    events: NodeEvent[];
+    counts: Partial<Record<NodeEventType, number>>;
+  }>(network ? withNetwork(`/api/events${query ? `?${query}` : ''}`, network) : null, fetchApi, {
+    refreshInterval: UI_CONFIG.refreshInterval,
+    revalidateOnFocus: false,
+  });
+
+  return {
+    events: data?.events ?? [],
+    counts: data?.counts,
+    error,
+    isLoading,
+    mutate,
+  };
+}
+
+/**
+ * Hook to fetch anomalies in the selected network's gossip data
+ */
+export function useDataQuality() {
+  const network = useSelectedNetwork();
+  const { data, error, isLoading, mutate } = useSWR<DataQualityReport>(
+    network ? withNetwork('/api/data-quality', network) : null,
+    fetchApi,
+    {
+      refreshInterval: UI_CONFIG.refreshInterval * 2,
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    data,
+    error,
+    isLoading,
+    mutate,
+  };
+}
+
+/**
+ * Hook to fetch the current state of every configured network
+ */
+export function useNetworkSummaries() {
+  const { data, error, isLoading, mutate } = useSWR<{ networks: NetworkSummary[] }>(
+    '/api/networks',
+    fetchApi,
+    {
+      refreshInterval: UI_CONFIG.refreshInterval * 2,
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    data: data?.networks ?? [],
+    error,
+    isLoading,
+    mutate,
+  };
+}
+
+/**
+ * Hook to fetch notification channels and recent deliveries, with a way to
+ * send a channel a test alert
+ */
+export function useAlertChannels() {
+  const { data, error, isLoading, mutate } = useSWR<{
+    channels: AlertChannelSummary[];
+    deliveries: AlertDelivery[];
+  }>('/api/alerts/channels', fetchApi, {
+    refreshInterval: UI_CONFIG.refreshInterval,
+    revalidateOnFocus: false,
+  });
+
+  const sendTest = async (channelId: string): Promise<AlertDelivery> => {
+    try {
+      return await sendApi<AlertDelivery>(`/api/alerts/channels/${encodeURIComponent(channelId)}/test`, 'POST');
+    } finally {
+      mutate();
+    }
+  };
+
+  return {
+    channels: data?.channels ?? [],
+    deliveries: data?.deliveries ?? [],
+    error,
+    isLoading,
+    mutate,
+    sendTest,
+  };
+}
+
+/**
+ * Hook to fetch alerts on the selected network, with actions to acknowledge
+ * them and to create and end silences
+ * @param range - How far back to list resolved alerts, as a duration
+ */
+export function useAlerts(range = '7d') {
+  const network = useSelectedNetwork();
+  const { data, error, isLoading, mutate } = useSWR<AlertsOverview>(
+    network ? withNetwork(`/api/alerts?from=${range}`, network) : null,
+    fetchApi,
+    {
+      refreshInterval: UI_CONFIG.refreshInterval,
+      revalidateOnFocus: false,
+    }
+  );
+
+  const run = async <T>(url: string, method: 'POST' | 'DELETE', body?: unknown): Promise<T> => {
+    if (!network) throw new Error('No network selected');
+    try {
+      return await sendApi<T>(withNetwork(url, network), method, body);
+    } finally {
+      mutate();
+    }
+  };
+
+  return {
+    data,
+    error,
+    isLoading,
+    mutate,
+    acknowledge: (id: string, note?: string) =>
+      run<AlertInstance>('/api/alerts/acknowledge', 'POST', { id, note }),
+    silence: (silence: { ruleId?: string; pubkey?: string; duration: string; reason?: string }) =>
+      run<AlertSilence>('/api/alerts/silences', 'POST', silence),
+    endSilence: (id: string) =>
+      run<{ id: string }>(`/api/alerts/silences/${encodeURIComponent(id)}`, 'DELETE'),
+  };
 }
@@ -0,0 +1,40 @@
+// =============================================================================
+// Admin Authentication
+// API routes that change alert state or send messages require the admin
+// token as a bearer token, checked on the server (server-side only)
+// =============================================================================
+
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiResponse } from '@/types';
+import { ADMIN_CONFIG } from './constants';
+
+const BEARER_PREFIX = 'Bearer ';
+
+function tokenMatches(given: string, expected: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Check a request's `Authorization: Bearer <token>` header against
+ * ADMIN_TOKEN. With no token configured every request is refused.
+ * @returns A 401 response to send back, or null if the request may proceed
+ */
+export function requireAdmin(request: NextRequest): NextResponse | null {
+  const header = request.headers.get('authorization') ?? '';
+  const token = header.startsWith(BEARER_PREFIX) ? header.slice(BEARER_PREFIX.length) : '';
+  if (ADMIN_CONFIG.token && token && tokenMatches(token, ADMIN_CONFIG.token)) return null;
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: ADMIN_CONFIG.token
+        ? 'Admin token missing or invalid'
+        : 'Admin actions are disabled: ADMIN_TOKEN is not set on the server',
+      timestamp: Date.now(),
+    } as ApiResponse<null>,
+    { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+  );
+}
@@ -0,0 +1,366 @@
+// =============================================================================
+// Alert Channels
+// Sends alerts that fire or resolve to webhooks, Slack, Discord and Telegram,
+// with retries and a delivery log (server-side only)
+// =============================================================================
+
+import { createHmac } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  AlertChannel,
+  AlertChannelSummary,
+  AlertChannelType,
+  AlertDelivery,
+  AlertTransition,
+} from '@/types';
+import { ALERT_DELIVERY_CONFIG, ALERTS_CONFIG } from './constants';
+import { ALERT_SEVERITIES } from './alertRules';
+import { formatAlert } from './alertFormats';
+import { DEFAULT_NETWORK } from './networks';
+import { delay } from './utils';
+import { pruneLines, readLinesBackward } from './jsonl';
+
+const CHANNEL_TYPES: AlertChannelType[] = ['webhook', 'slack', 'discord', 'telegram'];
+
+const TELEGRAM_API = 'https://api.telegram.org';
+
+// Headers on signed webhook requests
+export const SIGNATURE_HEADER = 'X-Xandeum-Signature';
+export const TIMESTAMP_HEADER = 'X-Xandeum-Timestamp';
+
+// When each channel was last sent a test alert
+const lastTest = new Map<string, number>();
+
+let lastPrune = 0;
+
+function isUrl(value: unknown): value is string {
+  try {
+    return typeof value === 'string' && ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a channel from the channels file, failing loudly on mistakes that
+ * would otherwise only show up when an alert fails to arrive
+ */
+function loadChannel(channel: Partial<AlertChannel>, index: number): AlertChannel {
+  const label = `Alert channel ${channel.id ? `"${channel.id}"` : `#${index}`}`;
+
+  if (!channel.id || !channel.name) {
+    throw new Error(`${label}: id and name are required`);
+  }
+  if (!channel.type || !CHANNEL_TYPES.includes(channel.type)) {
+    throw new Error(`${label}: type must be one of ${CHANNEL_TYPES.join(', ')}`);
+  }
+  if (channel.type === 'telegram') {
+    if (!channel.botToken || !channel.chatId) {
+      throw new Error(`${label}: botToken and chatId are required for telegram channels`);
+    }
+    if (channel.apiUrl !== undefined && !isUrl(channel.apiUrl)) {
+      throw new Error(`${label}: apiUrl must be an http(s) URL`);
+    }
+  } else if (!isUrl(channel.url)) {
+    throw new Error(`${label}: url must be an http(s) URL`);
+  }
+  if (channel.minSeverity !== undefined && !ALERT_SEVERITIES.includes(channel.minSeverity)) {
+    throw new Error(`${label}: minSeverity must be one of ${ALERT_SEVERITIES.join(', ')}`);
+  }
+
+  return {
+    ...channel,
+    id: channel.id,
+    name: channel.name,
+    type: channel.type,
+    minSeverity: channel.minSeverity ?? 'info',
+    sendResolved: channel.sendResolved ?? true,
+    enabled: channel.enabled ?? true,
+  };
+}
+
+/**
+ * Read the configured channels. No channels file means no channels.
+ */
+export async function readAlertChannels(): Promise<AlertChannel[]> {
+  const file = ALERT_DELIVERY_CONFIG.channelsFile;
+  let content: string;
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  let parsed: { channels?: Partial<AlertChannel>[] };
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${file}: ${error instanceof Error ? error.message : 'invalid JSON'}`);
+  }
+
+  const channels = (parsed.channels ?? []).map(loadChannel);
+  const duplicate = channels.find((channel, i) => channels.findIndex((c) => c.id === channel.id) !== i);
+  if (duplicate) {
+    throw new Error(`Alert channel "${duplicate.id}" is defined more than once`);
+  }
+  return channels;
+}
+
+/**
+ * A channel without its URL, tokens or secret
+ */
+export function summarizeChannel(channel: AlertChannel): AlertChannelSummary {
+  return {
+    id: channel.id,
+    name: channel.name,
+    type: channel.type,
+    target: new URL(channel.type === 'telegram' ? channel.apiUrl ?? TELEGRAM_API : channel.url ?? '').host,
+    signed: channel.type === 'webhook' && !!channel.secret,
+    minSeverity: channel.minSeverity,
+    rules: channel.rules ?? null,
+    networks: channel.networks ?? null,
+    sendResolved: channel.sendResolved,
+    enabled: channel.enabled,
+  };
+}
+
+/**
+ * HMAC-SHA256 of "<timestamp>.<body>", as sent in the signature header.
+ * Receivers recompute it to check the request came from us, and reject old
+ * timestamps to stop replays.
+ */
+export function signPayload(body: string, secret: string, timestamp: number): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Whether a channel wants an alert
+ */
+function channelWants(channel: AlertChannel, alert: AlertTransition): boolean {
+  if (!channel.enabled) return false;
+  if (ALERT_SEVERITIES.indexOf(alert.severity) < ALERT_SEVERITIES.indexOf(channel.minSeverity)) return false;
+  if (channel.rules && !channel.rules.includes(alert.ruleId)) return false;
+  if (channel.networks && !channel.networks.includes(alert.network)) return false;
+  return alert.state === 'firing' || channel.sendResolved;
+}
+
+/**
+ * URL, headers and body for delivering an alert to a channel
+ */
+function buildRequest(
+  channel: AlertChannel,
+  alert: AlertTransition,
+  test: boolean
+): { url: string; headers: Record<string, string>; body: string } {
+  const body = JSON.stringify(formatAlert(channel.type, alert, { chatId: channel.chatId, test }));
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  if (channel.type === 'telegram') {
+    const base = (channel.apiUrl ?? TELEGRAM_API).replace(/\/$/, '');
+    return { url: `${base}/bot${channel.botToken}/sendMessage`, headers, body };
+  }
+
+  if (channel.type === 'webhook' && channel.secret) {
+    const timestamp = Date.now();
+    headers[TIMESTAMP_HEADER] = String(timestamp);
+    headers[SIGNATURE_HEADER] = signPayload(body, channel.secret, timestamp);
+  }
+  return { url: channel.url ?? '', headers, body };
+}
+
+/**
+ * Send one request with a timeout
+ * @returns HTTP status
+ */
+async function post(url: string, headers: Record<string, string>, body: string): Promise<number> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), ALERT_DELIVERY_CONFIG.timeout);
+
+  try {
+    const response = await fetch(url, { method: 'POST', headers, body, signal: controller.signal });
+    // Drain the body so the connection can be reused
+    await response.text().catch(() => '');
+    return response.status;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+async function recordDelivery(delivery: AlertDelivery): Promise<void> {
+  const file = ALERT_DELIVERY_CONFIG.logFile;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, JSON.stringify(delivery) + '\n');
+}
+
+/**
+ * Drop deliveries older than the alert retention period from the log. Run
+ * by the collector, which logs nearly every delivery; one logged while the
+ * log is rewritten (a test alert from the app, or a retry still running
+ * from an earlier poll) can be lost.
+ */
+async function pruneDeliveries(now: number): Promise<void> {
+  const file = ALERT_DELIVERY_CONFIG.logFile;
+  const cutoff = now - ALERTS_CONFIG.retentionDays * 24 * 60 * 60 * 1000;
+  const dropped = await pruneLines(file, (line) => {
+    try {
+      return (JSON.parse(line) as AlertDelivery).timestamp >= cutoff;
+    } catch {
+      // A torn last line from an interrupted write; skip it
+      return false;
+    }
+  });
+  if (dropped > 0) console.log(`[Alerts] Pruned ${dropped} deliveries from ${file}`);
+}
+
+/**
+ * Deliver an alert to a channel, retrying network errors, timeouts, 429s and
+ * 5xx responses with exponential backoff. Other 4xx responses are not
+ * retried: the request itself is wrong. Every delivery is logged.
+ */
+export async function deliverAlert(
+  channel: AlertChannel,
+  alert: AlertTransition,
+  test = false
+): Promise<AlertDelivery> {
+  const startedAt = Date.now();
+  let attempts = 0;
+  let status: number | null = null;
+  let error: string | null = null;
+
+  for (let attempt = 0; attempt <= ALERT_DELIVERY_CONFIG.retries; attempt++) {
+    if (attempt > 0) await delay(ALERT_DELIVERY_CONFIG.retryDelay * 2 ** (attempt - 1));
+    attempts++;
+
+    // Rebuilt on every attempt so signatures carry a fresh timestamp
+    const request = buildRequest(channel, alert, test);
+    try {
+      status = await post(request.url, request.headers, request.body);
+      error = status >= 200 && status < 300 ? null : `HTTP ${status}`;
+    } catch (e) {
+      status = null;
+      error = e instanceof Error ? (e.name === 'AbortError' ? 'Timed out' : e.message) : String(e);
+    }
+
+    const retryable = status === null || status === 429 || status >= 500;
+    if (!error || !retryable) break;
+  }
+
+  const delivery: AlertDelivery = {
+    id: `${startedAt}-${channel.id}-${alert.key}`,
+    channelId: channel.id,
+    channelType: channel.type,
+    alertKey: alert.key,
+    alertState: alert.state,
+    network: alert.network,
+    test,
+    timestamp: startedAt,
+    attempts,
+    ok: error === null,
+    status,
+    error,
+    duration: Date.now() - startedAt,
+  };
+
+  await recordDelivery(delivery).catch((e) => {
+    console.error('[Alerts] Failed to log delivery:', e);
+  });
+  if (!delivery.ok) {
+    console.error(`[Alerts] Delivery to ${channel.id} failed after ${attempts} attempt(s): ${error}`);
+  }
+  return delivery;
+}
+
+/**
+ * Send alerts to every channel that wants them. Channels are notified in
+ * parallel, each receiving its alerts in order, and the delivery log is
+ * pruned once a day. Never throws.
+ */
+export async function notifyChannels(alerts: AlertTransition[], now = Date.now()): Promise<void> {
+  if (now - lastPrune >= ALERTS_CONFIG.pruneInterval) {
+    lastPrune = now;
+    await pruneDeliveries(now).catch((error) => {
+      console.error('[Alerts] Could not prune the delivery log:', error);
+    });
+  }
+  if (alerts.length === 0) return;
+
+  let channels: AlertChannel[];
+  try {
+    channels = await readAlertChannels();
+  } catch (error) {
+    console.error('[Alerts] Could not read alert channels:', error);
+    return;
+  }
+
+  await Promise.all(
+    channels.map(async (channel) => {
+      for (const alert of alerts) {
+        if (channelWants(channel, alert)) await deliverAlert(channel, alert);
+      }
+    })
+  );
+}
+
+/**
+ * Claim a channel's next test alert. Checking and claiming happen together,
+ * before anything is awaited, so concurrent requests cannot all get through.
+ * @returns 0 if claimed, else the time in ms until the cooldown ends
+ */
+export function reserveTestAlert(channelId: string, now = Date.now()): number {
+  const last = lastTest.get(channelId);
+  const wait = last === undefined ? 0 : Math.max(0, last + ALERT_DELIVERY_CONFIG.testCooldown - now);
+  if (wait === 0) lastTest.set(channelId, now);
+  return wait;
+}
+
+/**
+ * Send a test alert to one channel, whatever its filters. Claim it with
+ * reserveTestAlert first.
+ * @returns The delivery, or null if there is no such channel
+ */
+export async function sendTestAlert(channelId: string): Promise<AlertDelivery | null> {
+  const channel = (await readAlertChannels()).find((c) => c.id === channelId);
+  if (!channel) {
+    // Unknown ids would otherwise pile up in the cooldown map
+    lastTest.delete(channelId);
+    return null;
+  }
+
+  const alert: AlertTransition = {
+    key: 'test:network',
+    ruleId: 'test',
+    ruleName: 'Test alert',
+    severity: 'info',
+    pubkey: null,
+    network: DEFAULT_NETWORK,
+    state: 'firing',
+    value: null,
+    message: `Test alert for channel "${channel.name}". If you can read this, delivery works.`,
+    timestamp: Date.now(),
+  };
+  return deliverAlert(channel, alert, true);
+}
+
+/**
+ * Read logged deliveries, newest first. The log is read from its end and
+ * reading stops at `limit` deliveries.
+ */
+export async function getDeliveries(filter: { channelId?: string; limit?: number } = {}): Promise<AlertDelivery[]> {
+  const deliveries: AlertDelivery[] = [];
+  if (filter.limit === 0) return deliveries;
+
+  for await (const line of readLinesBackward(ALERT_DELIVERY_CONFIG.logFile)) {
+    try {
+      const delivery: AlertDelivery = JSON.parse(line);
+      if (filter.channelId && delivery.channelId !== filter.channelId) continue;
+      deliveries.push(delivery);
+      if (deliveries.length === filter.limit) break;
+    } catch {
+      // A torn last line from an interrupted write; skip it
+    }
+  }
+
+  return deliveries;
+}
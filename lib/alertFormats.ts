@@ -0,0 +1,121 @@
+// =============================================================================
+// Alert Message Formats
+// Request bodies for each kind of notification channel. Pure functions only.
+// =============================================================================
+
+import { AlertChannelType, AlertSeverity, AlertTransition } from '@/types';
+
+const SEVERITY_COLORS: Record<AlertSeverity, string> = {
+  info: '#3b82f6',
+  warning: '#eab308',
+  critical: '#ef4444',
+};
+
+const RESOLVED_COLOR = '#22c55e';
+
+// Marks test deliveries so receivers can tell them apart
+const TEST_PREFIX = '[TEST] ';
+
+function color(alert: AlertTransition): string {
+  return alert.state === 'resolved' ? RESOLVED_COLOR : SEVERITY_COLORS[alert.severity];
+}
+
+/**
+ * One-line title, e.g. "[CRITICAL] Node offline (mainnet)"
+ */
+export function alertTitle(alert: AlertTransition, test = false): string {
+  const state = alert.state === 'resolved' ? 'RESOLVED' : alert.severity.toUpperCase();
+  return `${test ? TEST_PREFIX : ''}[${state}] ${alert.ruleName} (${alert.network})`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Generic webhook body: the alert as recorded, plus whether it is a test
+ */
+export function formatWebhook(alert: AlertTransition, test = false): object {
+  return { test, alert };
+}
+
+/**
+ * Slack incoming webhook body
+ */
+export function formatSlack(alert: AlertTransition, test = false): object {
+  const fields = [
+    { title: 'Severity', value: alert.severity, short: true },
+    { title: 'Network', value: alert.network, short: true },
+  ];
+  if (alert.pubkey) fields.push({ title: 'Node', value: alert.pubkey, short: false });
+
+  return {
+    text: alertTitle(alert, test),
+    attachments: [
+      {
+        color: color(alert),
+        text: alert.message,
+        fields,
+        ts: Math.floor(alert.timestamp / 1000),
+      },
+    ],
+  };
+}
+
+/**
+ * Discord webhook body
+ */
+export function formatDiscord(alert: AlertTransition, test = false): object {
+  const fields = [
+    { name: 'Severity', value: alert.severity, inline: true },
+    { name: 'Network', value: alert.network, inline: true },
+  ];
+  if (alert.pubkey) fields.push({ name: 'Node', value: alert.pubkey, inline: false });
+
+  return {
+    embeds: [
+      {
+        title: alertTitle(alert, test),
+        description: alert.message,
+        color: parseInt(color(alert).slice(1), 16),
+        fields,
+        timestamp: new Date(alert.timestamp).toISOString(),
+      },
+    ],
+  };
+}
+
+/**
+ * Telegram sendMessage body
+ */
+export function formatTelegram(alert: AlertTransition, chatId: string, test = false): object {
+  const lines = [`<b>${escapeHtml(alertTitle(alert, test))}</b>`, escapeHtml(alert.message)];
+  if (alert.pubkey) lines.push(`<code>${escapeHtml(alert.pubkey)}</code>`);
+
+  return {
+    chat_id: chatId,
+    text: lines.join('\n'),
+    parse_mode: 'HTML',
+    disable_web_page_preview: true,
+  };
+}
+
+/**
+ * Body for a channel type
+ */
+export function formatAlert(
+  type: AlertChannelType,
+  alert: AlertTransition,
+  options: { chatId?: string; test?: boolean } = {}
+): object {
+  switch (type) {
+    case 'webhook':
+      return formatWebhook(alert, options.test);
+    case 'slack':
+      return formatSlack(alert, options.test);
+    case 'discord':
+      return formatDiscord(alert, options.test);
+    case 'telegram':
+      return formatTelegram(alert, options.chatId ?? '', options.test);
+  }
+}
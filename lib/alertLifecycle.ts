@@ -0,0 +1,342 @@
+// =============================================================================
+// Alert Lifecycle
+// Alert instances built from the collector's firing/resolved log, plus the
+// acknowledgements and silences made through the API (server-side only).
+// The collector only appends to the alert log and the API only appends to
+// the action log, so the two processes never write the same file.
+// =============================================================================
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AlertAction, AlertInstance, AlertSilence, AlertTransition } from '@/types';
+import { ALERTS_CONFIG } from './constants';
+import { ALERT_RULES } from './alertRules';
+import { getAlertTransitions } from './alerts';
+import { DEFAULT_NETWORK, networkDataPath } from './networks';
+import { pruneLines, readLines } from './jsonl';
+
+// Appends to the action log and its pruning run one at a time, since
+// pruning rewrites the file
+let actionWrites: Promise<unknown> = Promise.resolve();
+// Per network
+const lastPrune = new Map<string, number>();
+
+/**
+ * Read a network's acknowledgements and silences, oldest first
+ */
+export async function readAlertActions(network = DEFAULT_NETWORK): Promise<AlertAction[]> {
+  const actions: AlertAction[] = [];
+  for await (const line of readLines(networkDataPath(ALERTS_CONFIG.actionsFile, network))) {
+    try {
+      actions.push(JSON.parse(line));
+    } catch {
+      // A torn last line from an interrupted write; skip it
+    }
+  }
+  return actions;
+}
+
+/**
+ * Drop acknowledgements and silences that no longer matter from a
+ * network's action log: acknowledgements older than the retention period
+ * of alerts no longer open, and silences that ended before it
+ */
+async function pruneAlertActions(network: string, now: number): Promise<void> {
+  const file = networkDataPath(ALERTS_CONFIG.actionsFile, network);
+  const cutoff = now - ALERTS_CONFIG.retentionDays * 24 * 60 * 60 * 1000;
+  const { open } = await getAlertInstances({ network });
+  const openIds = new Set(open.map((i) => i.id));
+  const keptSilences = new Set(
+    foldSilences(await readAlertActions(network))
+      .filter((s) => s.endsAt >= cutoff)
+      .map((s) => s.id)
+  );
+
+  const dropped = await pruneLines(file, (line) => {
+    try {
+      const action: AlertAction = JSON.parse(line);
+      if (action.type === 'acknowledge') return action.at >= cutoff || openIds.has(action.alertId);
+      return keptSilences.has(action.type === 'silence' ? action.silence.id : action.silenceId);
+    } catch {
+      // A torn last line from an interrupted write; skip it
+      return false;
+    }
+  });
+  if (dropped > 0) console.log(`[Alerts] Pruned ${dropped} actions from ${file}`);
+}
+
+/**
+ * Append an action to a network's action log, pruning it once a day
+ */
+function recordAlertAction(action: AlertAction, network: string): Promise<void> {
+  const write = actionWrites.then(async () => {
+    const file = networkDataPath(ALERTS_CONFIG.actionsFile, network);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, JSON.stringify(action) + '\n');
+
+    const now = Date.now();
+    if (now - (lastPrune.get(network) ?? 0) >= ALERTS_CONFIG.pruneInterval) {
+      lastPrune.set(network, now);
+      await pruneAlertActions(network, now);
+    }
+  });
+  actionWrites = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Every silence ever created, with early expiries applied
+ */
+function foldSilences(actions: AlertAction[]): AlertSilence[] {
+  const silences = new Map<string, AlertSilence>();
+  for (const action of actions) {
+    if (action.type === 'silence') {
+      silences.set(action.silence.id, action.silence);
+    } else if (action.type === 'expire-silence') {
+      const silence = silences.get(action.silenceId);
+      if (silence) silences.set(silence.id, { ...silence, endsAt: Math.min(silence.endsAt, action.at) });
+    }
+  }
+  return Array.from(silences.values());
+}
+
+/**
+ * The silence muting an alert at a time, if any. The longest wins when
+ * several match.
+ */
+export function findSilence(
+  silences: AlertSilence[],
+  alert: { ruleId: string; pubkey: string | null },
+  at: number
+): AlertSilence | null {
+  let match: AlertSilence | null = null;
+  for (const silence of silences) {
+    if (at < silence.startsAt || at >= silence.endsAt) continue;
+    if (silence.ruleId !== null && silence.ruleId !== alert.ruleId) continue;
+    if (silence.pubkey !== null && silence.pubkey !== alert.pubkey) continue;
+    if (!match || silence.endsAt > match.endsAt) match = silence;
+  }
+  return match;
+}
+
+/**
+ * Pair each firing transition with the resolution that followed it. A
+ * firing transition for a key that is already open is a duplicate (e.g.
+ * after the rule state was lost) and joins the open instance.
+ * @param transitions - Oldest first
+ * @returns Instances, newest first
+ */
+export function buildAlertInstances(
+  transitions: AlertTransition[],
+  actions: AlertAction[],
+  now = Date.now()
+): AlertInstance[] {
+  const instances: AlertInstance[] = [];
+  const open = new Map<string, AlertInstance>();
+
+  for (const transition of transitions) {
+    const current = open.get(transition.key);
+    if (transition.state === 'firing') {
+      if (current) continue;
+      const instance: AlertInstance = {
+        id: `${transition.key}@${transition.timestamp}`,
+        key: transition.key,
+        ruleId: transition.ruleId,
+        ruleName: transition.ruleName,
+        severity: transition.severity,
+        pubkey: transition.pubkey,
+        network: transition.network,
+        message: transition.message,
+        value: transition.value,
+        status: 'firing',
+        firedAt: transition.timestamp,
+        resolvedAt: null,
+        acknowledgedAt: null,
+        acknowledgeNote: null,
+        silencedUntil: null,
+      };
+      instances.push(instance);
+      open.set(transition.key, instance);
+    } else if (current) {
+      current.resolvedAt = transition.timestamp;
+      current.value = transition.value;
+      open.delete(transition.key);
+    }
+  }
+
+  const acknowledgements = new Map<string, Extract<AlertAction, { type: 'acknowledge' }>>();
+  for (const action of actions) {
+    if (action.type === 'acknowledge' && !acknowledgements.has(action.alertId)) {
+      acknowledgements.set(action.alertId, action);
+    }
+  }
+  const silences = foldSilences(actions);
+
+  for (const instance of instances) {
+    const acknowledgement = acknowledgements.get(instance.id);
+    instance.acknowledgedAt = acknowledgement?.at ?? null;
+    instance.acknowledgeNote = acknowledgement?.note ?? null;
+
+    if (instance.resolvedAt !== null) {
+      instance.status = 'resolved';
+      continue;
+    }
+    const silence = findSilence(silences, instance, now);
+    instance.silencedUntil = silence?.endsAt ?? null;
+    instance.status = silence ? 'silenced' : acknowledgement ? 'acknowledged' : 'firing';
+  }
+
+  return instances.reverse();
+}
+
+/**
+ * Open alerts, and alerts resolved within a range
+ */
+export async function getAlertInstances(filter: {
+  from?: number;
+  to?: number;
+  network?: string;
+} = {}): Promise<{ open: AlertInstance[]; past: AlertInstance[] }> {
+  const network = filter.network ?? DEFAULT_NETWORK;
+  const [transitions, actions] = await Promise.all([
+    getAlertTransitions({ network }),
+    readAlertActions(network),
+  ]);
+  const instances = buildAlertInstances(transitions.reverse(), actions);
+
+  return {
+    open: instances.filter((i) => i.resolvedAt === null),
+    past: instances.filter(
+      (i) =>
+        i.resolvedAt !== null &&
+        (filter.from === undefined || i.resolvedAt >= filter.from) &&
+        (filter.to === undefined || i.resolvedAt <= filter.to)
+    ),
+  };
+}
+
+/**
+ * Acknowledge an open alert
+ * @returns The alert as acknowledged, or null if no open alert has this id
+ */
+export async function acknowledgeAlert(
+  alertId: string,
+  note: string | null,
+  network = DEFAULT_NETWORK
+): Promise<AlertInstance | null> {
+  const { open } = await getAlertInstances({ network });
+  const instance = open.find((i) => i.id === alertId);
+  if (!instance) return null;
+
+  const at = Date.now();
+  await recordAlertAction({ type: 'acknowledge', alertId, at, note }, network);
+  return {
+    ...instance,
+    acknowledgedAt: instance.acknowledgedAt ?? at,
+    acknowledgeNote: instance.acknowledgeNote ?? note,
+    status: instance.status === 'firing' ? 'acknowledged' : instance.status,
+  };
+}
+
+/**
+ * Silences that have not ended yet, soonest first
+ */
+export async function getSilences(network = DEFAULT_NETWORK, now = Date.now()): Promise<AlertSilence[]> {
+  return foldSilences(await readAlertActions(network))
+    .filter((s) => s.endsAt > now)
+    .sort((a, b) => a.startsAt - b.startsAt);
+}
+
+/**
+ * Check a silence request
+ * @returns What is wrong with it, or null if it can be created
+ */
+export function validateSilence(input: {
+  ruleId: string | null;
+  pubkey: string | null;
+  startsAt: number;
+  endsAt: number;
+}): string | null {
+  if (!input.ruleId && !input.pubkey) {
+    return 'A silence needs a ruleId, a pubkey or both';
+  }
+  if (input.ruleId && !ALERT_RULES.some((r) => r.id === input.ruleId)) {
+    return `Unknown rule "${input.ruleId}". Available: ${ALERT_RULES.map((r) => r.id).join(', ')}`;
+  }
+  if (!(input.endsAt > input.startsAt)) {
+    return 'A silence must end after it starts';
+  }
+  if (input.endsAt - input.startsAt > ALERTS_CONFIG.maxSilence) {
+    return `A silence can last at most ${ALERTS_CONFIG.maxSilence / (24 * 60 * 60 * 1000)} days`;
+  }
+  return null;
+}
+
+/**
+ * Create a silence; check it with validateSilence first
+ */
+export async function createSilence(
+  input: { ruleId: string | null; pubkey: string | null; startsAt: number; endsAt: number; reason: string },
+  network = DEFAULT_NETWORK
+): Promise<AlertSilence> {
+  const silence: AlertSilence = { id: randomUUID(), ...input, createdAt: Date.now() };
+  await recordAlertAction({ type: 'silence', silence }, network);
+  return silence;
+}
+
+/**
+ * End a silence now
+ * @returns False if there is no such silence or it has already ended
+ */
+export async function expireSilence(silenceId: string, network = DEFAULT_NETWORK): Promise<boolean> {
+  const now = Date.now();
+  const silence = (await getSilences(network, now)).find((s) => s.id === silenceId);
+  if (!silence) return false;
+
+  await recordAlertAction({ type: 'expire-silence', silenceId, at: now }, network);
+  return true;
+}
+
+/**
+ * Alerts still open when a silence muting them ended between two polls, as
+ * firing transitions to send again: their notifications were held back
+ * while the silence lasted
+ * @param since - Time of the previous poll
+ */
+export async function unsilencedAlerts(
+  since: number,
+  now: number,
+  network = DEFAULT_NETWORK
+): Promise<AlertTransition[]> {
+  const silences = foldSilences(await readAlertActions(network));
+  if (!silences.some((s) => s.endsAt > since && s.endsAt <= now)) return [];
+
+  const { open } = await getAlertInstances({ network });
+  return open
+    .filter((i) => i.firedAt <= since && findSilence(silences, i, since) && !findSilence(silences, i, now))
+    .map((i) => ({
+      key: i.key,
+      ruleId: i.ruleId,
+      ruleName: i.ruleName,
+      severity: i.severity,
+      pubkey: i.pubkey,
+      network: i.network,
+      state: 'firing',
+      value: i.value,
+      message: `${i.message} (still firing after its silence ended)`,
+      timestamp: now,
+    }));
+}
+
+/**
+ * Drop alerts muted by a silence, so they are not sent anywhere
+ */
+export async function withoutSilenced(
+  alerts: AlertTransition[],
+  network = DEFAULT_NETWORK
+): Promise<AlertTransition[]> {
+  if (alerts.length === 0) return alerts;
+  const silences = await getSilences(network);
+  return alerts.filter((alert) => !findSilence(silences, alert, alert.timestamp));
+}
@@ -0,0 +1,328 @@
+// =============================================================================
+// Alert Rules
+// Declarative rules from config/alert-rules.json, evaluated against each new
+// snapshot. Pure functions only: the collector keeps the state between polls.
+// =============================================================================
+
+import {
+  AlertRule,
+  AlertRuleType,
+  AlertSeverity,
+  AlertState,
+  AlertTransition,
+  NetworkSnapshot,
+  NodeSnapshot,
+  NodeStatus,
+  VersionStatus,
+} from '@/types';
+import { calculatePercent, truncateMiddle } from './utils';
+import { classifyVersion, resolveCurrentRelease } from './versions';
+import rulesConfig from '@/config/alert-rules.json';
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = [
+  'status',
+  'health-below',
+  'storage-above',
+  'version-behind',
+  'node-missing',
+  'network-online-below',
+];
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['info', 'warning', 'critical'];
+
+const NODE_STATUSES: NodeStatus[] = ['online', 'degraded', 'offline'];
+const VERSION_STATUSES: VersionStatus[] = ['current', 'patch-behind', 'one-minor-behind', 'unsupported'];
+
+// Rules that fire when a value falls below their threshold rather than above
+const BELOW_RULES: AlertRuleType[] = ['health-below', 'network-online-below'];
+const THRESHOLD_RULES: AlertRuleType[] = [...BELOW_RULES, 'storage-above'];
+
+/**
+ * Check a rule from the config file, failing loudly on mistakes that would
+ * otherwise leave it silently never firing
+ */
+function loadRule(rule: Partial<AlertRule>, index: number): AlertRule {
+  const label = `Alert rule ${rule.id ? `"${rule.id}"` : `#${index}`}`;
+
+  if (!rule.id || !rule.name) {
+    throw new Error(`${label}: id and name are required`);
+  }
+  if (!rule.type || !ALERT_RULE_TYPES.includes(rule.type)) {
+    throw new Error(`${label}: type must be one of ${ALERT_RULE_TYPES.join(', ')}`);
+  }
+  if (!rule.severity || !ALERT_SEVERITIES.includes(rule.severity)) {
+    throw new Error(`${label}: severity must be one of ${ALERT_SEVERITIES.join(', ')}`);
+  }
+  if (rule.forMinutes !== undefined && !(rule.forMinutes >= 0)) {
+    throw new Error(`${label}: forMinutes must be zero or more`);
+  }
+
+  if (THRESHOLD_RULES.includes(rule.type)) {
+    if (typeof rule.threshold !== 'number') {
+      throw new Error(`${label}: threshold is required for ${rule.type} rules`);
+    }
+    const below = BELOW_RULES.includes(rule.type);
+    if (rule.clearAt !== undefined && (below ? rule.clearAt < rule.threshold : rule.clearAt > rule.threshold)) {
+      throw new Error(`${label}: clearAt must be ${below ? 'at or above' : 'at or below'} threshold`);
+    }
+  }
+  if (rule.type === 'status' && (!rule.statuses?.length || rule.statuses.some((s) => !NODE_STATUSES.includes(s)))) {
+    throw new Error(`${label}: statuses must list some of ${NODE_STATUSES.join(', ')}`);
+  }
+  if (
+    rule.type === 'version-behind' &&
+    (!rule.versionStatuses?.length || rule.versionStatuses.some((s) => !VERSION_STATUSES.includes(s)))
+  ) {
+    throw new Error(`${label}: versionStatuses must list some of ${VERSION_STATUSES.join(', ')}`);
+  }
+
+  return {
+    ...rule,
+    id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    severity: rule.severity,
+    forMinutes: rule.forMinutes ?? 0,
+    enabled: rule.enabled ?? true,
+  };
+}
+
+/**
+ * All configured alert rules, in file order
+ */
+export const ALERT_RULES: AlertRule[] = (rulesConfig.rules as Partial<AlertRule>[]).map(loadRule);
+
+const duplicate = ALERT_RULES.find((rule, i) => ALERT_RULES.findIndex((r) => r.id === rule.id) !== i);
+if (duplicate) {
+  throw new Error(`Alert rule "${duplicate.id}" is defined more than once`);
+}
+
+// A subject the rule's condition currently holds for
+interface Observation {
+  pubkey: string | null;
+  value: string | number | null;
+  message: string;
+}
+
+/**
+ * Whether a value is past a rule's threshold. While the rule is firing the
+ * clearAt level applies instead, so values hovering around the threshold do
+ * not make it flap.
+ */
+function pastThreshold(rule: AlertRule, value: number, firing: boolean): boolean {
+  const threshold = rule.threshold ?? 0;
+  const limit = firing ? rule.clearAt ?? threshold : threshold;
+  return BELOW_RULES.includes(rule.type) ? value < limit : value > limit;
+}
+
+function nodeLabel(pubkey: string): string {
+  return `Node ${truncateMiddle(pubkey, 8, 6)}`;
+}
+
+/**
+ * Find every subject a rule's condition holds for in the current snapshot
+ */
+function observe(
+  rule: AlertRule,
+  previous: NetworkSnapshot | null,
+  current: NetworkSnapshot,
+  states: Map<string, AlertState>
+): Observation[] {
+  const isFiring = (pubkey: string | null) => states.get(alertKey(rule.id, pubkey))?.firing ?? false;
+  const scope = rule.pubkeys ? new Set(rule.pubkeys) : null;
+  const nodes = scope ? current.nodes.filter((n) => scope.has(n.pubkey)) : current.nodes;
+
+  const nodeObservations = (check: (node: NodeSnapshot) => Observation | null) =>
+    nodes.map(check).filter((o): o is Observation => o !== null);
+
+  switch (rule.type) {
+    case 'status': {
+      // Only a change into one of the statuses starts the condition; it then
+      // holds while the node stays in them. A node already in a status when
+      // first observed never changed, so it does not alert.
+      const previousStatus = new Map(previous?.nodes.map((n) => [n.pubkey, n.status]));
+      return nodeObservations((node) => {
+        if (!rule.statuses?.includes(node.status)) return null;
+        const was = previousStatus.get(node.pubkey);
+        const changed = previous !== null && (was === undefined || !rule.statuses.includes(was));
+        if (!changed && !states.has(alertKey(rule.id, node.pubkey))) return null;
+        return {
+          pubkey: node.pubkey,
+          value: node.status,
+          message: changed && was
+            ? `${nodeLabel(node.pubkey)} went from ${was} to ${node.status}`
+            : `${nodeLabel(node.pubkey)} is ${node.status}`,
+        };
+      });
+    }
+
+    case 'health-below':
+      return nodeObservations((node) =>
+        pastThreshold(rule, node.healthScore, isFiring(node.pubkey))
+          ? {
+              pubkey: node.pubkey,
+              value: node.healthScore,
+              message: `${nodeLabel(node.pubkey)} health score is ${node.healthScore} (threshold ${rule.threshold})`,
+            }
+          : null
+      );
+
+    case 'storage-above':
+      return nodeObservations((node) =>
+        pastThreshold(rule, node.storage_usage_percent, isFiring(node.pubkey))
+          ? {
+              pubkey: node.pubkey,
+              value: node.storage_usage_percent,
+              message: `${nodeLabel(node.pubkey)} storage is ${node.storage_usage_percent.toFixed(1)}% used (threshold ${rule.threshold}%)`,
+            }
+          : null
+      );
+
+    case 'version-behind': {
+      const currentRelease = resolveCurrentRelease(current.nodes.map((n) => n.version));
+      return nodeObservations((node) => {
+        const status = classifyVersion(node.version, currentRelease);
+        return rule.versionStatuses?.includes(status)
+          ? {
+              pubkey: node.pubkey,
+              value: node.version,
+              message: `${nodeLabel(node.pubkey)} runs v${node.version}, ${status} (current v${currentRelease})`,
+            }
+          : null;
+      });
+    }
+
+    case 'node-missing': {
+      // Nodes in the last poll, nodes already missing, and any listed by the rule
+      const candidates = new Set<string>([
+        ...(previous?.nodes.map((n) => n.pubkey) ?? []),
+        ...Array.from(states.values()).filter((s) => s.ruleId === rule.id && s.pubkey).map((s) => s.pubkey as string),
+        ...(rule.pubkeys ?? []),
+      ]);
+      for (const node of current.nodes) candidates.delete(node.pubkey);
+      return Array.from(candidates)
+        .filter((pubkey) => !scope || scope.has(pubkey))
+        .map((pubkey) => ({ pubkey, value: null, message: `${nodeLabel(pubkey)} is missing from gossip` }));
+    }
+
+    case 'network-online-below': {
+      const onlinePercent = calculatePercent(current.stats.onlineNodes, current.stats.totalNodes);
+      return pastThreshold(rule, onlinePercent, isFiring(null))
+        ? [
+            {
+              pubkey: null,
+              value: onlinePercent,
+              message: `${onlinePercent.toFixed(0)}% of nodes are online (threshold ${rule.threshold}%)`,
+            },
+          ]
+        : [];
+    }
+  }
+}
+
+/**
+ * Deduplication key of a rule for one subject
+ */
+export function alertKey(ruleId: string, pubkey: string | null): string {
+  return `${ruleId}:${pubkey ?? 'network'}`;
+}
+
+/**
+ * Evaluate rules against a new snapshot. A condition must hold on every poll
+ * for forMinutes before its alert fires, and the alert resolves on the first
+ * poll it no longer holds. A node that left gossip has not recovered, so its
+ * firing alerts are kept as they are until it returns (node-missing rules
+ * report the absence itself). Firing alerts of rules that were disabled or
+ * removed resolve, and their state is dropped.
+ * @param states - State returned by the previous evaluation
+ * @returns The new state and every alert that fired or resolved
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  states: AlertState[],
+  previous: NetworkSnapshot | null,
+  current: NetworkSnapshot,
+  network: string
+): { states: AlertState[]; transitions: AlertTransition[] } {
+  const byKey = new Map(states.map((s) => [s.key, s]));
+  const now = current.timestamp;
+  const nextStates: AlertState[] = [];
+  const transitions: AlertTransition[] = [];
+
+  const transition = (
+    rule: Pick<AlertRule, 'id' | 'name' | 'severity'>,
+    state: AlertState,
+    kind: AlertTransition['state'],
+    message: string
+  ): AlertTransition => ({
+    key: state.key,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    severity: rule.severity,
+    pubkey: state.pubkey,
+    network,
+    state: kind,
+    value: state.value,
+    message,
+    timestamp: now,
+  });
+
+  const present = new Set(current.nodes.map((n) => n.pubkey));
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+
+    const holding = new Set<string>();
+    for (const observation of observe(rule, previous, current, byKey)) {
+      const key = alertKey(rule.id, observation.pubkey);
+      const before = byKey.get(key);
+      holding.add(key);
+
+      const state: AlertState = {
+        key,
+        ruleId: rule.id,
+        pubkey: observation.pubkey,
+        since: before?.since ?? now,
+        firing: before?.firing ?? false,
+        firedAt: before?.firedAt ?? null,
+        value: observation.value,
+      };
+
+      if (!state.firing && now - state.since >= rule.forMinutes * 60 * 1000) {
+        state.firing = true;
+        state.firedAt = now;
+        transitions.push(transition(rule, state, 'firing', observation.message));
+      }
+      nextStates.push(state);
+    }
+
+    for (const state of states) {
+      if (state.ruleId !== rule.id || holding.has(state.key) || !state.firing) continue;
+      if (state.pubkey && rule.type !== 'node-missing' && !present.has(state.pubkey)) {
+        nextStates.push(state);
+        continue;
+      }
+      const subject = state.pubkey ? nodeLabel(state.pubkey) : 'Network';
+      transitions.push(transition(rule, state, 'resolved', `${subject}: ${rule.name} resolved`));
+    }
+  }
+
+  // Nothing evaluates these any more, so they would otherwise stay open
+  const configured = new Map(rules.map((r) => [r.id, r]));
+  for (const state of states) {
+    const rule = configured.get(state.ruleId);
+    if (!state.firing || rule?.enabled) continue;
+    const subject = state.pubkey ? nodeLabel(state.pubkey) : 'Network';
+    const name = rule?.name ?? state.ruleId;
+    transitions.push(
+      transition(
+        rule ?? { id: state.ruleId, name, severity: 'info' },
+        state,
+        'resolved',
+        `${subject}: ${name} resolved (rule ${rule ? 'disabled' : 'removed'})`
+      )
+    );
+  }
+
+  return { states: nextStates, transitions };
+}
@@ -0,0 +1,75 @@
+// =============================================================================
+// Local Alert Sink
+// Accepts alert deliveries on any path and prints them, checking webhook
+// signatures, so channels can be tried without Slack, Discord or Telegram
+// (server-side only)
+// =============================================================================
+
+import { timingSafeEqual } from 'crypto';
+import http from 'http';
+import { ALERT_SINK_CONFIG } from './constants';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signPayload } from './alertChannels';
+
+/**
+ * Check a signed request. Unsigned requests pass: only webhook channels
+ * with a secret sign theirs.
+ */
+function checkSignature(req: http.IncomingMessage, body: string): string {
+  const signature = req.headers[SIGNATURE_HEADER.toLowerCase()];
+  if (typeof signature !== 'string') return 'unsigned';
+  if (!ALERT_SINK_CONFIG.secret) return 'signed (not checked: ALERT_SINK_SECRET is not set)';
+
+  const timestamp = Number(req.headers[TIMESTAMP_HEADER.toLowerCase()]);
+  const expected = Buffer.from(signPayload(body, ALERT_SINK_CONFIG.secret, timestamp));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+    ? 'signature valid'
+    : 'SIGNATURE INVALID';
+}
+
+/**
+ * Start the sink on ALERT_SINK_CONFIG.port
+ */
+export async function startAlertSink(): Promise<{ stop: () => Promise<void> }> {
+  let received = 0;
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Alert deliveries are POSTed' }));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks).toString('utf8');
+    received++;
+
+    // Failure injection, to see retries and backoff in the delivery log
+    if (Math.random() < ALERT_SINK_CONFIG.failRate) {
+      console.log(`[Alert Sink] #${received} ${req.url}: answering 500 (injected failure)`);
+      res.writeHead(500).end();
+      return;
+    }
+
+    let payload: unknown = body;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      // Printed as received
+    }
+    console.log(`[Alert Sink] #${received} ${req.url}: ${checkSignature(req, body)}`);
+    console.log(JSON.stringify(payload, null, 2));
+
+    // Telegram clients expect { ok: true }; the others ignore the body
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(ALERT_SINK_CONFIG.port, resolve));
+  console.log(`[Alert Sink] Listening on http://localhost:${ALERT_SINK_CONFIG.port}`);
+
+  return {
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,138 @@
+// =============================================================================
+// Alerts
+// Runs the alert rules on every collector poll and keeps their state and a
+// log of alerts firing and resolving (server-side only)
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AlertState, AlertTransition, NetworkSnapshot } from '@/types';
+import { ALERTS_CONFIG } from './constants';
+import { ALERT_RULES, evaluateAlertRules } from './alertRules';
+import { DEFAULT_NETWORK, networkDataPath } from './networks';
+import { pruneLines, readLinesBackward } from './jsonl';
+
+// Per network
+const lastPrune = new Map<string, number>();
+
+/**
+ * Read the rule evaluation state of a network: pending and firing alerts
+ */
+export async function readAlertState(network = DEFAULT_NETWORK): Promise<AlertState[]> {
+  try {
+    return JSON.parse(await fs.readFile(networkDataPath(ALERTS_CONFIG.stateFile, network), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function writeAlertState(states: AlertState[], network: string): Promise<void> {
+  const file = networkDataPath(ALERTS_CONFIG.stateFile, network);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write then rename so readers never see a partial file
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(states));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+/**
+ * Append alerts firing or resolving to a network's alert log
+ */
+export async function recordAlertTransitions(
+  transitions: AlertTransition[],
+  network = DEFAULT_NETWORK
+): Promise<void> {
+  if (transitions.length === 0) return;
+  const file = networkDataPath(ALERTS_CONFIG.logFile, network);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(
+    file,
+    transitions.map((t) => JSON.stringify(t)).join('\n') + '\n'
+  );
+}
+
+/**
+ * Drop transitions older than the retention period from a network's alert
+ * log, except those of alerts still firing, which are needed to list them
+ */
+async function pruneAlertTransitions(states: AlertState[], network: string, now: number): Promise<void> {
+  const file = networkDataPath(ALERTS_CONFIG.logFile, network);
+  const cutoff = now - ALERTS_CONFIG.retentionDays * 24 * 60 * 60 * 1000;
+  const firedAt = new Map(states.filter((s) => s.firing).map((s) => [s.key, s.firedAt ?? 0]));
+
+  const dropped = await pruneLines(file, (line) => {
+    try {
+      const transition: AlertTransition = JSON.parse(line);
+      return transition.timestamp >= Math.min(cutoff, firedAt.get(transition.key) ?? Infinity);
+    } catch {
+      // A torn last line from an interrupted write; skip it
+      return false;
+    }
+  });
+  if (dropped > 0) console.log(`[Alerts] Pruned ${dropped} transitions from ${file}`);
+}
+
+/**
+ * Read logged alert transitions, newest first. The log is appended in time
+ * order, so it is read from its end and reading stops at `limit`
+ * transitions or the first one before `from`.
+ */
+export async function getAlertTransitions(filter: {
+  ruleId?: string;
+  pubkey?: string;
+  from?: number;
+  to?: number;
+  limit?: number;
+  network?: string;
+} = {}): Promise<AlertTransition[]> {
+  const transitions: AlertTransition[] = [];
+  if (filter.limit === 0) return transitions;
+
+  for await (const line of readLinesBackward(networkDataPath(ALERTS_CONFIG.logFile, filter.network))) {
+    try {
+      const transition: AlertTransition = JSON.parse(line);
+      if (filter.from !== undefined && transition.timestamp < filter.from) break;
+      if (filter.ruleId && transition.ruleId !== filter.ruleId) continue;
+      if (filter.pubkey && transition.pubkey !== filter.pubkey) continue;
+      if (filter.to !== undefined && transition.timestamp > filter.to) continue;
+      transitions.push(transition);
+      if (transitions.length === filter.limit) break;
+    } catch {
+      // A torn last line from an interrupted write; skip it
+    }
+  }
+
+  return transitions;
+}
+
+/**
+ * Evaluate every rule against a network's latest snapshot, then store the
+ * new state and log what fired or resolved, pruning the log once a day
+ * @returns Alerts that fired or resolved on this poll
+ */
+export async function runAlertRules(
+  previous: NetworkSnapshot | null,
+  current: NetworkSnapshot,
+  network = DEFAULT_NETWORK
+): Promise<AlertTransition[]> {
+  const { states, transitions } = evaluateAlertRules(
+    ALERT_RULES,
+    await readAlertState(network),
+    previous,
+    current,
+    network
+  );
+
+  await writeAlertState(states, network);
+  await recordAlertTransitions(transitions, network);
+
+  if (current.timestamp - (lastPrune.get(network) ?? 0) >= ALERTS_CONFIG.pruneInterval) {
+    lastPrune.set(network, current.timestamp);
+    await pruneAlertTransitions(states, network, current.timestamp);
+  }
+
+  for (const transition of transitions) {
+    console.log(`[Alerts] ${transition.state} (${transition.severity}) on ${network}: ${transition.message}`);
+  }
+  return transitions;
+}
@@ -0,0 +1,182 @@
+// =============================================================================
+// Availability
+// Per-day poll counts for each network and its pRPC endpoints, recorded by
+// the collector and drawn as the status page's daily bars. Network days the
+// counts miss are derived from the stored snapshots (server-side only)
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  AvailabilityDay,
+  AvailabilitySeries,
+  AvailabilityStatus,
+  PollOutcome,
+} from '@/types';
+import { AVAILABILITY_CONFIG } from './constants';
+import { getNetworkHealthSummary } from './metrics';
+import { getSnapshotSummaries } from './snapshotStore';
+import { DEFAULT_NETWORK, networkDataPath, networkEndpoints } from './networks';
+import { calculatePercent } from './utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DayCounts {
+  polls: number;
+  warning: number; // Up, but the network summary was warning
+  down: number;
+}
+
+interface AvailabilityRecord {
+  network: Record<string, DayCounts>; // By UTC day
+  endpoints: Record<string, Record<string, DayCounts>>; // By endpoint, then day
+}
+
+/**
+ * UTC day key (YYYY-MM-DD)
+ */
+function dayKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+async function readAvailability(network: string): Promise<AvailabilityRecord> {
+  try {
+    return JSON.parse(await fs.readFile(networkDataPath(AVAILABILITY_CONFIG.file, network), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { network: {}, endpoints: {} };
+    throw error;
+  }
+}
+
+async function writeAvailability(record: AvailabilityRecord, network: string): Promise<void> {
+  const file = networkDataPath(AVAILABILITY_CONFIG.file, network);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write then rename so readers never see a partial file
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(record));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+function count(days: Record<string, DayCounts>, day: string, up: boolean, warning = false): void {
+  const counts = days[day] || (days[day] = { polls: 0, warning: 0, down: 0 });
+  counts.polls++;
+  if (!up) counts.down++;
+  else if (warning) counts.warning++;
+}
+
+/**
+ * Drop days older than the period shown
+ */
+function prune(days: Record<string, DayCounts>, oldest: string): void {
+  for (const day of Object.keys(days)) {
+    if (day < oldest) delete days[day];
+  }
+}
+
+/**
+ * Count one poll of a network and of each of its endpoints. A critical
+ * network counts as down, like an unreachable one.
+ * @param endpoints - Whether each endpoint answered this poll
+ */
+export async function recordAvailability(
+  outcome: PollOutcome,
+  endpoints: Record<string, boolean>,
+  timestamp = Date.now(),
+  network = DEFAULT_NETWORK
+): Promise<void> {
+  const record = await readAvailability(network);
+  const day = dayKey(timestamp);
+  const oldest = dayKey(timestamp - (AVAILABILITY_CONFIG.days - 1) * DAY_MS);
+
+  count(record.network, day, outcome === 'healthy' || outcome === 'warning', outcome === 'warning');
+  prune(record.network, oldest);
+
+  for (const [endpoint, up] of Object.entries(endpoints)) {
+    if (!record.endpoints[endpoint]) record.endpoints[endpoint] = {};
+    count(record.endpoints[endpoint], day, up);
+  }
+  for (const [endpoint, days] of Object.entries(record.endpoints)) {
+    prune(days, oldest);
+    if (Object.keys(days).length === 0) delete record.endpoints[endpoint];
+  }
+
+  await writeAvailability(record, network);
+}
+
+function dayStatus(counts: DayCounts | undefined): AvailabilityStatus {
+  if (!counts || counts.polls === 0) return 'no-data';
+  if (calculatePercent(counts.polls - counts.down, counts.polls) < AVAILABILITY_CONFIG.outageBelow) {
+    return 'outage';
+  }
+  return counts.down > 0 || counts.warning > 0 ? 'degraded' : 'operational';
+}
+
+/**
+ * One bar per day of the period, oldest first, with days never polled
+ * shown as no data
+ */
+function series(name: string, days: Record<string, DayCounts>, now: number): AvailabilitySeries {
+  const bars: AvailabilityDay[] = [];
+  let polls = 0;
+  let down = 0;
+
+  for (let i = AVAILABILITY_CONFIG.days - 1; i >= 0; i--) {
+    const day = dayKey(now - i * DAY_MS);
+    const counts = days[day];
+    bars.push({
+      day,
+      polls: counts?.polls ?? 0,
+      uptime: counts?.polls ? calculatePercent(counts.polls - counts.down, counts.polls) : null,
+      status: dayStatus(counts),
+    });
+    polls += counts?.polls ?? 0;
+    down += counts?.down ?? 0;
+  }
+
+  return { name, uptime: polls > 0 ? calculatePercent(polls - down, polls) : null, days: bars };
+}
+
+/**
+ * Per-day counts of a network derived from its snapshots, each standing for
+ * as many polls as it was downsampled from. Polls that found the network
+ * unreachable stored no snapshot, so they are missing here.
+ */
+async function snapshotDays(network: string, now: number): Promise<Record<string, DayCounts>> {
+  const days: Record<string, DayCounts> = {};
+  const from = now - (AVAILABILITY_CONFIG.days - 1) * DAY_MS;
+
+  for (const summary of await getSnapshotSummaries(from, now, network)) {
+    const day = dayKey(summary.timestamp);
+    const counts = days[day] || (days[day] = { polls: 0, warning: 0, down: 0 });
+    const polls = summary.samples ?? 1;
+    const status = getNetworkHealthSummary(summary.stats).status;
+    counts.polls += polls;
+    if (status === 'critical') counts.down += polls;
+    else if (status === 'warning') counts.warning += polls;
+  }
+  return days;
+}
+
+/**
+ * Daily availability of a network and of each endpoint it is configured with.
+ * Network days recorded before the counts existed, or only partly counted,
+ * come from the snapshots: whichever saw more polls of a day is used.
+ * Endpoint availability is only known from the counts.
+ */
+export async function getAvailability(
+  network = DEFAULT_NETWORK,
+  now = Date.now()
+): Promise<{ network: AvailabilitySeries; endpoints: AvailabilitySeries[] }> {
+  const [record, derived] = await Promise.all([readAvailability(network), snapshotDays(network, now)]);
+
+  const days = { ...record.network };
+  for (const [day, counts] of Object.entries(derived)) {
+    if (counts.polls > (days[day]?.polls ?? 0)) days[day] = counts;
+  }
+
+  return {
+    network: series(network, days, now),
+    endpoints: networkEndpoints(network).map((endpoint) =>
+      series(endpoint, record.endpoints[endpoint] ?? {}, now)
+    ),
+  };
+}
@@ -4,37 +4,12 @@
 // =============================================================================
 
 import { PNodeRaw, PNode, NodeStatus } from '@/types';
-import { PRPC_CONFIG, STATUS_THRESHOLDS, LATEST_VERSION, HEALTH_WEIGHTS } from './constants';
+import { STATUS_THRESHOLDS } from './constants';
+import { getNetwork, withNetwork } from './networks';
 import { formatBytes, formatUptime, parseAddress } from './utils';
-
-/**
- * Calculate health score for a node (client-side version)
- */
-function calculateHealthScore(node: PNodeRaw, status: NodeStatus): number {
-  let score = 0;
-
-  // Uptime factor (30%)
-  const uptimeHours = (node.uptime ?? 0) / 3600;
-  const uptimeScore = Math.min(uptimeHours / 168, 1); // Max at 1 week
-  score += uptimeScore * HEALTH_WEIGHTS.uptime * 100;
-
-  // Recency factor (35%)
-  const now = Math.floor(Date.now() / 1000);
-  const secondsSinceLastSeen = now - node.last_seen_timestamp;
-  const recencyScore = Math.max(0, 1 - secondsSinceLastSeen / 300);
-  score += recencyScore * HEALTH_WEIGHTS.recency * 100;
-
-  // Storage factor (20%)
-  const storagePercent = node.storage_usage_percent ?? 0;
-  const storageScore = storagePercent < 80 ? 1 : storagePercent < 95 ? 0.7 : 0.3;
-  score += storageScore * HEALTH_WEIGHTS.storage * 100;
-
-  // Version factor (15%)
-  const versionScore = node.version === LATEST_VERSION ? 1 : node.version?.startsWith('0.7') ? 0.8 : 0.5;
-  score += versionScore * HEALTH_WEIGHTS.version * 100;
-
-  return Math.round(Math.min(100, Math.max(0, score)));
-}
+import { calculateHealthScore } from './healthScore';
+import { classifyVersion, resolveCurrentRelease } from './versions';
+import { parsePodsResult, summarizeReport } from './prpcSchema';
 
 /**
  * Determine node status based on last seen timestamp
@@ -49,49 +24,48 @@ function determineStatus(lastSeenTimestamp: number): NodeStatus {
 }
 
 /**
- * Transform raw pNode data to processed format
+ * Transform validated pNode data to processed format
  */
-function transformPNode(raw: PNodeRaw): PNode {
+function transformPNode(raw: PNodeRaw, currentRelease: string): PNode {
   const { ip, port } = parseAddress(raw.address);
   const status = determineStatus(raw.last_seen_timestamp);
-
-  const safeRaw = {
-    ...raw,
-    storage_committed: raw.storage_committed ?? 0,
-    storage_used: raw.storage_used ?? 0,
-    storage_usage_percent: raw.storage_usage_percent ?? 0,
-    uptime: raw.uptime ?? 0,
-    rpc_port: raw.rpc_port ?? 6000,
-    is_public: raw.is_public ?? false,
-    version: raw.version ?? 'unknown',
-  };
-
-  const healthScore = calculateHealthScore(safeRaw, status);
+  const healthScore = calculateHealthScore(raw, status, currentRelease);
 
   return {
-    ...safeRaw,
-    id: safeRaw.pubkey,
+    ...raw,
+    id: raw.pubkey,
     ip,
     gossipPort: port,
     status,
+    versionStatus: classifyVersion(raw.version, currentRelease),
     healthScore,
-    lastSeenDate: new Date(safeRaw.last_seen_timestamp * 1000),
-    storageCommittedFormatted: formatBytes(safeRaw.storage_committed),
-    storageUsedFormatted: formatBytes(safeRaw.storage_used),
-    uptimeFormatted: formatUptime(safeRaw.uptime),
+    lastSeenDate: new Date(raw.last_seen_timestamp * 1000),
+    storageCommittedFormatted: formatBytes(raw.storage_committed),
+    storageUsedFormatted: formatBytes(raw.storage_used),
+    uptimeFormatted: formatUptime(raw.uptime),
   };
 }
 
-// Proxy URL - deployed on Vercel as separate project
-const PROXY_URL = 'https://proxy-server-tan.vercel.app';
+/**
+ * Proxy URL for a network - its configured proxy (for the default network
+ * XANDEUM_PROXY_URL, defaulting to the proxy deployed on Vercel; the local
+ * mock server when one is configured), otherwise this app's own /api/proxy
+ */
+function proxyUrl(network?: string): string {
+  const config = getNetwork(network);
+  if (!config) throw new Error(`Unknown network: ${network}`);
+  return config.proxyUrl || withNetwork('/api/proxy', config.name);
+}
 
 /**
  * Fetch pNodes via external proxy (to bypass network restrictions)
+ * @param network - Network to fetch (defaults to the default network)
  */
-export async function fetchPodsClient(): Promise<PNode[]> {
-  console.log('[Client pRPC] Fetching via proxy:', PROXY_URL);
+export async function fetchPodsClient(network?: string): Promise<PNode[]> {
+  const url = proxyUrl(network);
+  console.log('[Client pRPC] Fetching via proxy:', url);
 
-  const response = await fetch(PROXY_URL, {
+  const response = await fetch(url, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -113,23 +87,14 @@ export async function fetchPodsClient(): Promise<PNode[]> {
     throw new Error(data.error.message || data.error || 'pRPC error');
   }
 
-  const result = data.result;
-  let rawPods: PNodeRaw[];
-
-  if (Array.isArray(result)) {
-    rawPods = result;
-  } else if (result && 'pods' in result && Array.isArray(result.pods)) {
-    rawPods = result.pods;
-  } else {
-    rawPods = [];
-  }
-
-  // Filter valid pods and transform
-  const validPods = rawPods.filter(
-    (pod) => pod.pubkey && pod.address && pod.last_seen_timestamp != null
-  );
+  // Handles both { pods: [...] } and a direct array, reporting invalid pods
+  const { pods, report } = parsePodsResult(data.result);
+  const summary = summarizeReport(report);
+  if (summary) console.warn(`[Client pRPC] ${summary}`);
 
-  const nodes = validPods.map(transformPNode);
+  // Versions are measured against the current release across all pods
+  const currentRelease = resolveCurrentRelease(pods.map((pod) => pod.version));
+  const nodes = pods.map((pod) => transformPNode(pod, currentRelease));
   console.log(`[Client pRPC] Success: ${nodes.length} nodes`);
   return nodes;
 }
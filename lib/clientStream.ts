@@ -0,0 +1,116 @@
+// =============================================================================
+// Client-side node stream
+// One shared EventSource per network on /api/stream, opened while any
+// component follows that network
+// =============================================================================
+
+import { NodeChange, StreamMessage } from '@/types';
+import { STREAM_CONFIG } from './constants';
+import { withNetwork } from './networks';
+
+export interface StreamState {
+  // Connected and receiving diffs; polling can pause
+  live: boolean;
+  // The server's last poll failed, so polling resumes until it sends a
+  // fresh snapshot
+  degraded: boolean;
+  // Most recent first, at most STREAM_CONFIG.maxChanges
+  changes: NodeChange[];
+}
+
+interface Connection {
+  source: EventSource;
+  subscribers: number;
+  state: StreamState;
+}
+
+const IDLE: StreamState = { live: false, degraded: false, changes: [] };
+
+// Per network
+const connections = new Map<string, Connection>();
+// Kept across reconnects so the activity feed survives them
+const changeLog = new Map<string, NodeChange[]>();
+const stateListeners = new Set<() => void>();
+
+function setState(connection: Connection, state: Partial<StreamState>): void {
+  connection.state = { ...connection.state, ...state };
+  stateListeners.forEach((listener) => listener());
+}
+
+/**
+ * Follow a network's stream. Every message is passed to onMessage, which
+ * must be the same function for every caller as it is bound once per
+ * connection.
+ * @returns Function to stop following
+ */
+export function openStream(network: string, onMessage: (message: StreamMessage) => void): () => void {
+  if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+    return () => {};
+  }
+
+  let connection = connections.get(network);
+  if (!connection) {
+    const source = new EventSource(withNetwork('/api/stream', network));
+    const created: Connection = {
+      source,
+      subscribers: 0,
+      state: { live: false, degraded: false, changes: changeLog.get(network) ?? [] },
+    };
+
+    const handle = (event: MessageEvent<string>) => {
+      const message: StreamMessage = JSON.parse(event.data);
+      onMessage(message);
+
+      if (message.type === 'snapshot') {
+        setState(created, { live: true, degraded: false });
+      } else if (message.type === 'poll-error') {
+        setState(created, { live: false, degraded: true });
+      } else if (message.type === 'diff' && message.changes.length > 0) {
+        const changes = [...message.changes].reverse().concat(created.state.changes).slice(0, STREAM_CONFIG.maxChanges);
+        changeLog.set(network, changes);
+        setState(created, { changes });
+      }
+    };
+
+    source.addEventListener('snapshot', handle);
+    source.addEventListener('diff', handle);
+    source.addEventListener('poll-error', handle);
+    // EventSource reconnects by itself; poll until the next snapshot
+    source.onerror = () => {
+      if (created.state.live) setState(created, { live: false });
+    };
+
+    connection = created;
+    connections.set(network, connection);
+  }
+
+  const current = connection;
+  current.subscribers++;
+
+  return () => {
+    current.subscribers--;
+    if (current.subscribers === 0) {
+      current.source.close();
+      connections.delete(network);
+      stateListeners.forEach((listener) => listener());
+    }
+  };
+}
+
+/**
+ * Current state of a network's stream, for useSyncExternalStore
+ */
+export function getStreamState(network: string | null): StreamState {
+  if (!network) return IDLE;
+  return connections.get(network)?.state ?? IDLE;
+}
+
+/**
+ * Be told whenever any stream's state changes, for useSyncExternalStore
+ */
+export function subscribeToStreamState(listener: () => void): () => void {
+  stateListeners.add(listener);
+  return () => {
+    stateListeners.delete(listener);
+  };
+}
@@ -0,0 +1,240 @@
+// =============================================================================
+// Background Collector
+// Polls every configured network on a fixed schedule and records snapshots
+// (server-side only)
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import http from 'http';
+import path from 'path';
+import { CollectorStatus, NetworkSnapshot, NodeObservation, PNode } from '@/types';
+import { AVAILABILITY_CONFIG, COLLECTOR_CONFIG } from './constants';
+import { fetchPods, probeEndpoint } from './xandeumClient';
+import { calculateNetworkStats, getNetworkHealthSummary } from './metrics';
+import { recordSnapshot, getLatestSnapshot } from './snapshotStore';
+import { detectRestarts, observeNodes, recordRestarts } from './restarts';
+import { detectEvents, recordEvents } from './events';
+import { runAlertRules } from './alerts';
+import { notifyChannels } from './alertChannels';
+import { unsilencedAlerts, withoutSilenced } from './alertLifecycle';
+import { recordIncidents } from './incidents';
+import { recordAvailability } from './availability';
+import { scheduleDeepStats } from './deepStats';
+import { DEFAULT_NETWORK, NETWORKS, networkEndpoints } from './networks';
+
+let status: CollectorStatus = {
+  pid: process.pid,
+  startedAt: Date.now(),
+  interval: COLLECTOR_CONFIG.interval,
+  pollCount: 0,
+  lastPollAt: null,
+  lastSuccessAt: null,
+  lastDuration: null,
+  lastNodeCount: null,
+  lastError: null,
+  consecutiveFailures: 0,
+};
+
+// Last recorded snapshot per network, compared against each new poll
+const previousSnapshots = new Map<string, NetworkSnapshot | null>();
+
+// Last observation of each node per network, for restart detection
+const nodeObservations = new Map<string, Map<string, NodeObservation>>();
+
+/**
+ * Persist the current status for the Next app to read
+ */
+async function writeStatus(): Promise<void> {
+  const file = COLLECTOR_CONFIG.statusFile;
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write then rename so readers never see a partial file
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(status, null, 2));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+/**
+ * Check whether each endpoint answers, counting one that takes longer than
+ * the probe timeout as down
+ */
+async function probeEndpoints(endpoints: string[]): Promise<Record<string, boolean>> {
+  const probes = await Promise.all(
+    endpoints.map((endpoint) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<boolean>((resolve) => {
+        timeoutId = setTimeout(() => resolve(false), AVAILABILITY_CONFIG.probeTimeout);
+      });
+      return Promise.race([probeEndpoint(endpoint), timeout]).finally(() => clearTimeout(timeoutId));
+    })
+  );
+  return Object.fromEntries(endpoints.map((endpoint, i) => [endpoint, probes[i]]));
+}
+
+/**
+ * Poll a network once, record the result and anything derived from
+ * comparing it with the previous poll
+ */
+export async function runPollCycle(network = DEFAULT_NETWORK): Promise<NetworkSnapshot> {
+  if (!previousSnapshots.has(network)) {
+    previousSnapshots.set(network, await getLatestSnapshot(network));
+  }
+  const previousSnapshot = previousSnapshots.get(network);
+  let observations = nodeObservations.get(network);
+  if (!observations) {
+    observations = new Map();
+    if (previousSnapshot) observeNodes(observations, previousSnapshot);
+    nodeObservations.set(network, observations);
+  }
+
+  // Every entrypoint is checked on each poll for the status page, even
+  // those the pod list is not fetched from. The probes run alongside the
+  // fetch so they do not delay the snapshot.
+  const probes = probeEndpoints(networkEndpoints(network));
+
+  let nodes: PNode[];
+  try {
+    nodes = await fetchPods(undefined, { fresh: true, network });
+  } catch (error) {
+    await recordAvailability('unreachable', await probes, Date.now(), network);
+    throw error;
+  }
+  const endpointsUp = await probes;
+  const snapshot = await recordSnapshot(nodes, calculateNetworkStats(nodes), Date.now(), network);
+  // Stored, so the next poll compares against it even if a step below
+  // fails; otherwise it would record the same restarts and events again
+  previousSnapshots.set(network, snapshot);
+  await recordAvailability(getNetworkHealthSummary(snapshot.stats).status, endpointsUp, snapshot.timestamp, network);
+
+  // Nodes are compared with when they were last seen, not only with the
+  // previous poll, since a restarting node often drops out of gossip
+  const restarts = detectRestarts(observations, snapshot);
+  observeNodes(observations, snapshot);
+  await recordRestarts(restarts, network);
+  if (restarts.length > 0) {
+    console.log(`[Collector] Detected ${restarts.length} restart(s) on ${network}`);
+  }
+
+  if (previousSnapshot) {
+    const events = detectEvents(previousSnapshot, snapshot, restarts);
+    await recordEvents(events, network);
+  }
+
+  // Rules also run on the first poll, so network-wide alerts need no history
+  const alerts = await runAlertRules(previousSnapshot ?? null, snapshot, network);
+  const unsilenced = previousSnapshot
+    ? await unsilencedAlerts(previousSnapshot.timestamp, snapshot.timestamp, network)
+    : [];
+  // Delivery retries can take a while, so they run in the background
+  withoutSilenced(alerts, network)
+    .then((sendable) => notifyChannels([...sendable, ...unsilenced]))
+    .catch((error) => {
+      console.error(`[Collector] Alert notification failed on ${network}:`, error);
+    });
+
+  await recordIncidents(previousSnapshot ?? null, snapshot, network);
+
+  // Per-node system stats are collected less often, in the background
+  scheduleDeepStats(nodes, network);
+
+  return snapshot;
+}
+
+/**
+ * Check whether a collector status is recent enough to count as alive
+ */
+export function isCollectorAlive(collector: CollectorStatus, now = Date.now()): boolean {
+  const lastActivity = collector.lastPollAt ?? collector.startedAt;
+  return now - lastActivity <= collector.interval * COLLECTOR_CONFIG.staleAfterIntervals;
+}
+
+/**
+ * Read the status last published by the collector process
+ */
+export async function readCollectorStatus(): Promise<CollectorStatus | null> {
+  try {
+    return JSON.parse(await fs.readFile(COLLECTOR_CONFIG.statusFile, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Start polling on a fixed schedule and serve GET /health for liveness probes.
+ * Polls never overlap: the next one is scheduled from the start of the last.
+ */
+export function startCollector(): { stop: () => Promise<void> } {
+  let timer: NodeJS.Timeout | null = null;
+  let stopped = false;
+
+  status = { ...status, startedAt: Date.now(), interval: COLLECTOR_CONFIG.interval };
+
+  const poll = async () => {
+    const startedAt = Date.now();
+    status.pollCount++;
+    status.lastPollAt = startedAt;
+
+    // Networks are polled one after another; one failing does not stop the rest
+    const failures: string[] = [];
+    let nodeCount = 0;
+    for (const { name } of NETWORKS) {
+      try {
+        const snapshot = await runPollCycle(name);
+        nodeCount += snapshot.nodes.length;
+        console.log(`[Collector] Recorded ${snapshot.nodes.length} nodes on ${name}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(NETWORKS.length > 1 ? `${name}: ${message}` : message);
+        console.error(`[Collector] Poll failed on ${name}:`, message);
+      }
+    }
+
+    if (failures.length < NETWORKS.length) {
+      status.lastNodeCount = nodeCount;
+    }
+    if (failures.length === 0) {
+      status.lastSuccessAt = Date.now();
+      status.lastError = null;
+      status.consecutiveFailures = 0;
+    } else {
+      status.lastError = failures.join('; ');
+      status.consecutiveFailures++;
+    }
+
+    status.lastDuration = Date.now() - startedAt;
+    await writeStatus().catch((error) => {
+      console.error('[Collector] Failed to write status:', error);
+    });
+
+    if (!stopped) {
+      const wait = Math.max(0, COLLECTOR_CONFIG.interval - (Date.now() - startedAt));
+      timer = setTimeout(poll, wait);
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    if (req.method === 'GET' && req.url === '/health') {
+      const alive = isCollectorAlive(status);
+      res.writeHead(alive ? 200 : 503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ alive, ...status }));
+      return;
+    }
+    res.writeHead(404).end();
+  });
+
+  server.listen(COLLECTOR_CONFIG.port, () => {
+    console.log(`[Collector] Liveness endpoint on :${COLLECTOR_CONFIG.port}/health`);
+  });
+
+  console.log(
+    `[Collector] Polling ${NETWORKS.map((n) => n.name).join(', ')} every ${COLLECTOR_CONFIG.interval / 1000}s`
+  );
+  poll();
+
+  return {
+    stop: async () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,31 @@
+// =============================================================================
+// Runtime Configuration
+// Loaded when the server (or collector) starts, not when the app is built, so
+// changing it only needs a restart. Browsers receive the server's copy from
+// /api/runtime-config, which the root layout loads before the app starts.
+// =============================================================================
+
+import { RuntimeConfig } from '@/types';
+
+declare global {
+  interface Window {
+    __XANDEUM_RUNTIME_CONFIG__?: RuntimeConfig;
+  }
+}
+
+function readRuntimeConfig(): RuntimeConfig {
+  if (typeof window === 'undefined') {
+    // Required here, not imported, so the loader and its fs reads stay out of
+    // browser bundles: the bundler drops this branch from them
+    const { loadRuntimeConfig } = require('../config/load-runtime-config');
+    return loadRuntimeConfig(process.env) as RuntimeConfig;
+  }
+
+  const config = window.__XANDEUM_RUNTIME_CONFIG__;
+  if (!config) {
+    throw new Error('Runtime configuration missing: /api/runtime-config did not load before the app');
+  }
+  return config;
+}
+
+export const RUNTIME_CONFIG: RuntimeConfig = readRuntimeConfig();
@@ -0,0 +1,106 @@
+// =============================================================================
+// Gossip Consensus
+// Merges pod lists from several pRPC endpoints and reports where their views
+// of the network disagree. Pure functions only: safe for edge and client.
+// =============================================================================
+
+import { PNodeRaw, EndpointPods, ConsensusReport, VisibilityGroup } from '@/types';
+import { CONSENSUS_CONFIG } from './constants';
+import { calculatePercent } from './utils';
+
+/**
+ * Merge pod lists by pubkey, keeping the record with the freshest
+ * last_seen_timestamp and noting every endpoint that listed the pod
+ */
+export function mergePods(answers: EndpointPods[]): (PNodeRaw & { seenBy: string[] })[] {
+  const merged = new Map<string, PNodeRaw & { seenBy: string[] }>();
+
+  for (const answer of answers) {
+    for (const pod of answer.pods) {
+      const existing = merged.get(pod.pubkey);
+      if (!existing) {
+        merged.set(pod.pubkey, { ...pod, seenBy: [answer.endpoint] });
+        continue;
+      }
+      if (!existing.seenBy.includes(answer.endpoint)) {
+        existing.seenBy.push(answer.endpoint);
+      }
+      if (pod.last_seen_timestamp > existing.last_seen_timestamp) {
+        merged.set(pod.pubkey, { ...pod, seenBy: existing.seenBy });
+      }
+    }
+  }
+
+  return Array.from(merged.values());
+}
+
+/**
+ * Compare what each endpoint sees against the merged view
+ */
+export function buildConsensusReport(
+  answers: EndpointPods[],
+  merged: { pubkey: string; seenBy: string[] }[],
+  timestamp = Date.now()
+): ConsensusReport {
+  const responding = answers.filter((a) => a.error === null).map((a) => a.endpoint);
+  const totalNodes = merged.length;
+
+  const exclusive = new Map<string, number>();
+  const groups = new Map<string, VisibilityGroup>();
+  const partialNodes: ConsensusReport['partialNodes'] = [];
+
+  for (const node of merged) {
+    if (node.seenBy.length === 1) {
+      exclusive.set(node.seenBy[0], (exclusive.get(node.seenBy[0]) || 0) + 1);
+    }
+
+    const endpoints = responding.filter((e) => node.seenBy.includes(e));
+    const key = endpoints.join('|');
+    const group = groups.get(key);
+    if (group) {
+      group.count++;
+    } else {
+      groups.set(key, { endpoints, count: 1 });
+    }
+
+    if (endpoints.length < responding.length) {
+      partialNodes.push({
+        pubkey: node.pubkey,
+        seenBy: endpoints,
+        missingFrom: responding.filter((e) => !node.seenBy.includes(e)),
+      });
+    }
+  }
+
+  const agreement = calculatePercent(totalNodes - partialNodes.length, totalNodes);
+
+  return {
+    timestamp,
+    endpoints: answers.map((a) => ({
+      endpoint: a.endpoint,
+      ok: a.error === null,
+      error: a.error,
+      latency: a.latency,
+      nodeCount: a.pods.length,
+      coverage: calculatePercent(a.pods.length, totalNodes),
+      exclusiveCount: exclusive.get(a.endpoint) || 0,
+    })),
+    respondingCount: responding.length,
+    totalNodes,
+    agreement,
+    partitioned: responding.length > 1 && totalNodes > 0 && agreement < CONSENSUS_CONFIG.partitionThreshold,
+    groups: Array.from(groups.values()).sort((a, b) => b.count - a.count),
+    partialNodes: partialNodes.sort((a, b) => a.seenBy.length - b.seenBy.length),
+  };
+}
+
+/**
+ * Short label for an endpoint URL (host and port)
+ */
+export function endpointLabel(endpoint: string): string {
+  try {
+    return new URL(endpoint).host;
+  } catch {
+    return endpoint;
+  }
+}
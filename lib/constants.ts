@@ -2,34 +2,290 @@
 // Configuration Constants
 // =============================================================================
 
+import { RUNTIME_CONFIG } from './config';
+
+/**
+ * Local mock pRPC server used instead of the live network (npm run mock-prpc).
+ * When set it is also the only endpoint and the proxy URL.
+ */
+export const MOCK_PRPC_URL = RUNTIME_CONFIG.mockUrl;
+
 /**
  * pRPC endpoint configuration
  */
 export const PRPC_CONFIG = {
   // Primary public entrypoint
-  endpoint: 'http://45.151.122.71:6000/rpc',
+  endpoint: RUNTIME_CONFIG.prpc.endpoints[0],
   // Fallback endpoints (in order of preference)
-  fallbackEndpoints: [
-    'http://192.190.136.36:6000/rpc',
-    'http://62.171.135.107:6000/rpc',
-    'http://173.212.207.32:6000/rpc',
-  ],
+  fallbackEndpoints: RUNTIME_CONFIG.prpc.endpoints.slice(1),
   // Timeout for requests in ms
-  timeout: 10000,
-  // Retry attempts
-  retries: 3,
+  timeout: RUNTIME_CONFIG.prpc.timeout,
+  // Passes over the endpoints after the first one fails
+  retries: RUNTIME_CONFIG.prpc.retries,
   // Retry delay in ms
-  retryDelay: 1000,
+  retryDelay: RUNTIME_CONFIG.prpc.retryDelay,
+  // Pod list mode: 'first' answering endpoint or 'consensus' of all of them
+  mode: RUNTIME_CONFIG.prpc.mode,
+  // Proxy the browser-side fetcher posts to
+  proxyUrl: RUNTIME_CONFIG.proxyUrl,
+};
+
+/**
+ * Endpoint registry: circuit breaker and latency tracking per pRPC endpoint
+ */
+export const ENDPOINT_CONFIG = {
+  // Consecutive failures before an endpoint's circuit opens
+  failureThreshold: parseInt(process.env.ENDPOINT_FAILURE_THRESHOLD || '3', 10),
+  // First cooldown in ms once the circuit opens; doubles on every failed trial
+  baseCooldown: parseInt(process.env.ENDPOINT_BASE_COOLDOWN_MS || '30000', 10),
+  // Longest cooldown in ms
+  maxCooldown: parseInt(process.env.ENDPOINT_MAX_COOLDOWN_MS || '600000', 10),
+  // Recent requests kept per endpoint for success rate and latency percentiles
+  window: 100,
+};
+
+/**
+ * Gossip consensus configuration
+ */
+export const CONSENSUS_CONFIG = {
+  // Flag a likely partition when fewer than this percent of nodes are seen
+  // by every responding endpoint
+  partitionThreshold: parseInt(process.env.CONSENSUS_PARTITION_THRESHOLD || '90', 10),
 };
 
 /**
  * Cache configuration
  */
 export const CACHE_CONFIG = {
-  // Default TTL in seconds
-  ttl: parseInt(process.env.CACHE_TTL || '60', 10),
+  // Pod list TTL in seconds
+  ttl: RUNTIME_CONFIG.cache.pods,
+  // get-stats TTL in seconds
+  statsTtl: RUNTIME_CONFIG.cache.stats,
+  // get-version TTL in seconds
+  versionTtl: RUNTIME_CONFIG.cache.version,
   // Stale-while-revalidate time in seconds
-  swr: 300,
+  swr: RUNTIME_CONFIG.cache.swr,
+};
+
+/**
+ * Root directory for server-side persisted data
+ */
+export const DATA_DIR = process.env.DATA_DIR || '.data';
+
+/**
+ * Snapshot store configuration (server-side only)
+ */
+export const SNAPSHOT_CONFIG = {
+  // Directory holding the append-only snapshot files
+  dir: process.env.SNAPSHOT_DIR || `${DATA_DIR}/snapshots`,
+  // Every poll is kept this many days, then downsampled to hourly
+  rawRetentionDays: parseInt(process.env.SNAPSHOT_RAW_RETENTION_DAYS || '2', 10),
+  // Hourly samples are kept this many days, then downsampled to daily
+  hourlyRetentionDays: parseInt(process.env.SNAPSHOT_HOURLY_RETENTION_DAYS || '30', 10),
+  // Daily samples older than this are deleted
+  dailyRetentionDays: parseInt(process.env.SNAPSHOT_DAILY_RETENTION_DAYS || '365', 10),
+  // Minimum time between compaction runs in ms
+  compactionInterval: 60 * 60 * 1000,
+  // Day files of single-node history kept in memory, per node
+  nodeSeriesCacheSize: 64,
+};
+
+/**
+ * Background collector configuration
+ */
+export const COLLECTOR_CONFIG = {
+  // Time between polls in ms
+  interval: parseInt(process.env.COLLECTOR_INTERVAL_MS || '60000', 10),
+  // Port for the collector's liveness endpoint
+  port: parseInt(process.env.COLLECTOR_PORT || '9464', 10),
+  // Status file shared with the Next app
+  statusFile: process.env.COLLECTOR_STATUS_FILE || `${DATA_DIR}/collector-status.json`,
+  // Collector is considered down after this many missed intervals
+  staleAfterIntervals: 3,
+};
+
+/**
+ * Server-sent event stream of node changes (/api/stream)
+ */
+export const STREAM_CONFIG = {
+  // Time between polls while anyone is subscribed (ms)
+  interval: parseInt(process.env.STREAM_INTERVAL_MS || '30000', 10),
+  // Comment sent to keep idle connections open (ms)
+  heartbeat: 15000,
+  // Recent changes kept in the browser for the activity feed
+  maxChanges: 50,
+};
+
+/**
+ * Mock pRPC server configuration (npm run mock-prpc)
+ */
+export const MOCK_PRPC_CONFIG = {
+  port: parseInt(process.env.MOCK_PRPC_PORT || '6100', 10),
+  // Serve a recorded fixture instead of a synthetic network
+  fixture: process.env.MOCK_PRPC_FIXTURE || '',
+  // Synthetic network: size, seed and churn (state changes per node per minute)
+  nodes: parseInt(process.env.MOCK_PRPC_NODES || '100', 10),
+  seed: parseInt(process.env.MOCK_PRPC_SEED || '42', 10),
+  churn: parseFloat(process.env.MOCK_PRPC_CHURN || '0.02'),
+  // Failure injection, as a fraction of requests (or of pods, for null fields)
+  timeoutRate: parseFloat(process.env.MOCK_PRPC_TIMEOUT_RATE || '0'),
+  errorRate: parseFloat(process.env.MOCK_PRPC_ERROR_RATE || '0'),
+  nullFieldRate: parseFloat(process.env.MOCK_PRPC_NULL_RATE || '0'),
+  // How long a timed-out request hangs before answering (ms)
+  timeoutDelay: parseInt(process.env.MOCK_PRPC_TIMEOUT_MS || '15000', 10),
+};
+
+/**
+ * Restart detection configuration
+ */
+export const RESTART_CONFIG = {
+  // Restarts per node are counted over this window (ms)
+  countWindow: 7 * 24 * 60 * 60 * 1000,
+  // Append-only restart log
+  file: process.env.RESTART_LOG_FILE || `${DATA_DIR}/restarts.jsonl`,
+  // Restarts older than this are dropped from the log
+  retentionDays: parseInt(process.env.RESTART_RETENTION_DAYS || '90', 10),
+  // Minimum time between pruning runs in ms
+  pruneInterval: 24 * 60 * 60 * 1000,
+  // A node missing from gossip this long is forgotten, and its restart
+  // while away goes undetected (ms)
+  forgetAfter: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Node event log
+ */
+export const EVENTS_CONFIG = {
+  // Append-only event log
+  file: process.env.EVENT_LOG_FILE || `${DATA_DIR}/events.jsonl`,
+  // Events older than this are dropped from the log
+  retentionDays: parseInt(process.env.EVENT_RETENTION_DAYS || '30', 10),
+  // Minimum time between pruning runs in ms
+  pruneInterval: 24 * 60 * 60 * 1000,
+  // Events returned by /api/events when no limit is given, and the most allowed
+  defaultLimit: 100,
+  maxLimit: 1000,
+};
+
+/**
+ * Server-side alert rules (config/alert-rules.json), evaluated by the collector
+ */
+export const ALERTS_CONFIG = {
+  // Evaluation state, so pending and firing alerts survive collector restarts
+  stateFile: process.env.ALERT_STATE_FILE || `${DATA_DIR}/alert-state.json`,
+  // Append-only log of alerts firing and resolving
+  logFile: process.env.ALERT_LOG_FILE || `${DATA_DIR}/alerts.jsonl`,
+  // Append-only log of acknowledgements and silences
+  actionsFile: process.env.ALERT_ACTIONS_FILE || `${DATA_DIR}/alert-actions.jsonl`,
+  // Resolved alerts listed by /api/alerts when no range is given (ms)
+  historyWindow: 7 * 24 * 60 * 60 * 1000,
+  // Longest silence allowed (ms)
+  maxSilence: 30 * 24 * 60 * 60 * 1000,
+  // Resolved alerts, acknowledgements and silences that no longer apply,
+  // and deliveries are dropped from the logs after this many days
+  retentionDays: parseInt(process.env.ALERT_RETENTION_DAYS || '30', 10),
+  // Minimum time between pruning runs in ms
+  pruneInterval: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Alert notification channels and delivery
+ */
+export const ALERT_DELIVERY_CONFIG = {
+  // Channel definitions; holds webhook URLs and secrets, so kept out of git
+  channelsFile: process.env.ALERT_CHANNELS_FILE || 'config/alert-channels.json',
+  // Append-only log of delivery attempts
+  logFile: process.env.ALERT_DELIVERY_LOG_FILE || `${DATA_DIR}/alert-deliveries.jsonl`,
+  // Retries after a failed attempt, waiting retryDelay ms and doubling each time
+  retries: parseInt(process.env.ALERT_DELIVERY_RETRIES || '3', 10),
+  retryDelay: parseInt(process.env.ALERT_DELIVERY_RETRY_DELAY_MS || '1000', 10),
+  // Per-attempt timeout in ms
+  timeout: parseInt(process.env.ALERT_DELIVERY_TIMEOUT_MS || '10000', 10),
+  // Deliveries returned by /api/alerts/channels
+  recentDeliveries: 50,
+  // Minimum time between test alerts to the same channel (ms)
+  testCooldown: parseInt(process.env.ALERT_TEST_COOLDOWN_MS || '60000', 10),
+};
+
+/**
+ * Admin API access: acknowledging and silencing alerts and sending test
+ * alerts need this token. Unset, those routes refuse every request.
+ */
+export const ADMIN_CONFIG = {
+  token: process.env.ADMIN_TOKEN || '',
+};
+
+/**
+ * Local alert sink for testing channels (npm run alert-sink)
+ */
+export const ALERT_SINK_CONFIG = {
+  port: parseInt(process.env.ALERT_SINK_PORT || '9465', 10),
+  // Verify webhook signatures with this secret when set
+  secret: process.env.ALERT_SINK_SECRET || '',
+  // Fraction of requests answered with a 500, to exercise retries
+  failRate: parseFloat(process.env.ALERT_SINK_FAIL_RATE || '0'),
+};
+
+/**
+ * Network incidents, opened and closed by the collector
+ */
+export const INCIDENT_CONFIG = {
+  // Every incident of the retention period
+  file: process.env.INCIDENT_FILE || `${DATA_DIR}/incidents.json`,
+  // A mass drop is at least this percent of online nodes going offline or
+  // missing between two polls, and at least massDropMinNodes of them
+  massDropPercent: parseFloat(process.env.INCIDENT_MASS_DROP_PERCENT || '10'),
+  massDropMinNodes: parseInt(process.env.INCIDENT_MASS_DROP_MIN_NODES || '3', 10),
+  // How long the network must stay stable before an incident closes (ms)
+  quietPeriod: parseInt(process.env.INCIDENT_QUIET_PERIOD_MS || '600000', 10),
+  // Incidents older than this are dropped (days)
+  retentionDays: 90,
+  // Groups kept per dimension
+  maxGroups: 5,
+};
+
+/**
+ * Daily availability of each network and its pRPC endpoints (/status)
+ */
+export const AVAILABILITY_CONFIG = {
+  // Per-day poll counts, written by the collector
+  file: process.env.AVAILABILITY_FILE || `${DATA_DIR}/availability.json`,
+  // Days kept and shown
+  days: 90,
+  // A day with a lower share of polls up (percent) is shown as an outage
+  outageBelow: parseFloat(process.env.AVAILABILITY_OUTAGE_BELOW || '90'),
+  // Time an endpoint probe may take before it counts as down (ms)
+  probeTimeout: parseInt(process.env.AVAILABILITY_PROBE_TIMEOUT_MS || String(PRPC_CONFIG.timeout), 10),
+};
+
+/**
+ * Per-node deep stats (get-stats / get-version on each public node's RPC port)
+ */
+export const DEEP_STATS_CONFIG = {
+  // Minimum time between collection sweeps (ms)
+  interval: parseInt(process.env.DEEP_STATS_INTERVAL_MS || '300000', 10),
+  // Nodes queried at the same time
+  concurrency: parseInt(process.env.DEEP_STATS_CONCURRENCY || '8', 10),
+  // Latest stats per node
+  file: process.env.DEEP_STATS_FILE || `${DATA_DIR}/node-stats.json`,
+};
+
+/**
+ * Data quality checks on gossip data
+ */
+export const DATA_QUALITY_CONFIG = {
+  // Allowed gap between storage_usage_percent and used/committed, in percentage points
+  usageTolerance: parseFloat(process.env.DATA_QUALITY_USAGE_TOLERANCE || '1'),
+  // Allowed clock skew before a last_seen_timestamp counts as in the future (seconds)
+  futureTolerance: parseInt(process.env.DATA_QUALITY_FUTURE_TOLERANCE || '60', 10),
+};
+
+/**
+ * Version rollout tracking configuration
+ */
+export const ROLLOUT_CONFIG = {
+  // Nodes still behind a release this many days after it was first seen are laggards
+  laggardGraceDays: parseInt(process.env.ROLLOUT_LAGGARD_GRACE_DAYS || '7', 10),
 };
 
 /**
@@ -43,16 +299,6 @@ export const STATUS_THRESHOLDS = {
   // Beyond this is offline
 };
 
-/**
- * Health score weights (must sum to 1)
- */
-export const HEALTH_WEIGHTS = {
-  uptime: 0.3,
-  recency: 0.35,
-  storage: 0.2,
-  version: 0.15,
-};
-
 /**
  * Storage size constants
  */
@@ -66,9 +312,13 @@ export const STORAGE_UNITS = {
 };
 
 /**
- * Latest known stable version (update as needed)
+ * Release policy: how the current pNode release is determined
  */
-export const LATEST_VERSION = '0.7.3';
+export const VERSION_CONFIG = {
+  // 'observed' (highest stable version in gossip) or 'manifest'
+  // (config/release-manifest.json)
+  policy: RUNTIME_CONFIG.versionPolicy,
+};
 
 /**
  * UI configuration
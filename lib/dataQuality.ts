@@ -0,0 +1,192 @@
+// =============================================================================
+// Data Quality
+// Finds suspect values in gossip data: pods dropped by validation and
+// internally inconsistent fields of the pods that were kept. Pure functions
+// only: safe for edge and client.
+// =============================================================================
+
+import { DataAnomaly, DataAnomalyKind, DataQualityReport, PNodeRaw, ParseReport, SchemaIssue } from '@/types';
+import { DATA_QUALITY_CONFIG } from './constants';
+import { parseAddress } from './utils';
+
+export const ANOMALY_KINDS: DataAnomalyKind[] = [
+  'dropped',
+  'invalid-field',
+  'storage-overcommitted',
+  'usage-mismatch',
+  'future-timestamp',
+  'duplicate-ip',
+  'bad-address',
+];
+
+export const ANOMALY_LABELS: Record<DataAnomalyKind, string> = {
+  dropped: 'Dropped pods',
+  'invalid-field': 'Invalid fields',
+  'storage-overcommitted': 'Used > committed',
+  'usage-mismatch': 'Usage % mismatch',
+  'future-timestamp': 'Future last seen',
+  'duplicate-ip': 'Duplicate IPs',
+  'bad-address': 'Unparseable addresses',
+};
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+
+/**
+ * Why parseAddress cannot make sense of an address, or null if it can.
+ * parseAddress never fails; it falls back to port 9001 and takes whatever
+ * precedes the first colon as the IP.
+ */
+function addressProblem(address: string): string | null {
+  const parts = address.split(':');
+  if (parts.length !== 2) return `expected ip:port, found ${parts.length - 1} colons`;
+
+  const { ip } = parseAddress(address);
+  if (!IPV4.test(ip)) return `"${ip}" is not an IPv4 address`;
+
+  const port = Number(parts[1]);
+  if (!/^\d+$/.test(parts[1]) || port < 1 || port > 65535) {
+    return `"${parts[1]}" is not a port, read as ${parseAddress(address).port}`;
+  }
+  return null;
+}
+
+/**
+ * Anomalies the pod list validation reported: one per dropped pod (its
+ * issues are adjacent in the report) and one per defaulted field
+ */
+function parseAnomalies(parse: ParseReport): DataAnomaly[] {
+  const anomalies: DataAnomaly[] = [];
+  let previous: SchemaIssue | null = null;
+
+  for (const issue of parse.issues) {
+    const samePod = previous?.dropped && issue.dropped && previous.index === issue.index && previous.pubkey === issue.pubkey;
+    previous = issue;
+
+    if (!issue.dropped) {
+      anomalies.push({
+        kind: 'invalid-field',
+        pubkey: issue.pubkey,
+        field: issue.field,
+        value: issue.value,
+        detail: `${issue.problem}, defaulted`,
+        related: [],
+      });
+    } else if (samePod) {
+      const dropped = anomalies[anomalies.length - 1];
+      dropped.field += `, ${issue.field}`;
+      dropped.detail += `; ${issue.field} ${issue.problem}`;
+    } else {
+      anomalies.push({
+        kind: 'dropped',
+        pubkey: issue.pubkey,
+        field: issue.field,
+        value: issue.value,
+        detail: `${issue.index !== null ? `Pod #${issue.index}: ` : ''}${issue.field} ${issue.problem}`,
+        related: [],
+      });
+    }
+  }
+
+  return anomalies;
+}
+
+/**
+ * Anomalies within a single pod
+ */
+function podAnomalies(pod: PNodeRaw, nowSeconds: number): DataAnomaly[] {
+  const anomalies: DataAnomaly[] = [];
+  const add = (kind: DataAnomalyKind, field: string, value: unknown, detail: string) =>
+    anomalies.push({ kind, pubkey: pod.pubkey, field, value, detail, related: [] });
+
+  if (pod.storage_used > pod.storage_committed) {
+    add(
+      'storage-overcommitted',
+      'storage_used',
+      pod.storage_used,
+      `Uses ${pod.storage_used} bytes of ${pod.storage_committed} committed`
+    );
+  }
+
+  if (pod.storage_committed > 0) {
+    const expected = (pod.storage_used / pod.storage_committed) * 100;
+    if (Math.abs(pod.storage_usage_percent - expected) > DATA_QUALITY_CONFIG.usageTolerance) {
+      add(
+        'usage-mismatch',
+        'storage_usage_percent',
+        pod.storage_usage_percent,
+        `Reports ${pod.storage_usage_percent.toFixed(2)}%, used/committed is ${expected.toFixed(2)}%`
+      );
+    }
+  }
+
+  const ahead = pod.last_seen_timestamp - nowSeconds;
+  if (ahead > DATA_QUALITY_CONFIG.futureTolerance) {
+    add('future-timestamp', 'last_seen_timestamp', pod.last_seen_timestamp, `${ahead}s in the future`);
+  }
+
+  const problem = addressProblem(pod.address);
+  if (problem) add('bad-address', 'address', pod.address, problem);
+
+  return anomalies;
+}
+
+/**
+ * One anomaly per IP address gossiped by more than one pubkey
+ */
+function duplicateIps(pods: PNodeRaw[]): DataAnomaly[] {
+  const byIp = new Map<string, Set<string>>();
+  for (const pod of pods) {
+    const { ip } = parseAddress(pod.address);
+    const pubkeys = byIp.get(ip) ?? new Set<string>();
+    pubkeys.add(pod.pubkey);
+    byIp.set(ip, pubkeys);
+  }
+
+  return Array.from(byIp.entries())
+    .filter(([, pubkeys]) => pubkeys.size > 1)
+    .map(([ip, pubkeys]) => ({
+      kind: 'duplicate-ip' as const,
+      pubkey: null,
+      field: 'address',
+      value: ip,
+      detail: `Shared by ${pubkeys.size} pubkeys`,
+      related: Array.from(pubkeys),
+    }));
+}
+
+/**
+ * Check a network's validated pod list, together with the validation
+ * report of the pRPC result it came from
+ */
+export function buildDataQualityReport(
+  pods: PNodeRaw[],
+  parse: ParseReport | null,
+  network: string,
+  now = Date.now()
+): DataQualityReport {
+  const nowSeconds = Math.floor(now / 1000);
+  const anomalies = [
+    ...(parse ? parseAnomalies(parse) : []),
+    ...pods.flatMap((pod) => podAnomalies(pod, nowSeconds)),
+    ...duplicateIps(pods),
+  ];
+
+  const counts = Object.fromEntries(ANOMALY_KINDS.map((kind) => [kind, 0])) as Record<DataAnomalyKind, number>;
+  const affected = new Set<string>();
+  for (const anomaly of anomalies) {
+    counts[anomaly.kind]++;
+    if (anomaly.pubkey) affected.add(anomaly.pubkey);
+    anomaly.related.forEach((pubkey) => affected.add(pubkey));
+  }
+
+  return {
+    timestamp: now,
+    network,
+    received: parse?.received ?? pods.length,
+    checked: pods.length,
+    affectedPods: affected.size,
+    counts,
+    anomalies,
+    parse,
+  };
+}
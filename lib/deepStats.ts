@@ -0,0 +1,170 @@
+// =============================================================================
+// Deep Stats
+// Queries each public node's own RPC port for get-stats and get-version on a
+// bounded-concurrency schedule, keeping the latest result per node
+// (server-side only)
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { PNode, NodeDeepStats } from '@/types';
+import { DEEP_STATS_CONFIG, MOCK_PRPC_URL } from './constants';
+import { fetchStats, fetchVersion } from './xandeumClient';
+import { mapWithConcurrency } from './utils';
+import { DEFAULT_NETWORK, networkDataPath } from './networks';
+
+// Per network
+const sweepsInFlight = new Set<string>();
+const lastSweepAt = new Map<string, number>();
+
+/**
+ * RPC URL of a node's own pRPC server. The mock server answers for every
+ * node, picked by pubkey.
+ */
+function nodeEndpoint(node: PNode): string {
+  if (MOCK_PRPC_URL) return `${MOCK_PRPC_URL}?pubkey=${node.pubkey}`;
+  return `http://${node.ip}:${node.rpc_port}/rpc`;
+}
+
+/**
+ * Packets per second between two successful collections, or null if the
+ * counters went backwards (the node restarted)
+ */
+function throughput(
+  previous: NodeDeepStats | undefined,
+  next: NonNullable<NodeDeepStats['stats']>,
+  now: number
+): NodeDeepStats['throughput'] {
+  if (!previous?.stats || !previous.lastSuccessAt) return null;
+
+  const seconds = (now - previous.lastSuccessAt) / 1000;
+  const recv = next.packets_recv - previous.stats.packets_recv;
+  const sent = next.packets_sent - previous.stats.packets_sent;
+  if (seconds <= 0 || recv < 0 || sent < 0) return null;
+
+  return {
+    packetsInPerSec: Math.round((recv / seconds) * 10) / 10,
+    packetsOutPerSec: Math.round((sent / seconds) * 10) / 10,
+  };
+}
+
+/**
+ * Query one node, keeping its previous data if the query fails
+ */
+async function collectNode(node: PNode, previous: NodeDeepStats | undefined): Promise<NodeDeepStats> {
+  const endpoint = nodeEndpoint(node);
+  const now = Date.now();
+
+  try {
+    const [stats, version] = await Promise.all([
+      fetchStats(endpoint, { fresh: true }),
+      fetchVersion(endpoint, { fresh: true }).catch(() => null),
+    ]);
+
+    return {
+      pubkey: node.pubkey,
+      endpoint,
+      collectedAt: now,
+      lastSuccessAt: now,
+      error: null,
+      version: version?.version ?? null,
+      stats: stats.stats,
+      fileSize: stats.file_size,
+      throughput: throughput(previous, stats.stats, now),
+    };
+  } catch (error) {
+    return {
+      pubkey: node.pubkey,
+      endpoint,
+      collectedAt: now,
+      lastSuccessAt: previous?.lastSuccessAt ?? null,
+      error: error instanceof Error ? error.message : String(error),
+      version: previous?.version ?? null,
+      stats: previous?.stats ?? null,
+      fileSize: previous?.fileSize ?? null,
+      throughput: previous?.throughput ?? null,
+    };
+  }
+}
+
+/**
+ * Read the latest deep stats for every node of a network, keyed by pubkey
+ */
+export async function readDeepStats(network = DEFAULT_NETWORK): Promise<Record<string, NodeDeepStats>> {
+  try {
+    return JSON.parse(await fs.readFile(networkDataPath(DEEP_STATS_CONFIG.file, network), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+/**
+ * Latest deep stats for one node, if it has ever been collected
+ */
+export async function getNodeDeepStats(
+  pubkey: string,
+  network = DEFAULT_NETWORK
+): Promise<NodeDeepStats | null> {
+  return (await readDeepStats(network))[pubkey] ?? null;
+}
+
+async function writeDeepStats(stats: Record<string, NodeDeepStats>, network: string): Promise<void> {
+  const file = networkDataPath(DEEP_STATS_CONFIG.file, network);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write then rename so readers never see a partial file
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(stats));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+/**
+ * Query every public, reachable node and store the results. Nodes that are
+ * no longer public or no longer in gossip are dropped.
+ */
+export async function collectDeepStats(
+  nodes: PNode[],
+  network = DEFAULT_NETWORK
+): Promise<Record<string, NodeDeepStats>> {
+  const previous = await readDeepStats(network);
+  const targets = nodes.filter((n) => n.is_public && n.status !== 'offline');
+
+  const results = await mapWithConcurrency(targets, DEEP_STATS_CONFIG.concurrency, (node) =>
+    collectNode(node, previous[node.pubkey])
+  );
+
+  const stats = Object.fromEntries(results.map((r) => [r.pubkey, r]));
+  await writeDeepStats(stats, network);
+  return stats;
+}
+
+/**
+ * Start a collection sweep in the background if one is due and none is
+ * running, so slow nodes never delay the poll that triggered it
+ * @returns Whether a sweep was started
+ */
+export function scheduleDeepStats(
+  nodes: PNode[],
+  network = DEFAULT_NETWORK,
+  now = Date.now()
+): boolean {
+  if (sweepsInFlight.has(network)) return false;
+  if (now - (lastSweepAt.get(network) ?? 0) < DEEP_STATS_CONFIG.interval) return false;
+
+  sweepsInFlight.add(network);
+  lastSweepAt.set(network, now);
+
+  collectDeepStats(nodes, network)
+    .then((stats) => {
+      const values = Object.values(stats);
+      const failed = values.filter((s) => s.error).length;
+      console.log(`[Collector] Deep stats (${network}): ${values.length - failed}/${values.length} nodes answered`);
+    })
+    .catch((error) => {
+      console.error(`[Collector] Deep stats sweep failed (${network}):`, error);
+    })
+    .finally(() => {
+      sweepsInFlight.delete(network);
+    });
+
+  return true;
+}
@@ -0,0 +1,195 @@
+// =============================================================================
+// Endpoint Registry
+// Per-endpoint success rate, latency and circuit breaker for pRPC endpoints.
+// State lives in memory, so each server process keeps its own view.
+// =============================================================================
+
+import { CircuitState, EndpointHealth } from '@/types';
+import { ENDPOINT_CONFIG } from './constants';
+import { calculatePercent } from './utils';
+
+interface Outcome {
+  ok: boolean;
+  latency: number; // ms
+}
+
+interface EndpointState {
+  outcomes: Outcome[]; // Most recent last, at most ENDPOINT_CONFIG.window
+  consecutiveFailures: number;
+  opens: number; // Times the circuit opened in a row without a success
+  retryAt: number | null; // Set while the circuit is open or half-open
+  trialInFlight: boolean;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastSuccessAt: number | null;
+}
+
+const registry = new Map<string, EndpointState>();
+
+/**
+ * Get or create the state for an endpoint
+ */
+function getState(endpoint: string): EndpointState {
+  let state = registry.get(endpoint);
+  if (!state) {
+    state = {
+      outcomes: [],
+      consecutiveFailures: 0,
+      opens: 0,
+      retryAt: null,
+      trialInFlight: false,
+      lastError: null,
+      lastErrorAt: null,
+      lastSuccessAt: null,
+    };
+    registry.set(endpoint, state);
+  }
+  return state;
+}
+
+function circuitState(state: EndpointState, now: number): CircuitState {
+  if (state.retryAt === null) return 'closed';
+  return now < state.retryAt ? 'open' : 'half-open';
+}
+
+/**
+ * Cooldown after the nth consecutive opening: doubles each time, capped
+ */
+function cooldown(opens: number): number {
+  return Math.min(ENDPOINT_CONFIG.baseCooldown * 2 ** (opens - 1), ENDPOINT_CONFIG.maxCooldown);
+}
+
+/**
+ * Nearest-rank percentile of ascending values
+ */
+function percentile(sorted: number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(0, rank - 1)];
+}
+
+function pushOutcome(state: EndpointState, outcome: Outcome): void {
+  state.outcomes.push(outcome);
+  if (state.outcomes.length > ENDPOINT_CONFIG.window) {
+    state.outcomes.shift();
+  }
+}
+
+function recordSuccess(endpoint: string, latency: number): void {
+  const state = getState(endpoint);
+  pushOutcome(state, { ok: true, latency });
+  state.consecutiveFailures = 0;
+  state.opens = 0;
+  state.retryAt = null;
+  state.lastSuccessAt = Date.now();
+}
+
+function recordFailure(endpoint: string, error: string, latency: number): void {
+  const state = getState(endpoint);
+  const now = Date.now();
+  const wasTrial = circuitState(state, now) === 'half-open';
+
+  pushOutcome(state, { ok: false, latency });
+  state.consecutiveFailures++;
+  state.lastError = error;
+  state.lastErrorAt = now;
+
+  // A failed trial reopens the circuit for longer; otherwise it opens once
+  // the failure threshold is reached
+  if (wasTrial || (state.retryAt === null && state.consecutiveFailures >= ENDPOINT_CONFIG.failureThreshold)) {
+    state.opens++;
+    state.retryAt = now + cooldown(state.opens);
+  }
+}
+
+/**
+ * Whether a request may be sent to an endpoint now: its circuit is closed,
+ * or half-open with no trial request already running
+ */
+export function isEndpointAvailable(endpoint: string, now = Date.now()): boolean {
+  const state = getState(endpoint);
+  const circuit = circuitState(state, now);
+  return circuit === 'closed' || (circuit === 'half-open' && !state.trialInFlight);
+}
+
+/**
+ * Run a request against an endpoint, recording its outcome and latency
+ */
+export async function trackRequest<T>(endpoint: string, request: () => Promise<T>): Promise<T> {
+  const state = getState(endpoint);
+  const isTrial = circuitState(state, Date.now()) === 'half-open';
+  if (isTrial) state.trialInFlight = true;
+
+  const started = Date.now();
+  try {
+    const result = await request();
+    recordSuccess(endpoint, Date.now() - started);
+    return result;
+  } catch (error) {
+    recordFailure(endpoint, error instanceof Error ? error.message : String(error), Date.now() - started);
+    throw error;
+  } finally {
+    if (isTrial) state.trialInFlight = false;
+  }
+}
+
+/**
+ * Observed health of an endpoint
+ */
+export function getEndpointHealth(endpoint: string, now = Date.now()): EndpointHealth {
+  const state = getState(endpoint);
+  const successes = state.outcomes.filter((o) => o.ok);
+  const latencies = successes.map((o) => o.latency).sort((a, b) => a - b);
+
+  return {
+    endpoint,
+    circuit: circuitState(state, now),
+    requests: state.outcomes.length,
+    successRate: calculatePercent(successes.length, state.outcomes.length),
+    latency:
+      latencies.length > 0
+        ? {
+            p50: percentile(latencies, 50),
+            p90: percentile(latencies, 90),
+            p99: percentile(latencies, 99),
+          }
+        : null,
+    consecutiveFailures: state.consecutiveFailures,
+    lastError: state.lastError,
+    lastErrorAt: state.lastErrorAt,
+    lastSuccessAt: state.lastSuccessAt,
+    retryAt: state.retryAt,
+  };
+}
+
+/**
+ * Order endpoints by observed health: available endpoints first, by success
+ * rate then median latency, with untried endpoints kept in config order after
+ * the proven ones. Unavailable endpoints follow, soonest retry first.
+ */
+export function rankEndpoints(endpoints: string[], now = Date.now()): EndpointHealth[] {
+  const health = endpoints.map((e) => getEndpointHealth(e, now));
+
+  const available = health
+    .filter((h) => isEndpointAvailable(h.endpoint, now))
+    .sort((a, b) => {
+      if (a.requests === 0 || b.requests === 0) return (a.requests === 0 ? 1 : 0) - (b.requests === 0 ? 1 : 0);
+      return b.successRate - a.successRate || (a.latency?.p50 ?? Infinity) - (b.latency?.p50 ?? Infinity);
+    });
+
+  const unavailable = health
+    .filter((h) => !isEndpointAvailable(h.endpoint, now))
+    .sort((a, b) => (a.retryAt ?? 0) - (b.retryAt ?? 0));
+
+  return [...available, ...unavailable];
+}
+
+/**
+ * Endpoints to try for a request, best first. When every circuit is open,
+ * only the endpoint due to retry soonest is returned, so a request still
+ * gets one chance without hammering endpoints that are down.
+ */
+export function endpointsToTry(endpoints: string[], now = Date.now()): string[] {
+  const ranked = rankEndpoints(endpoints, now);
+  const available = ranked.filter((h) => isEndpointAvailable(h.endpoint, now));
+  return (available.length > 0 ? available : ranked.slice(0, 1)).map((h) => h.endpoint);
+}
@@ -0,0 +1,171 @@
+// =============================================================================
+// Node Events
+// Derives what happened to each node between consecutive snapshots and keeps
+// an append-only log of it (server-side only)
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NetworkSnapshot, NodeEvent, NodeEventType, NodeSnapshot, RestartEvent } from '@/types';
+import { EVENTS_CONFIG } from './constants';
+import { DEFAULT_NETWORK, networkDataPath } from './networks';
+import { compareVersions } from './versions';
+import { pruneLines, readLinesBackward } from './jsonl';
+
+// Per network
+const lastPrune = new Map<string, number>();
+
+export const NODE_EVENT_TYPES: NodeEventType[] = [
+  'joined',
+  'left',
+  'degraded',
+  'offline',
+  'recovered',
+  'upgraded',
+  'downgraded',
+  'restarted',
+  'storage-changed',
+];
+
+function nodeEvent(
+  type: NodeEventType,
+  pubkey: string,
+  timestamp: number,
+  from: NodeEvent['from'],
+  to: NodeEvent['to']
+): NodeEvent {
+  return { id: `${timestamp}-${pubkey}-${type}`, type, pubkey, timestamp, from, to };
+}
+
+/**
+ * Events for a node seen in both snapshots
+ */
+function nodeChanges(previous: NodeSnapshot, current: NodeSnapshot, timestamp: number): NodeEvent[] {
+  const events: NodeEvent[] = [];
+
+  if (previous.status !== current.status) {
+    const type = current.status === 'online' ? 'recovered' : current.status;
+    events.push(nodeEvent(type, current.pubkey, timestamp, previous.status, current.status));
+  }
+
+  if (previous.version !== current.version) {
+    const type = compareVersions(current.version, previous.version) > 0 ? 'upgraded' : 'downgraded';
+    events.push(nodeEvent(type, current.pubkey, timestamp, previous.version, current.version));
+  }
+
+  if (previous.storage_committed !== current.storage_committed) {
+    events.push(
+      nodeEvent('storage-changed', current.pubkey, timestamp, previous.storage_committed, current.storage_committed)
+    );
+  }
+
+  return events;
+}
+
+/**
+ * Find every event between two consecutive network snapshots. Restarts are
+ * detected separately (see detectRestarts) and passed in.
+ */
+export function detectEvents(
+  previous: NetworkSnapshot,
+  current: NetworkSnapshot,
+  restarts: RestartEvent[] = []
+): NodeEvent[] {
+  const previousNodes = new Map(previous.nodes.map((n) => [n.pubkey, n]));
+  const currentKeys = new Set(current.nodes.map((n) => n.pubkey));
+  const timestamp = current.timestamp;
+  const events: NodeEvent[] = [];
+
+  for (const node of current.nodes) {
+    const before = previousNodes.get(node.pubkey);
+    if (before) {
+      events.push(...nodeChanges(before, node, timestamp));
+    } else {
+      events.push(nodeEvent('joined', node.pubkey, timestamp, null, node.status));
+    }
+  }
+
+  for (const node of previous.nodes) {
+    if (!currentKeys.has(node.pubkey)) {
+      events.push(nodeEvent('left', node.pubkey, timestamp, node.status, null));
+    }
+  }
+
+  for (const restart of restarts) {
+    events.push(nodeEvent('restarted', restart.pubkey, timestamp, restart.uptimeBefore, restart.uptimeAfter));
+  }
+
+  return events;
+}
+
+/**
+ * Drop events older than the retention period from a network's log
+ */
+async function pruneEvents(file: string, now: number): Promise<void> {
+  const cutoff = now - EVENTS_CONFIG.retentionDays * 24 * 60 * 60 * 1000;
+  const dropped = await pruneLines(file, (line) => {
+    try {
+      return (JSON.parse(line) as NodeEvent).timestamp >= cutoff;
+    } catch {
+      // A torn last line from an interrupted write; skip it
+      return false;
+    }
+  });
+  if (dropped > 0) console.log(`[Events] Pruned ${dropped} events from ${file}`);
+}
+
+/**
+ * Append events to a network's event log, pruning it once a day
+ */
+export async function recordEvents(
+  events: NodeEvent[],
+  network = DEFAULT_NETWORK,
+  now = Date.now()
+): Promise<void> {
+  const file = networkDataPath(EVENTS_CONFIG.file, network);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  if (events.length > 0) {
+    await fs.appendFile(
+      file,
+      events.map((e) => JSON.stringify(e)).join('\n') + '\n'
+    );
+  }
+
+  if (now - (lastPrune.get(network) ?? 0) >= EVENTS_CONFIG.pruneInterval) {
+    lastPrune.set(network, now);
+    await pruneEvents(file, now);
+  }
+}
+
+/**
+ * Read events, newest first. The log is appended in time order, so it is
+ * read from its end and reading stops at `limit` events or the first event
+ * before `from`.
+ */
+export async function getEvents(filter: {
+  pubkey?: string;
+  types?: NodeEventType[];
+  from?: number;
+  to?: number;
+  limit?: number;
+  network?: string;
+} = {}): Promise<NodeEvent[]> {
+  const events: NodeEvent[] = [];
+  if (filter.limit === 0) return events;
+
+  for await (const line of readLinesBackward(networkDataPath(EVENTS_CONFIG.file, filter.network))) {
+    try {
+      const event: NodeEvent = JSON.parse(line);
+      if (filter.from !== undefined && event.timestamp < filter.from) break;
+      if (filter.pubkey && event.pubkey !== filter.pubkey) continue;
+      if (filter.types && !filter.types.includes(event.type)) continue;
+      if (filter.to !== undefined && event.timestamp > filter.to) continue;
+      events.push(event);
+      if (events.length === filter.limit) break;
+    } catch {
+      // A torn last line from an interrupted write; skip it
+    }
+  }
+
+  return events;
+}
@@ -23,6 +23,11 @@ interface GeoCache {
 const geoCache: GeoCache = {};
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
+// IPs whose lookup failed or timed out, so polls don't retry them every time
+const failedLookups = new Map<string, number>();
+const RETRY_DELAY = 10 * 60 * 1000; // 10 minutes
+const LOOKUP_TIMEOUT = 5000; // ip-api.com sometimes hangs; don't wait on it
+
 // Batch queue for rate limiting
 let batchQueue: string[] = [];
 let batchTimeout: NodeJS.Timeout | null = null;
@@ -37,7 +42,9 @@ export async function getGeoLocation(ip: string): Promise<GeoLocation | null> {
   }
 
   try {
-    const response = await fetch(`http://ip-api.com/json/${ip}?fields=status,lat,lon,city,regionName,country,countryCode,isp,timezone`);
+    const response = await fetch(`http://ip-api.com/json/${ip}?fields=status,lat,lon,city,regionName,country,countryCode,isp,timezone`, {
+      signal: AbortSignal.timeout(LOOKUP_TIMEOUT),
+    });
     const data = await response.json();
 
     if (data.status === 'success') {
@@ -77,27 +84,26 @@ export async function getGeoLocationBatch(ips: string[]): Promise<Map<string, Ge
     const cached = geoCache[ip];
     if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
       results.set(ip, cached.data);
-    } else {
+    } else if (Date.now() - (failedLookups.get(ip) ?? 0) >= RETRY_DELAY) {
       uncachedIps.push(ip);
     }
   }
 
-  // If all IPs are cached, return immediately
+  // If all IPs are cached (or recently failed), return immediately
   if (uncachedIps.length === 0) {
     return results;
   }
 
   // Batch request for uncached IPs
+  const batchIps = uncachedIps.slice(0, MAX_BATCH_SIZE);
   try {
-    const batchSize = Math.min(uncachedIps.length, MAX_BATCH_SIZE);
-    const batchIps = uncachedIps.slice(0, batchSize);
-
     const response = await fetch('http://ip-api.com/batch?fields=status,query,lat,lon,city,regionName,country,countryCode,isp,timezone', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify(batchIps),
+      signal: AbortSignal.timeout(LOOKUP_TIMEOUT),
     });
 
     const data = await response.json();
@@ -122,11 +128,16 @@ export async function getGeoLocationBatch(ips: string[]): Promise<Map<string, Ge
             timestamp: Date.now(),
           };
           results.set(item.query, location);
+          failedLookups.delete(item.query);
         }
       }
     }
+    for (const ip of batchIps) {
+      if (!results.has(ip)) failedLookups.set(ip, Date.now());
+    }
   } catch (error) {
     console.error('Batch GeoIP lookup failed:', error);
+    for (const ip of batchIps) failedLookups.set(ip, Date.now());
   }
 
   return results;
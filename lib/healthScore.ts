@@ -0,0 +1,273 @@
+// =============================================================================
+// Health Score Engine
+// The one scoring algorithm shared by API routes, client hooks and exports.
+// Pure functions only: safe to import on both server and client.
+// =============================================================================
+
+import {
+  PNode,
+  PNodeRaw,
+  NodeStatus,
+  HealthFactors,
+  HealthProfile,
+  HealthExplanation,
+  HealthFactorExplanation,
+  VersionStatus,
+} from '@/types';
+import { classifyVersion, resolveCurrentRelease } from './versions';
+import { clamp, formatUptime, formatRelativeTime } from './utils';
+import profilesConfig from '@/config/health-profiles.json';
+
+/**
+ * Version of the scoring algorithm. Bump whenever a change would give the
+ * same node a different score under the same profile, so stored and exported
+ * scores stay comparable.
+ */
+export const HEALTH_SCORE_VERSION = 4;
+
+/**
+ * Check a profile from the config file, failing loudly on mistakes that
+ * would otherwise produce silently wrong scores
+ */
+function loadProfile(name: string, profile: Omit<HealthProfile, 'name'>): HealthProfile {
+  const weights = Object.values(profile.weights);
+  if (weights.some((w) => w < 0) || weights.reduce((sum, w) => sum + w, 0) <= 0) {
+    throw new Error(`Health profile "${name}": weights must be non-negative and not all zero`);
+  }
+  if (profile.uptimeCapDays <= 0) {
+    throw new Error(`Health profile "${name}": uptimeCapDays must be positive`);
+  }
+  if (profile.storageBands.length === 0) {
+    throw new Error(`Health profile "${name}": at least one storage band is required`);
+  }
+
+  return {
+    ...profile,
+    name,
+    storageBands: [...profile.storageBands].sort((a, b) => a.upTo - b.upTo),
+  };
+}
+
+/**
+ * All configured scoring profiles, keyed by name
+ */
+export const HEALTH_PROFILES: Record<string, HealthProfile> = Object.fromEntries(
+  Object.entries(profilesConfig.profiles).map(([name, profile]) => [
+    name,
+    loadProfile(name, profile),
+  ])
+);
+
+/**
+ * Profile used when none is requested
+ */
+export const DEFAULT_HEALTH_PROFILE: HealthProfile = HEALTH_PROFILES[profilesConfig.defaultProfile];
+
+if (!DEFAULT_HEALTH_PROFILE) {
+  throw new Error(`Default health profile "${profilesConfig.defaultProfile}" is not defined`);
+}
+
+/**
+ * Look up a profile by name; an empty name means the default profile.
+ * Returns null for unknown names.
+ */
+export function getHealthProfile(name?: string | null): HealthProfile | null {
+  if (!name) return DEFAULT_HEALTH_PROFILE;
+  return HEALTH_PROFILES[name] ?? null;
+}
+
+/**
+ * Calculate individual health factors (each 0-100)
+ * @param currentRelease - Release the node's version is measured against
+ */
+export function calculateHealthFactors(
+  node: PNodeRaw,
+  status: NodeStatus,
+  currentRelease: string,
+  profile: HealthProfile = DEFAULT_HEALTH_PROFILE
+): HealthFactors {
+  // Uptime factor: longer uptime = better, up to the profile's cap
+  const maxUptime = profile.uptimeCapDays * 24 * 60 * 60;
+  const uptimeFactor = clamp((node.uptime / maxUptime) * 100, 0, 100);
+
+  // Recency factor: based on status
+  const recencyFactor = profile.recency[status];
+
+  // Storage factor: first band the utilization fits in; anything above the
+  // last band scores like the last band
+  const utilization = node.storage_usage_percent;
+  const band =
+    profile.storageBands.find((b) => utilization <= b.upTo) ??
+    profile.storageBands[profile.storageBands.length - 1];
+  const storageFactor = band.score;
+
+  // Version factor: by how far behind the current release the node is
+  const versionFactor = profile.version[classifyVersion(node.version, currentRelease)];
+
+  return {
+    uptime: uptimeFactor,
+    recency: recencyFactor,
+    storage: storageFactor,
+    version: versionFactor,
+  };
+}
+
+/**
+ * Calculate health score for a pNode (0-100)
+ * Factors: uptime, recency (last seen), storage utilization, version currency
+ */
+export function calculateHealthScore(
+  node: PNodeRaw,
+  status: NodeStatus,
+  currentRelease: string,
+  profile: HealthProfile = DEFAULT_HEALTH_PROFILE
+): number {
+  const factors = calculateHealthFactors(node, status, currentRelease, profile);
+  const { weights } = profile;
+  const totalWeight = weights.uptime + weights.recency + weights.storage + weights.version;
+
+  const score =
+    (factors.uptime * weights.uptime +
+      factors.recency * weights.recency +
+      factors.storage * weights.storage +
+      factors.version * weights.version) /
+    totalWeight;
+
+  return Math.round(clamp(score, 0, 100));
+}
+
+// How each version status reads in an explanation
+const VERSION_STATUS_RULES: Record<VersionStatus, string> = {
+  current: 'Current release',
+  'patch-behind': 'Older patch of the current release',
+  'one-minor-behind': 'One minor release behind',
+  unsupported: 'Unsupported release',
+};
+
+/**
+ * Lower bound (exclusive) of a storage band: the previous band's upper bound
+ */
+function bandFloor(profile: HealthProfile, band: HealthProfile['storageBands'][number]): number {
+  const index = profile.storageBands.indexOf(band);
+  return index > 0 ? profile.storageBands[index - 1].upTo : 0;
+}
+
+/**
+ * Explain a node's health score: for each factor, the input, the rule it fell
+ * under, the points it cost and the action that would win them back.
+ * Recoverable points are measured by re-scoring the node as if the action
+ * had been taken, so they add up against the displayed (rounded) score.
+ */
+export function explainHealthScore(
+  node: PNodeRaw,
+  status: NodeStatus,
+  currentRelease: string,
+  profile: HealthProfile = DEFAULT_HEALTH_PROFILE
+): HealthExplanation {
+  const score = calculateHealthScore(node, status, currentRelease, profile);
+  const factors = calculateHealthFactors(node, status, currentRelease, profile);
+  const { weights } = profile;
+  const totalWeight = weights.uptime + weights.recency + weights.storage + weights.version;
+
+  const explain = (
+    factor: keyof HealthFactors,
+    input: number | string,
+    rule: string,
+    action: string | null,
+    improved: PNodeRaw,
+    improvedStatus: NodeStatus = status
+  ): HealthFactorExplanation => {
+    const weight = weights[factor] / totalWeight;
+    const recoverable = action
+      ? calculateHealthScore(improved, improvedStatus, currentRelease, profile) - score
+      : 0;
+    return {
+      factor,
+      input,
+      rule,
+      factorScore: Math.round(factors[factor]),
+      weight: Math.round(weight * 1000) / 1000,
+      pointsLost: Math.round((100 - factors[factor]) * weight * 10) / 10,
+      action: recoverable > 0 ? action : null,
+      recoverablePoints: Math.max(0, recoverable),
+    };
+  };
+
+  // Uptime: only time recovers these points
+  const maxUptime = profile.uptimeCapDays * 24 * 60 * 60;
+  const uptime = explain(
+    'uptime',
+    node.uptime,
+    `Scales linearly to full points at ${profile.uptimeCapDays} days`,
+    node.uptime < maxUptime
+      ? `Keep the node running without restarts for another ${formatUptime(maxUptime - node.uptime)}`
+      : null,
+    { ...node, uptime: maxUptime }
+  );
+
+  // Recency: get back to online
+  const recency = explain(
+    'recency',
+    status,
+    `${status.charAt(0).toUpperCase()}${status.slice(1)} scores ${profile.recency[status]}`,
+    status !== 'online'
+      ? `Restore gossip connectivity; last seen ${formatRelativeTime(node.last_seen_timestamp)}`
+      : null,
+    node,
+    'online'
+  );
+
+  // Storage: move utilization into the best-scoring band nearest to it
+  const utilization = node.storage_usage_percent;
+  const band =
+    profile.storageBands.find((b) => utilization <= b.upTo) ??
+    profile.storageBands[profile.storageBands.length - 1];
+  const bestScore = Math.max(...profile.storageBands.map((b) => b.score));
+  const best = profile.storageBands
+    .filter((b) => b.score === bestScore)
+    .sort((a, b) => Math.abs(a.upTo - utilization) - Math.abs(b.upTo - utilization))[0];
+  let storageAction: string | null = null;
+  if (band.score < bestScore) {
+    storageAction =
+      utilization > best.upTo
+        ? `Commit more storage to bring utilization down to ${best.upTo}% or less`
+        : `Put more of the committed storage to use: above ${bandFloor(profile, best)}% utilization`;
+  }
+  const storage = explain(
+    'storage',
+    utilization,
+    `${bandFloor(profile, band)}-${band.upTo}% utilization scores ${band.score}`,
+    storageAction,
+    { ...node, storage_usage_percent: best.upTo }
+  );
+
+  // Version: upgrade to the current release
+  const versionStatus = classifyVersion(node.version, currentRelease);
+  const version = explain(
+    'version',
+    node.version,
+    `${VERSION_STATUS_RULES[versionStatus]} (v${currentRelease} is current) scores ${profile.version[versionStatus]}`,
+    versionStatus !== 'current' ? `Upgrade from v${node.version} to v${currentRelease}` : null,
+    { ...node, version: currentRelease }
+  );
+
+  return {
+    score,
+    profile: profile.name,
+    scoreVersion: HEALTH_SCORE_VERSION,
+    factors: [uptime, recency, storage, version],
+  };
+}
+
+/**
+ * Re-score nodes under a profile. Nodes are scored with the default profile
+ * when fetched, so the default profile returns the input unchanged.
+ */
+export function applyHealthProfile<T extends PNode>(nodes: T[], profile: HealthProfile): T[] {
+  if (profile.name === DEFAULT_HEALTH_PROFILE.name) return nodes;
+  const currentRelease = resolveCurrentRelease(nodes.map((n) => n.version));
+  return nodes.map((node) => ({
+    ...node,
+    healthScore: calculateHealthScore(node, node.status, currentRelease, profile),
+  }));
+}
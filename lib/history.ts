@@ -0,0 +1,178 @@
+// =============================================================================
+// Historical Queries
+// Time series built from the snapshot store (server-side only)
+// =============================================================================
+
+import {
+  NetworkHistoryPoint,
+  NodeHistoryEntry,
+  NodeSnapshot,
+  NodeStatus,
+} from '@/types';
+import { getNodeSamples, getSnapshotSummaries, downsampleSnapshots } from './snapshotStore';
+import { SNAPSHOT_CONFIG } from './constants';
+import { DEFAULT_NETWORK } from './networks';
+import { calculatePercent } from './utils';
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// Target number of points when resolution is 'auto'
+const AUTO_POINTS = 200;
+
+// Higher is worse; used to keep the worst status seen in a bucket
+const STATUS_SEVERITY: Record<NodeStatus, number> = {
+  online: 0,
+  degraded: 1,
+  offline: 2,
+};
+
+/**
+ * Parse a duration like "30s", "5m", "1h" or "7d" into milliseconds
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+)([smhd])$/.exec(value.trim());
+  if (!match) return null;
+  return parseInt(match[1], 10) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Parse a time query param given as Unix ms, Unix seconds, ISO date,
+ * or a duration relative to now ("24h" means 24 hours ago)
+ */
+export function parseTimeParam(value: string | null, fallback: number): number {
+  if (!value) return fallback;
+
+  const duration = parseDuration(value);
+  if (duration !== null) return Date.now() - duration;
+
+  if (/^\d+$/.test(value)) {
+    const n = parseInt(value, 10);
+    return n < 1e12 ? n * 1000 : n;
+  }
+
+  const parsed = Date.parse(value);
+  return isNaN(parsed) ? fallback : parsed;
+}
+
+/**
+ * Move a range start forward to the oldest snapshot still retained, but not
+ * past the range end
+ */
+export function clampToRetention(from: number, to: number, now = Date.now()): number {
+  const oldest = now - SNAPSHOT_CONFIG.dailyRetentionDays * DURATION_UNITS.d;
+  return Math.min(to, Math.max(from, oldest));
+}
+
+/**
+ * Resolve a resolution param to a bucket size in ms (0 means every sample)
+ */
+export function resolveResolution(value: string | null, from: number, to: number): number {
+  if (value === 'raw') return 0;
+
+  const duration = value ? parseDuration(value) : null;
+  if (duration !== null) return duration;
+
+  // 'auto' or unrecognized: aim for AUTO_POINTS points, rounded to a minute
+  const minute = DURATION_UNITS.m;
+  return Math.max(minute, Math.ceil((to - from) / AUTO_POINTS / minute) * minute);
+}
+
+/**
+ * Network-wide history between two timestamps
+ */
+export async function getNetworkHistory(
+  from: number,
+  to: number,
+  resolution: number,
+  network = DEFAULT_NETWORK
+): Promise<NetworkHistoryPoint[]> {
+  // Summaries only: network-wide figures never need the node lists
+  const summaries = await getSnapshotSummaries(from, to, network);
+  const sampled = resolution > 0 ? downsampleSnapshots(summaries, resolution) : summaries;
+
+  return sampled.map(({ timestamp, stats }) => ({
+    timestamp,
+    totalNodes: stats.totalNodes,
+    onlineNodes: stats.onlineNodes,
+    degradedNodes: stats.degradedNodes,
+    offlineNodes: stats.offlineNodes,
+    onlinePercentage: calculatePercent(stats.onlineNodes, stats.totalNodes),
+    averageHealthScore: stats.averageHealthScore,
+    storageUtilization: stats.storageUtilization,
+    totalStorageCommitted: stats.totalStorageCommitted,
+    totalStorageUsed: stats.totalStorageUsed,
+  }));
+}
+
+/**
+ * History entry for a node as seen in one snapshot
+ */
+function toNodeHistoryEntry(timestamp: number, node: NodeSnapshot): NodeHistoryEntry {
+  return {
+    timestamp,
+    uptime: node.uptime,
+    storageUsed: node.storage_used,
+    storageUsagePercent: node.storage_usage_percent,
+    status: node.status,
+    healthScore: node.healthScore,
+    version: node.version,
+    inGossip: true,
+  };
+}
+
+/**
+ * Collapse node history into buckets: the last values of each bucket,
+ * with the worst status observed in it
+ */
+function bucketNodeHistory(entries: NodeHistoryEntry[], bucketMs: number): NodeHistoryEntry[] {
+  const buckets = new Map<number, NodeHistoryEntry>();
+
+  for (const entry of entries) {
+    const bucket = Math.floor(entry.timestamp / bucketMs);
+    const previous = buckets.get(bucket);
+    const status =
+      previous && STATUS_SEVERITY[previous.status] > STATUS_SEVERITY[entry.status]
+        ? previous.status
+        : entry.status;
+    buckets.set(bucket, { ...entry, status });
+  }
+
+  return Array.from(buckets.values());
+}
+
+/**
+ * History of a single node between two timestamps. Snapshots taken after the
+ * node was first seen but that no longer include it are reported as offline.
+ */
+export async function getNodeHistory(
+  pubkey: string,
+  from: number,
+  to: number,
+  resolution: number,
+  network = DEFAULT_NETWORK
+): Promise<NodeHistoryEntry[]> {
+  const samples = await getNodeSamples(pubkey, from, to, network);
+  const entries: NodeHistoryEntry[] = [];
+  let last: NodeHistoryEntry | null = null;
+
+  for (const { timestamp, node } of samples) {
+    if (node) {
+      last = toNodeHistoryEntry(timestamp, node);
+      entries.push(last);
+    } else if (last) {
+      entries.push({
+        ...last,
+        timestamp,
+        status: 'offline',
+        inGossip: false,
+      });
+    }
+  }
+
+  return resolution > 0 ? bucketNodeHistory(entries, resolution) : entries;
+}
@@ -0,0 +1,273 @@
+// =============================================================================
+// Network Incidents
+// Opens an incident when the network summary worsens or many nodes drop at
+// once, follows it poll by poll and closes it once neither has happened for
+// a while (server-side only)
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  Incident,
+  IncidentGroup,
+  IncidentNode,
+  NetworkHealthStatus,
+  NetworkSnapshot,
+  NodeSnapshot,
+} from '@/types';
+import { INCIDENT_CONFIG } from './constants';
+import { getNetworkHealthSummary } from './metrics';
+import { getGeoLocationBatch } from './geoip';
+import { DEFAULT_NETWORK, networkDataPath } from './networks';
+import { calculatePercent, parseAddress } from './utils';
+
+// Worse statuses replace better ones on an affected node
+const STATUS_RANK: Record<IncidentNode['status'], number> = {
+  online: 0,
+  degraded: 1,
+  offline: 2,
+  missing: 3,
+};
+
+const HEALTH_RANK: Record<NetworkHealthStatus, number> = {
+  healthy: 0,
+  warning: 1,
+  critical: 2,
+};
+
+function incidentNode(node: NodeSnapshot, status: IncidentNode['status'], since: number): IncidentNode {
+  return { pubkey: node.pubkey, ip: parseAddress(node.address).ip, version: node.version, status, since };
+}
+
+/**
+ * Nodes online in the previous poll that are degraded, offline or gone now
+ */
+function newlyAffected(previous: NetworkSnapshot | null, current: NetworkSnapshot): IncidentNode[] {
+  if (!previous) return [];
+  const currentNodes = new Map(current.nodes.map((n) => [n.pubkey, n]));
+  const affected: IncidentNode[] = [];
+
+  for (const node of previous.nodes) {
+    if (node.status !== 'online') continue;
+    const now = currentNodes.get(node.pubkey);
+    if (!now) {
+      affected.push(incidentNode(node, 'missing', current.timestamp));
+    } else if (now.status !== 'online') {
+      affected.push(incidentNode(now, now.status, current.timestamp));
+    }
+  }
+  return affected;
+}
+
+/**
+ * Whether enough nodes went offline or missing in one poll to count as a
+ * mass drop
+ */
+function isMassDrop(previous: NetworkSnapshot | null, affected: IncidentNode[]): boolean {
+  if (!previous) return false;
+  const dropped = affected.filter((n) => n.status === 'offline' || n.status === 'missing').length;
+  const wasOnline = previous.nodes.filter((n) => n.status === 'online').length;
+  return (
+    dropped >= INCIDENT_CONFIG.massDropMinNodes &&
+    calculatePercent(dropped, wasOnline) >= INCIDENT_CONFIG.massDropPercent
+  );
+}
+
+/**
+ * Follow the network's open incident (if any) through one more poll
+ * @returns The opened, updated or just closed incident, or null when the
+ *   network is healthy and nothing was open
+ */
+export function trackIncident(
+  open: Incident | null,
+  previous: NetworkSnapshot | null,
+  current: NetworkSnapshot,
+  network: string
+): Incident | null {
+  const now = current.timestamp;
+  const summary = getNetworkHealthSummary(current.stats);
+  const before = previous ? getNetworkHealthSummary(previous.stats).status : summary.status;
+  const changed = newlyAffected(previous, current);
+  const massDrop = isMassDrop(previous, changed);
+  const dropMessage = `${changed.length} nodes dropped at once`;
+
+  // A standing warning, e.g. chronic stale pods, neither opens an incident
+  // nor keeps one open: only a change for the worse, a mass drop or the
+  // network turning critical does. Incidents stored before baselines were
+  // kept count from healthy.
+  const baseline = open ? open.baseline ?? 'healthy' : before;
+  const worsened = HEALTH_RANK[summary.status] > HEALTH_RANK[before];
+  const critical = summary.status === 'critical' && baseline !== 'critical';
+  const troubled = worsened || massDrop || (open !== null && critical);
+
+  if (!open && !troubled) return null;
+
+  const incident: Incident = open
+    ? { ...open, baseline, affected: [...open.affected], updates: [...open.updates] }
+    : {
+        id: `${network}-${now}`,
+        network,
+        title: massDrop ? dropMessage : summary.message,
+        severity: summary.status === 'critical' ? 'critical' : 'warning',
+        startedAt: now,
+        endedAt: null,
+        healthySince: null,
+        baseline,
+        affected: [],
+        peak: { at: now, affected: 0, total: current.nodes.length, onlinePercent: 100 },
+        groups: { region: [], isp: [], version: [] },
+        updates: [{ at: now, status: summary.status, message: massDrop ? dropMessage : summary.message }],
+      };
+
+  // Record newly affected nodes, keeping the worst status seen
+  const byPubkey = new Map(incident.affected.map((n, i) => [n.pubkey, i]));
+  for (const node of changed) {
+    const index = byPubkey.get(node.pubkey);
+    if (index === undefined) {
+      byPubkey.set(node.pubkey, incident.affected.length);
+      incident.affected.push(node);
+    } else if (STATUS_RANK[node.status] > STATUS_RANK[incident.affected[index].status]) {
+      incident.affected[index] = { ...incident.affected[index], status: node.status };
+    }
+  }
+
+  if (open) {
+    if (summary.status !== incident.updates[incident.updates.length - 1].status) {
+      incident.updates.push({ at: now, status: summary.status, message: summary.message });
+    }
+    if (massDrop) {
+      incident.updates.push({ at: now, status: summary.status, message: dropMessage });
+    }
+  }
+  if (summary.status === 'critical') incident.severity = 'critical';
+
+  // Peak: the most affected nodes down at the same time
+  const currentNodes = new Map(current.nodes.map((n) => [n.pubkey, n]));
+  const downNow = incident.affected.filter((n) => currentNodes.get(n.pubkey)?.status !== 'online').length;
+  if (!open || downNow > incident.peak.affected) {
+    incident.peak = {
+      at: now,
+      affected: downNow,
+      total: current.nodes.length,
+      onlinePercent: calculatePercent(current.stats.onlineNodes, current.stats.totalNodes),
+    };
+  }
+
+  // Close only after a quiet period, so a flapping network stays one incident
+  if (troubled) {
+    incident.healthySince = null;
+  } else {
+    incident.healthySince = incident.healthySince ?? now;
+    if (now - incident.healthySince >= INCIDENT_CONFIG.quietPeriod) {
+      incident.endedAt = now;
+      incident.updates.push({
+        at: now,
+        status: summary.status,
+        message: summary.status === 'healthy'
+          ? 'Resolved: the network is healthy again'
+          : `Resolved: the network is stable at ${summary.status}`,
+      });
+    }
+  }
+
+  return incident;
+}
+
+/**
+ * Count affected nodes by a property, largest groups first
+ */
+function groupBy(nodes: IncidentNode[], key: (node: IncidentNode) => string): IncidentGroup[] {
+  const counts = new Map<string, number>();
+  for (const node of nodes) {
+    const name = key(node);
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, INCIDENT_CONFIG.maxGroups);
+}
+
+/**
+ * Group an incident's affected nodes by country, ISP and version. Nodes
+ * whose location is unknown are grouped as "Unknown".
+ */
+export function groupAffected(
+  affected: IncidentNode[],
+  locations: Map<string, { country: string; isp: string }>
+): Incident['groups'] {
+  return {
+    region: groupBy(affected, (n) => locations.get(n.ip)?.country ?? 'Unknown'),
+    isp: groupBy(affected, (n) => locations.get(n.ip)?.isp ?? 'Unknown'),
+    version: groupBy(affected, (n) => n.version),
+  };
+}
+
+/**
+ * Read a network's incidents, newest first
+ */
+export async function readIncidents(network = DEFAULT_NETWORK): Promise<Incident[]> {
+  try {
+    return JSON.parse(await fs.readFile(networkDataPath(INCIDENT_CONFIG.file, network), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function writeIncidents(incidents: Incident[], network: string): Promise<void> {
+  const file = networkDataPath(INCIDENT_CONFIG.file, network);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // Write then rename so readers never see a partial file
+  await fs.writeFile(`${file}.tmp`, JSON.stringify(incidents));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+/**
+ * Open, update or close a network's incident after a poll, and store it
+ * @returns The incident, or null when the network is healthy
+ */
+export async function recordIncidents(
+  previous: NetworkSnapshot | null,
+  current: NetworkSnapshot,
+  network = DEFAULT_NETWORK
+): Promise<Incident | null> {
+  const incidents = await readIncidents(network);
+  const open = incidents.find((i) => i.endedAt === null) ?? null;
+
+  const incident = trackIncident(open, previous, current, network);
+  if (!incident) return null;
+
+  const locations = await getGeoLocationBatch(Array.from(new Set(incident.affected.map((n) => n.ip))));
+  incident.groups = groupAffected(incident.affected, locations);
+
+  if (!open) {
+    console.log(`[Incidents] Opened on ${network}: ${incident.title}`);
+  } else if (incident.endedAt !== null) {
+    console.log(`[Incidents] Closed on ${network}: ${incident.title}`);
+  }
+
+  const cutoff = current.timestamp - INCIDENT_CONFIG.retentionDays * 24 * 60 * 60 * 1000;
+  const kept = incidents.filter((i) => i.id !== incident.id && (i.endedAt ?? Infinity) >= cutoff);
+  await writeIncidents([incident, ...kept], network);
+  return incident;
+}
+
+/**
+ * The ongoing incident, and incidents that ended within a range
+ */
+export async function getIncidents(filter: {
+  from?: number;
+  to?: number;
+  network?: string;
+} = {}): Promise<{ current: Incident | null; past: Incident[] }> {
+  const incidents = await readIncidents(filter.network ?? DEFAULT_NETWORK);
+  return {
+    current: incidents.find((i) => i.endedAt === null) ?? null,
+    past: incidents.filter(
+      (i) =>
+        i.endedAt !== null &&
+        (filter.from === undefined || i.endedAt >= filter.from) &&
+        (filter.to === undefined || i.startedAt <= filter.to)
+    ),
+  };
+}
@@ -0,0 +1,141 @@
+// =============================================================================
+// JSONL Files
+// Line-by-line reading of the append-only logs, so large files are never
+// held in memory whole and readers can stop early (server-side only)
+// =============================================================================
+
+import { promises as fs } from 'fs';
+
+const NEWLINE = 0x0a;
+const CHUNK_SIZE = 64 * 1024;
+
+async function openIfExists(file: string): Promise<fs.FileHandle | null> {
+  try {
+    return await fs.open(file, 'r');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+/**
+ * Complete lines of a file from a byte offset, each with the offset just
+ * past it, so a later read can resume there. A last line without its
+ * newline is still being written and is left for the next read. Yields
+ * nothing if the file does not exist; breaking out of the loop closes it.
+ */
+export async function* readLinesFrom(
+  file: string,
+  start = 0
+): AsyncGenerator<{ line: string; end: number }> {
+  const handle = await openIfExists(file);
+  if (!handle) return;
+
+  try {
+    let position = start;
+    let rest = Buffer.alloc(0);
+    const chunk = Buffer.alloc(CHUNK_SIZE);
+
+    for (;;) {
+      const { bytesRead } = await handle.read(chunk, 0, CHUNK_SIZE, position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+
+      const buffer = Buffer.concat([rest, chunk.subarray(0, bytesRead)]);
+      // File offset of the buffer's first byte
+      const offset = position - buffer.length;
+      let lineStart = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        if (buffer[i] !== NEWLINE) continue;
+        if (i > lineStart) yield { line: buffer.toString('utf8', lineStart, i), end: offset + i + 1 };
+        lineStart = i + 1;
+      }
+      rest = buffer.subarray(lineStart);
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Complete, non-empty lines of a file, first to last
+ */
+export async function* readLines(file: string): AsyncGenerator<string> {
+  for await (const { line } of readLinesFrom(file)) {
+    yield line;
+  }
+}
+
+/**
+ * Non-empty lines of a file, last to first, reading it backwards in chunks.
+ * Yields nothing if the file does not exist.
+ */
+export async function* readLinesBackward(file: string): AsyncGenerator<string> {
+  const handle = await openIfExists(file);
+  if (!handle) return;
+
+  try {
+    let position = (await handle.stat()).size;
+    // Bytes before the earliest newline found so far: the end of a line
+    // whose start has not been read yet
+    let rest = Buffer.alloc(0);
+
+    while (position > 0) {
+      const size = Math.min(CHUNK_SIZE, position);
+      position -= size;
+      const chunk = Buffer.alloc(size);
+      await handle.read(chunk, 0, size, position);
+
+      // Splitting on the newline byte is safe: it never occurs inside a
+      // multi-byte UTF-8 character
+      const buffer = Buffer.concat([chunk, rest]);
+      let end = buffer.length;
+      for (let i = buffer.length - 1; i >= 0; i--) {
+        if (buffer[i] !== NEWLINE) continue;
+        if (end > i + 1) yield buffer.toString('utf8', i + 1, end);
+        end = i;
+      }
+      rest = buffer.subarray(0, end);
+    }
+
+    if (rest.length > 0) yield rest.toString('utf8');
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Drop lines from a file, keeping those a test accepts. The kept lines are
+ * streamed to a temporary file that then replaces the original, so callers
+ * must be the file's only writer or appends made meanwhile are lost.
+ * @returns The number of lines dropped
+ */
+export async function pruneLines(file: string, keep: (line: string) => boolean): Promise<number> {
+  const output = await fs.open(`${file}.tmp`, 'w');
+  let dropped = 0;
+  let pending: string[] = [];
+
+  try {
+    for await (const line of readLines(file)) {
+      if (!keep(line)) {
+        dropped++;
+        continue;
+      }
+      pending.push(line + '\n');
+      if (pending.length >= 1000) {
+        await output.write(pending.join(''));
+        pending = [];
+      }
+    }
+    await output.write(pending.join(''));
+  } finally {
+    await output.close();
+  }
+
+  if (dropped === 0) {
+    await fs.unlink(`${file}.tmp`);
+  } else {
+    await fs.rename(`${file}.tmp`, file);
+  }
+  return dropped;
+}
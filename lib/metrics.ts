@@ -1,87 +1,16 @@
 // =============================================================================
-// Metrics and Health Score Calculations
+// Network Metrics and Health Score Presentation
+// Scores themselves are calculated in ./healthScore
 // =============================================================================
 
 import {
   PNode,
-  PNodeRaw,
   NodeStatus,
   NetworkStats,
+  NetworkHealthStatus,
   VersionDistributionItem,
-  HealthFactors,
 } from '@/types';
-import { HEALTH_WEIGHTS, LATEST_VERSION, STATUS_THRESHOLDS } from './constants';
-import { clamp, calculatePercent, groupBy } from './utils';
-
-/**
- * Calculate health score for a pNode (0-100)
- * Factors: uptime, recency (last seen), storage utilization, version currency
- */
-export function calculateHealthScore(
-  node: PNodeRaw,
-  status: NodeStatus
-): number {
-  const factors = calculateHealthFactors(node, status);
-
-  const score =
-    factors.uptime * HEALTH_WEIGHTS.uptime +
-    factors.recency * HEALTH_WEIGHTS.recency +
-    factors.storage * HEALTH_WEIGHTS.storage +
-    factors.version * HEALTH_WEIGHTS.version;
-
-  return Math.round(clamp(score, 0, 100));
-}
-
-/**
- * Calculate individual health factors
- */
-export function calculateHealthFactors(
-  node: PNodeRaw,
-  status: NodeStatus
-): HealthFactors {
-  // Uptime factor: longer uptime = better (max at 30 days)
-  const maxUptime = 30 * 24 * 60 * 60; // 30 days in seconds
-  const uptimeFactor = clamp((node.uptime / maxUptime) * 100, 0, 100);
-
-  // Recency factor: based on status
-  let recencyFactor: number;
-  switch (status) {
-    case 'online':
-      recencyFactor = 100;
-      break;
-    case 'degraded':
-      recencyFactor = 50;
-      break;
-    case 'offline':
-      recencyFactor = 0;
-      break;
-  }
-
-  // Storage factor: reasonable utilization (10-80%) is optimal
-  // Too low means underutilized, too high means potentially at risk
-  const utilization = node.storage_usage_percent;
-  let storageFactor: number;
-  if (utilization < 5) {
-    storageFactor = 50; // Just started or underutilized
-  } else if (utilization <= 80) {
-    storageFactor = 100; // Optimal range
-  } else if (utilization <= 95) {
-    storageFactor = 70; // Getting full
-  } else {
-    storageFactor = 40; // Nearly full
-  }
-
-  // Version factor: latest version gets full score
-  const isLatestVersion = node.version === LATEST_VERSION;
-  const versionFactor = isLatestVersion ? 100 : 60;
-
-  return {
-    uptime: uptimeFactor,
-    recency: recencyFactor,
-    storage: storageFactor,
-    version: versionFactor,
-  };
-}
+import { calculatePercent, groupBy } from './utils';
 
 /**
  * Get health score color class
@@ -188,6 +117,7 @@ export function getVersionDistribution(nodes: PNode[]): VersionDistributionItem[
       version,
       count: versionNodes.length,
       percentage: calculatePercent(versionNodes.length, total),
+      status: versionNodes[0].versionStatus,
     }))
     .sort((a, b) => b.count - a.count);
 }
@@ -232,7 +162,7 @@ export function getNodesNeedingAttention(nodes: PNode[]): {
   highStorage: PNode[];
 } {
   return {
-    outdated: nodes.filter((n) => n.version !== LATEST_VERSION),
+    outdated: nodes.filter((n) => n.versionStatus !== 'current'),
     lowHealth: nodes.filter((n) => n.healthScore < 50),
     highStorage: nodes.filter((n) => n.storage_usage_percent > 90),
   };
@@ -242,7 +172,7 @@ export function getNodesNeedingAttention(nodes: PNode[]): {
  * Calculate network health summary
  */
 export function getNetworkHealthSummary(stats: NetworkStats): {
-  status: 'healthy' | 'warning' | 'critical';
+  status: NetworkHealthStatus;
   message: string;
 } {
   const onlinePercent = calculatePercent(stats.onlineNodes, stats.totalNodes);
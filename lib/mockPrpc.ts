@@ -0,0 +1,417 @@
+// =============================================================================
+// Mock pRPC Server
+// Serves get-pods-with-stats, get-pods, get-stats and get-version from a
+// recorded fixture or a synthetic network, with churn and failure injection
+// for offline development (server-side only)
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import http from 'http';
+import path from 'path';
+import { PNodeRaw, PRPCRequest, PRPCResponse, PrpcFixture, StatsResponse } from '@/types';
+import { MOCK_PRPC_CONFIG } from './constants';
+import { parseVersion } from './versions';
+import { delay } from './utils';
+import releaseManifest from '@/config/release-manifest.json';
+
+const METHODS = ['get-pods-with-stats', 'get-pods', 'get-stats', 'get-version'];
+
+const NULLABLE_FIELDS: (keyof PNodeRaw)[] = [
+  'storage_committed',
+  'storage_used',
+  'storage_usage_percent',
+  'uptime',
+  'version',
+  'rpc_port',
+  'is_public',
+];
+
+const BASE58 = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const GB = 1024 ** 3;
+
+interface MockNode {
+  pod: PNodeRaw;
+  online: boolean;
+  packetRate: number; // Packets per second while online
+  cpuBase: number;
+  memoryTotal: number;
+  diskTotal: number;
+}
+
+/**
+ * Seeded PRNG (mulberry32), so a seed always builds the same network
+ */
+function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Versions seen on the synthetic network, derived from the release manifest:
+ * the current release, an older patch, the previous minor and a pre-release
+ */
+function syntheticVersions(): { version: string; weight: number }[] {
+  const current = parseVersion(releaseManifest.current);
+  if (!current) return [{ version: releaseManifest.current, weight: 1 }];
+
+  const { major, minor, patch } = current;
+  return [
+    { version: `${major}.${minor}.${patch}`, weight: 0.6 },
+    { version: `${major}.${minor}.${Math.max(0, patch - 2)}`, weight: 0.2 },
+    { version: `${major}.${Math.max(0, minor - 1)}.0`, weight: 0.15 },
+    { version: `${major}.${minor + 1}.0-rc.1`, weight: 0.05 },
+  ];
+}
+
+// =============================================================================
+// Synthetic network
+// =============================================================================
+
+class SyntheticNetwork {
+  private random: () => number;
+  private versions = syntheticVersions();
+  private nodes: MockNode[] = [];
+  private lastTick = Date.now();
+
+  constructor(size: number, seed: number, private churn: number) {
+    this.random = createRandom(seed);
+    for (let i = 0; i < size; i++) {
+      this.nodes.push(this.createNode(this.lastTick));
+    }
+  }
+
+  private pick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  private pickVersion(): string {
+    let roll = this.random();
+    for (const { version, weight } of this.versions) {
+      roll -= weight;
+      if (roll <= 0) return version;
+    }
+    return this.versions[0].version;
+  }
+
+  private createNode(now: number): MockNode {
+    const pubkey = Array.from({ length: 44 }, () => this.pick(BASE58.split(''))).join('');
+    const ip = [
+      1 + Math.floor(this.random() * 222),
+      Math.floor(this.random() * 256),
+      Math.floor(this.random() * 256),
+      1 + Math.floor(this.random() * 254),
+    ].join('.');
+    const committed = Math.round((100 + this.random() * 900) * GB);
+    const used = Math.round(committed * this.random() * 0.95);
+    const online = this.random() < 0.9;
+    // Nodes that start down were last seen between 10 minutes and 2 days ago
+    const lastSeen = online ? now : now - (600 + this.random() * 172800) * 1000;
+
+    return {
+      pod: {
+        address: `${ip}:9001`,
+        is_public: this.random() < 0.7,
+        last_seen_timestamp: Math.floor(lastSeen / 1000),
+        pubkey,
+        rpc_port: 6000,
+        storage_committed: committed,
+        storage_usage_percent: (used / committed) * 100,
+        storage_used: used,
+        uptime: Math.floor(this.random() * 60 * 86400),
+        version: this.pickVersion(),
+      },
+      online,
+      packetRate: 50 + this.random() * 950,
+      cpuBase: 5 + this.random() * 60,
+      memoryTotal: this.pick([8, 16, 32, 64]) * GB,
+      diskTotal: this.pick([1000, 2000, 4000]) * GB,
+    };
+  }
+
+  /**
+   * Apply one random state change: a node goes down or comes back,
+   * restarts, upgrades, joins or leaves
+   */
+  private applyChurnEvent(now: number): void {
+    const roll = this.random();
+    const node = this.pick(this.nodes);
+    if (!node) return;
+
+    if (roll < 0.3) {
+      node.online = false;
+    } else if (roll < 0.6) {
+      const offline = this.nodes.filter((n) => !n.online);
+      if (offline.length > 0) {
+        const back = this.pick(offline);
+        back.online = true;
+        back.pod.uptime = 0;
+      }
+    } else if (roll < 0.75) {
+      node.pod.uptime = 0;
+    } else if (roll < 0.9) {
+      node.pod.version = this.versions[0].version;
+      node.pod.uptime = 0;
+    } else if (roll < 0.95) {
+      this.nodes.push(this.createNode(now));
+    } else if (this.nodes.length > 1) {
+      this.nodes.splice(this.nodes.indexOf(node), 1);
+    }
+  }
+
+  /**
+   * Advance the simulation to now: online nodes gain uptime and are seen
+   * again, and churn events happen at the configured rate
+   */
+  private advance(now: number): void {
+    const elapsed = Math.max(0, now - this.lastTick);
+    this.lastTick = now;
+
+    const expected = this.churn * this.nodes.length * (elapsed / 60000);
+    const events = Math.floor(expected) + (this.random() < expected % 1 ? 1 : 0);
+    for (let i = 0; i < events; i++) {
+      this.applyChurnEvent(now);
+    }
+
+    for (const node of this.nodes) {
+      if (!node.online) continue;
+      node.pod.uptime += Math.floor(elapsed / 1000);
+      node.pod.last_seen_timestamp = Math.floor(now / 1000) - Math.floor(this.random() * 30);
+    }
+  }
+
+  pods(now = Date.now()): PNodeRaw[] {
+    this.advance(now);
+    return this.nodes.map((n) => ({ ...n.pod }));
+  }
+
+  /**
+   * get-stats for one node, or for the first node when none is named
+   */
+  stats(pubkey: string | null, now = Date.now()): StatsResponse | null {
+    this.advance(now);
+    const node = pubkey ? this.nodes.find((n) => n.pod.pubkey === pubkey) : this.nodes[0];
+    if (!node || !node.online) return null;
+
+    const jitter = () => (this.random() - 0.5) * 10;
+    const packets = Math.floor(node.packetRate * node.pod.uptime);
+    const memoryPercent = Math.min(95, Math.max(5, 40 + jitter() * 2));
+    const diskUsed = Math.min(node.diskTotal, node.pod.storage_used + 20 * GB);
+
+    return {
+      stats: {
+        cpu_percent: Math.round(Math.min(100, Math.max(0, node.cpuBase + jitter())) * 10) / 10,
+        memory_percent: Math.round(memoryPercent * 10) / 10,
+        memory_used: Math.round((node.memoryTotal * memoryPercent) / 100),
+        memory_total: node.memoryTotal,
+        disk_percent: Math.round((diskUsed / node.diskTotal) * 1000) / 10,
+        disk_used: diskUsed,
+        disk_total: node.diskTotal,
+        packets_recv: packets,
+        packets_sent: Math.floor(packets * 0.8),
+        active_streams: Math.floor(this.random() * 20),
+        uptime: node.pod.uptime,
+      },
+      file_size: node.pod.storage_used,
+    };
+  }
+
+  version(pubkey: string | null): string | null {
+    const node = pubkey ? this.nodes.find((n) => n.pod.pubkey === pubkey) : this.nodes[0];
+    return node?.online ? node.pod.version : null;
+  }
+}
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+/**
+ * Shift recorded pod timestamps forward so a fixture looks as fresh as when
+ * it was recorded
+ */
+function shiftPods(result: unknown, offsetSeconds: number): unknown {
+  const shift = (pods: PNodeRaw[]) =>
+    pods.map((pod) =>
+      typeof pod?.last_seen_timestamp === 'number'
+        ? { ...pod, last_seen_timestamp: pod.last_seen_timestamp + offsetSeconds }
+        : pod
+    );
+
+  if (Array.isArray(result)) return shift(result);
+  if (result && typeof result === 'object' && 'pods' in result && Array.isArray(result.pods)) {
+    return { ...result, pods: shift(result.pods) };
+  }
+  return result;
+}
+
+export async function loadFixture(file: string): Promise<PrpcFixture> {
+  const fixture: PrpcFixture = JSON.parse(await fs.readFile(file, 'utf8'));
+  if (typeof fixture.recordedAt !== 'number' || !fixture.responses) {
+    throw new Error(`${file} is not a pRPC fixture (expected recordedAt and responses)`);
+  }
+  return fixture;
+}
+
+/**
+ * Record every supported method from a live endpoint into a fixture file
+ */
+export async function recordFixture(endpoint: string, file: string): Promise<PrpcFixture> {
+  const responses: Record<string, unknown> = {};
+
+  for (const method of METHODS) {
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', method, id: 1 }),
+        signal: AbortSignal.timeout(15000),
+      });
+      const body: PRPCResponse = await response.json();
+      if (body.error) throw new Error(body.error.message);
+      responses[method] = body.result;
+      console.log(`[Mock pRPC] Recorded ${method}`);
+    } catch (error) {
+      console.warn(`[Mock pRPC] Skipped ${method}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const fixture: PrpcFixture = { recordedAt: Date.now(), source: endpoint, responses };
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(fixture, null, 2));
+  return fixture;
+}
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * Blank out one random nullable field on a fraction of pods
+ */
+function injectNullFields(pods: PNodeRaw[], rate: number): PNodeRaw[] {
+  if (rate <= 0) return pods;
+  return pods.map((pod) => {
+    if (Math.random() >= rate) return pod;
+    const field = NULLABLE_FIELDS[Math.floor(Math.random() * NULLABLE_FIELDS.length)];
+    return { ...pod, [field]: null };
+  });
+}
+
+/**
+ * Build the result for a method, or an error code and message
+ */
+type MethodResult = { result: unknown } | { error: { code: number; message: string } };
+
+function createHandler(
+  source: SyntheticNetwork | PrpcFixture
+): (method: string, pubkey: string | null) => MethodResult {
+  const notFound = (method: string): MethodResult => ({
+    error: { code: -32601, message: `Method not found: ${method}` },
+  });
+
+  if (!(source instanceof SyntheticNetwork)) {
+    return (method) => {
+      if (!(method in source.responses)) return notFound(method);
+      const offset = Math.floor((Date.now() - source.recordedAt) / 1000);
+      return { result: shiftPods(source.responses[method], offset) };
+    };
+  }
+
+  return (method, pubkey) => {
+    switch (method) {
+      case 'get-pods-with-stats': {
+        const pods = injectNullFields(source.pods(), MOCK_PRPC_CONFIG.nullFieldRate);
+        return { result: { pods, total_count: pods.length } };
+      }
+      case 'get-pods': {
+        const pods = source.pods().map(({ address, last_seen_timestamp, pubkey, version }) => ({
+          address,
+          last_seen_timestamp,
+          pubkey,
+          version,
+        }));
+        return { result: { pods, total_count: pods.length } };
+      }
+      case 'get-stats': {
+        const stats = source.stats(pubkey);
+        return stats ? { result: stats } : { error: { code: -32000, message: 'Node unavailable' } };
+      }
+      case 'get-version': {
+        const version = source.version(pubkey);
+        return version ? { result: { version } } : { error: { code: -32000, message: 'Node unavailable' } };
+      }
+      default:
+        return notFound(method);
+    }
+  };
+}
+
+function send(res: http.ServerResponse, status: number, body?: unknown): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    // The browser-side fetcher calls the mock directly
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+/**
+ * Start the mock server on MOCK_PRPC_CONFIG.port. Requests may name a node
+ * with ?pubkey= for per-node get-stats and get-version.
+ */
+export async function startMockPrpcServer(): Promise<{ stop: () => Promise<void> }> {
+  const config = MOCK_PRPC_CONFIG;
+  const source = config.fixture
+    ? await loadFixture(config.fixture)
+    : new SyntheticNetwork(config.nodes, config.seed, config.churn);
+  const handle = createHandler(source);
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    if (req.method !== 'POST') return send(res, 405, { error: 'Use POST with a JSON-RPC body' });
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+
+    let request: PRPCRequest;
+    try {
+      request = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      return send(res, 200, { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+    }
+
+    // Failure injection
+    if (Math.random() < config.timeoutRate) {
+      await delay(config.timeoutDelay);
+    }
+    if (Math.random() < config.errorRate) {
+      return send(res, 200, {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32000, message: 'Injected failure' },
+      });
+    }
+
+    const pubkey = new URL(req.url || '/', 'http://localhost').searchParams.get('pubkey');
+    send(res, 200, { jsonrpc: '2.0', id: request.id, ...handle(request.method, pubkey) });
+  });
+
+  await new Promise<void>((resolve) => server.listen(config.port, resolve));
+  console.log(
+    `[Mock pRPC] Serving ${
+      config.fixture ? `fixture ${config.fixture}` : `${config.nodes} synthetic nodes (seed ${config.seed})`
+    } on http://localhost:${config.port}/rpc`
+  );
+
+  return {
+    stop: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,54 @@
+// =============================================================================
+// Networks
+// The clusters the dashboard can switch between, from the runtime config
+// =============================================================================
+
+import { NetworkConfig } from '@/types';
+import { RUNTIME_CONFIG } from './config';
+
+/**
+ * Configured networks, the default first
+ */
+export const NETWORKS: NetworkConfig[] = RUNTIME_CONFIG.networks;
+
+/**
+ * Network used when none is selected
+ */
+export const DEFAULT_NETWORK = NETWORKS[0].name;
+
+/**
+ * Look up a network by name; a missing name means the default network
+ * @returns The network, or null if no network has that name
+ */
+export function getNetwork(name?: string | null): NetworkConfig | null {
+  if (!name) return NETWORKS[0];
+  return NETWORKS.find((n) => n.name === name) ?? null;
+}
+
+/**
+ * pRPC endpoints of a network, in order of preference
+ */
+export function networkEndpoints(name?: string): string[] {
+  const network = getNetwork(name);
+  if (!network) throw new Error(`Unknown network: ${name}`);
+  return network.endpoints;
+}
+
+/**
+ * Where a network keeps a persisted file or directory. The default network
+ * uses the configured path itself; others get a networks/<name>/ directory
+ * beside it, e.g. .data/networks/devnet/snapshots.
+ */
+export function networkDataPath(file: string, network = DEFAULT_NETWORK): string {
+  if (network === DEFAULT_NETWORK) return file;
+  const slash = file.lastIndexOf('/');
+  return `${file.slice(0, slash + 1)}networks/${network}/${file.slice(slash + 1)}`;
+}
+
+/**
+ * Append the network to an API URL, leaving default-network URLs unchanged
+ */
+export function withNetwork(url: string, network: string): string {
+  if (network === DEFAULT_NETWORK) return url;
+  return `${url}${url.includes('?') ? '&' : '?'}network=${encodeURIComponent(network)}`;
+}
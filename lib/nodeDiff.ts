@@ -0,0 +1,120 @@
+// =============================================================================
+// Node Diffs
+// Computes and applies the difference between two successive pod lists, so
+// clients can follow the network without downloading it every poll. Pure
+// functions only: safe for edge and client.
+// =============================================================================
+
+import { NodeChange, NodePatch, NodesDiff, PNode } from '@/types';
+
+// Recomputed from last_seen_timestamp rather than sent, as it does not
+// survive JSON
+const DERIVED_FIELDS: (keyof PNode)[] = ['lastSeenDate'];
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Fields of a node that changed, or null if none did
+ */
+function patchFor(previous: PNode, next: PNode): NodePatch | null {
+  const fields: Partial<PNode> = {};
+  let changed = false;
+
+  for (const key of Object.keys(next) as (keyof PNode)[]) {
+    if (DERIVED_FIELDS.includes(key) || sameValue(previous[key], next[key])) continue;
+    (fields as Record<string, unknown>)[key] = next[key];
+    changed = true;
+  }
+
+  return changed ? { pubkey: next.pubkey, fields } : null;
+}
+
+/**
+ * Notable changes to one node between polls
+ */
+function changesFor(previous: PNode, next: PNode, timestamp: number): NodeChange[] {
+  const changes: NodeChange[] = [];
+  const change = (kind: NodeChange['kind'], from: string | number, to: string | number) =>
+    changes.push({ kind, pubkey: next.pubkey, from, to, timestamp });
+
+  if (previous.status !== next.status) change('status', previous.status, next.status);
+  if (previous.version !== next.version) change('version', previous.version, next.version);
+  if (previous.storage_committed !== next.storage_committed) {
+    change('storage', previous.storage_committed, next.storage_committed);
+  }
+
+  return changes;
+}
+
+/**
+ * Difference between two pod lists of the same network
+ */
+export function diffNodes(
+  previous: PNode[],
+  next: PNode[],
+  network: string,
+  timestamp = Date.now()
+): NodesDiff {
+  const before = new Map(previous.map((n) => [n.pubkey, n]));
+  const after = new Map(next.map((n) => [n.pubkey, n]));
+  const diff: NodesDiff = { network, timestamp, added: [], removed: [], updated: [], changes: [] };
+
+  for (const node of next) {
+    const old = before.get(node.pubkey);
+    if (!old) {
+      diff.added.push(node);
+      diff.changes.push({ kind: 'added', pubkey: node.pubkey, from: null, to: node.status, timestamp });
+      continue;
+    }
+
+    const patch = patchFor(old, node);
+    if (patch) diff.updated.push(patch);
+    diff.changes.push(...changesFor(old, node, timestamp));
+  }
+
+  for (const node of previous) {
+    if (!after.has(node.pubkey)) {
+      diff.removed.push(node.pubkey);
+      diff.changes.push({ kind: 'removed', pubkey: node.pubkey, from: node.status, to: null, timestamp });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Whether a diff changes anything at all
+ */
+export function isEmptyDiff(diff: NodesDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.updated.length === 0;
+}
+
+/**
+ * Restore a node received as JSON
+ */
+export function reviveNode(node: PNode): PNode {
+  return { ...node, lastSeenDate: new Date(node.last_seen_timestamp * 1000) };
+}
+
+/**
+ * Apply a diff to a pod list, keeping the order of the nodes that remain
+ * and appending new ones
+ */
+export function applyNodesDiff(nodes: PNode[], diff: NodesDiff): PNode[] {
+  const removed = new Set(diff.removed);
+  const patches = new Map(diff.updated.map((p) => [p.pubkey, p.fields]));
+
+  const kept = nodes
+    .filter((n) => !removed.has(n.pubkey))
+    .map((n) => {
+      const fields = patches.get(n.pubkey);
+      return fields ? reviveNode({ ...n, ...fields }) : n;
+    });
+
+  const known = new Set(kept.map((n) => n.pubkey));
+  return [...kept, ...diff.added.filter((n) => !known.has(n.pubkey)).map(reviveNode)];
+}
@@ -0,0 +1,103 @@
+// =============================================================================
+// Node Stream
+// Polls each network while anyone is subscribed and broadcasts what changed
+// since the previous poll (server-side only)
+// =============================================================================
+
+import { PNode, StreamMessage } from '@/types';
+import { STREAM_CONFIG } from './constants';
+import { fetchPods } from './xandeumClient';
+import { diffNodes, isEmptyDiff } from './nodeDiff';
+import { DEFAULT_NETWORK } from './networks';
+
+type Listener = (message: StreamMessage) => void;
+
+interface Feed {
+  nodes: PNode[] | null; // Latest poll, null until the first one succeeds
+  listeners: Set<Listener>;
+  timer: ReturnType<typeof setInterval> | null;
+  polling: boolean;
+}
+
+// Per network
+const feeds = new Map<string, Feed>();
+
+function broadcast(feed: Feed, message: StreamMessage): void {
+  for (const listener of Array.from(feed.listeners)) {
+    try {
+      listener(message);
+    } catch (error) {
+      console.error('[Stream] Listener failed:', error);
+    }
+  }
+}
+
+/**
+ * Fetch a network's pods and send subscribers the difference, or the whole
+ * list after the first poll
+ */
+async function poll(network: string, feed: Feed): Promise<void> {
+  if (feed.polling) return;
+  feed.polling = true;
+
+  try {
+    const nodes = await fetchPods(undefined, { network, fresh: true });
+    const timestamp = Date.now();
+
+    if (!feed.nodes) {
+      broadcast(feed, { type: 'snapshot', network, timestamp, nodes });
+    } else {
+      const diff = diffNodes(feed.nodes, nodes, network, timestamp);
+      if (!isEmptyDiff(diff)) broadcast(feed, { type: 'diff', ...diff });
+    }
+    feed.nodes = nodes;
+  } catch (error) {
+    // Subscribers stop trusting the stream until it recovers, so the next
+    // good poll is sent as a full snapshot rather than a diff
+    feed.nodes = null;
+    broadcast(feed, {
+      type: 'poll-error',
+      network,
+      timestamp: Date.now(),
+      error: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    feed.polling = false;
+  }
+}
+
+/**
+ * Follow a network's changes. The listener gets the current pod list first
+ * (as soon as it is known), then one diff per poll that changed anything.
+ * Polling starts with the first subscriber and stops with the last.
+ * @returns Unsubscribe function
+ */
+export function subscribeToNodes(listener: Listener, network = DEFAULT_NETWORK): () => void {
+  let feed = feeds.get(network);
+  if (!feed) {
+    feed = { nodes: null, listeners: new Set(), timer: null, polling: false };
+    feeds.set(network, feed);
+  }
+  const current = feed;
+
+  current.listeners.add(listener);
+
+  if (!current.timer) {
+    // Nodes left over from an earlier subscription are stale; everyone
+    // gets the first poll as a snapshot
+    current.nodes = null;
+    void poll(network, current);
+    current.timer = setInterval(() => void poll(network, current), STREAM_CONFIG.interval);
+  } else if (current.nodes) {
+    // Later diffs are relative to this
+    listener({ type: 'snapshot', network, timestamp: Date.now(), nodes: current.nodes });
+  }
+
+  return () => {
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0 && current.timer) {
+      clearInterval(current.timer);
+      current.timer = null;
+    }
+  };
+}
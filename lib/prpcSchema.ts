@@ -0,0 +1,320 @@
+// =============================================================================
+// pRPC Response Schemas
+// Validates pRPC results field by field, defaulting nullable fields and
+// reporting malformed records instead of dropping them silently. Pure
+// functions only: safe for edge and client.
+// =============================================================================
+
+import { PNodeRaw, ParseReport, SchemaIssue, StatsResponse, VersionResponse } from '@/types';
+
+type FieldType = 'string' | 'number' | 'boolean' | 'string[]';
+
+interface FieldRule {
+  type: FieldType;
+  // A record whose required field is missing or invalid is dropped
+  required?: boolean;
+  // Used when an optional field is null, missing or invalid
+  fallback?: unknown;
+  // Further constraint on a well-typed value, returning the problem or null
+  check?: (value: never) => string | null;
+}
+
+type Schema = Record<string, FieldRule>;
+
+const nonEmpty = (value: string) => (value.trim() === '' ? 'empty string' : null);
+const nonNegative = (value: number) => (value < 0 ? 'negative' : null);
+const port = (value: number) =>
+  Number.isInteger(value) && value > 0 && value < 65536 ? null : 'not a port number';
+
+/**
+ * A pod from get-pods-with-stats (get-pods returns a subset of these fields)
+ */
+const POD_SCHEMA: Schema = {
+  pubkey: { type: 'string', required: true, check: nonEmpty },
+  address: { type: 'string', required: true, check: nonEmpty },
+  last_seen_timestamp: { type: 'number', required: true, check: nonNegative },
+  version: { type: 'string', fallback: 'unknown' },
+  storage_committed: { type: 'number', fallback: 0, check: nonNegative },
+  storage_used: { type: 'number', fallback: 0, check: nonNegative },
+  storage_usage_percent: { type: 'number', fallback: 0, check: nonNegative },
+  uptime: { type: 'number', fallback: 0, check: nonNegative },
+  rpc_port: { type: 'number', fallback: 6000, check: port },
+  is_public: { type: 'boolean', fallback: false },
+  // Added by the consensus proxy
+  seenBy: { type: 'string[]' },
+};
+
+const STATS_SCHEMA: Schema = {
+  cpu_percent: { type: 'number', fallback: 0, check: nonNegative },
+  memory_percent: { type: 'number', fallback: 0, check: nonNegative },
+  memory_used: { type: 'number', fallback: 0, check: nonNegative },
+  memory_total: { type: 'number', fallback: 0, check: nonNegative },
+  disk_percent: { type: 'number', fallback: 0, check: nonNegative },
+  disk_used: { type: 'number', fallback: 0, check: nonNegative },
+  disk_total: { type: 'number', fallback: 0, check: nonNegative },
+  packets_recv: { type: 'number', fallback: 0, check: nonNegative },
+  packets_sent: { type: 'number', fallback: 0, check: nonNegative },
+  active_streams: { type: 'number', fallback: 0, check: nonNegative },
+  uptime: { type: 'number', fallback: 0, check: nonNegative },
+  file_size: { type: 'number', fallback: 0, check: nonNegative },
+};
+
+const VERSION_SCHEMA: Schema = {
+  version: { type: 'string', required: true, check: nonEmpty },
+};
+
+/**
+ * Why a value does not match its type, or null if it does
+ */
+function typeProblem(value: unknown, type: FieldType): string | null {
+  switch (type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'expected number';
+    case 'string[]':
+      return Array.isArray(value) && value.every((v) => typeof v === 'string') ? null : 'expected string array';
+    default:
+      return typeof value === type ? null : `expected ${type}`;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function emptyReport(method: string, shape: ParseReport['shape'], received: number): ParseReport {
+  return {
+    method,
+    timestamp: Date.now(),
+    shape,
+    received,
+    accepted: 0,
+    dropped: 0,
+    nullFields: {},
+    issues: [],
+  };
+}
+
+/**
+ * Validate one record against a schema, adding its issues and defaulted
+ * fields to the report
+ * @returns The cleaned record, or null if it was dropped
+ */
+function parseRecord(
+  raw: unknown,
+  schema: Schema,
+  report: ParseReport,
+  index: number | null
+): Record<string, unknown> | null {
+  const issues: Omit<SchemaIssue, 'dropped'>[] = [];
+  const defaulted: string[] = [];
+  const record: Record<string, unknown> = {};
+  let dropped = false;
+
+  if (!isObject(raw)) {
+    issues.push({ method: report.method, index, pubkey: null, field: '(record)', value: raw, problem: 'expected object' });
+    dropped = true;
+  } else {
+    const pubkey = typeof raw.pubkey === 'string' && raw.pubkey ? raw.pubkey : null;
+
+    for (const [field, rule] of Object.entries(schema)) {
+      const value = raw[field];
+
+      if (value === null || value === undefined) {
+        if (rule.required) {
+          issues.push({ method: report.method, index, pubkey, field, value: value ?? null, problem: 'missing' });
+          dropped = true;
+        } else if (rule.fallback !== undefined) {
+          record[field] = rule.fallback;
+          defaulted.push(field);
+        }
+        continue;
+      }
+
+      const check = rule.check as ((v: unknown) => string | null) | undefined;
+      const problem = typeProblem(value, rule.type) ?? (check ? check(value) : null);
+      if (problem) {
+        issues.push({ method: report.method, index, pubkey, field, value, problem });
+        if (rule.required) dropped = true;
+        else if (rule.fallback !== undefined) record[field] = rule.fallback;
+        continue;
+      }
+
+      record[field] = value;
+    }
+  }
+
+  report.issues.push(...issues.map((issue) => ({ ...issue, dropped })));
+  if (dropped) {
+    report.dropped++;
+    return null;
+  }
+  report.accepted++;
+  for (const field of defaulted) {
+    report.nullFields[field] = (report.nullFields[field] || 0) + 1;
+  }
+  return record;
+}
+
+// Typed reads of fields in a record parseRecord accepted. The schema has
+// already checked each type, so the empty values only satisfy the compiler.
+function text(record: Record<string, unknown>, field: string): string {
+  const value = record[field];
+  return typeof value === 'string' ? value : '';
+}
+
+function num(record: Record<string, unknown>, field: string): number {
+  const value = record[field];
+  return typeof value === 'number' ? value : 0;
+}
+
+function toPod(record: Record<string, unknown>): PNodeRaw & { seenBy?: string[] } {
+  const pod: PNodeRaw & { seenBy?: string[] } = {
+    address: text(record, 'address'),
+    is_public: record.is_public === true,
+    last_seen_timestamp: num(record, 'last_seen_timestamp'),
+    pubkey: text(record, 'pubkey'),
+    rpc_port: num(record, 'rpc_port'),
+    storage_committed: num(record, 'storage_committed'),
+    storage_usage_percent: num(record, 'storage_usage_percent'),
+    storage_used: num(record, 'storage_used'),
+    uptime: num(record, 'uptime'),
+    version: text(record, 'version'),
+  };
+  const seenBy = record.seenBy;
+  if (Array.isArray(seenBy)) pod.seenBy = seenBy.filter((e): e is string => typeof e === 'string');
+  return pod;
+}
+
+function toStats(record: Record<string, unknown>): StatsResponse {
+  return {
+    stats: {
+      cpu_percent: num(record, 'cpu_percent'),
+      memory_percent: num(record, 'memory_percent'),
+      memory_used: num(record, 'memory_used'),
+      memory_total: num(record, 'memory_total'),
+      disk_percent: num(record, 'disk_percent'),
+      disk_used: num(record, 'disk_used'),
+      disk_total: num(record, 'disk_total'),
+      packets_recv: num(record, 'packets_recv'),
+      packets_sent: num(record, 'packets_sent'),
+      active_streams: num(record, 'active_streams'),
+      uptime: num(record, 'uptime'),
+    },
+    file_size: num(record, 'file_size'),
+  };
+}
+
+/**
+ * One line per issue, for logs and error messages
+ */
+export function describeIssue(issue: SchemaIssue): string {
+  const where = issue.pubkey ?? (issue.index !== null ? `#${issue.index}` : issue.method);
+  return `${where} ${issue.field}: ${issue.problem} (got ${JSON.stringify(issue.value) ?? 'undefined'})`;
+}
+
+/**
+ * Error listing every issue of a single-object result that could not be used
+ */
+function malformed(report: ParseReport): Error {
+  return new Error(`Malformed ${report.method} result: ${report.issues.map(describeIssue).join('; ')}`);
+}
+
+/**
+ * Validate a get-pods-with-stats (or get-pods) result, which is either
+ * { pods: [...] } or a bare array. Pods missing pubkey, address or
+ * last_seen_timestamp are dropped; other invalid fields fall back to
+ * defaults. Both are reported.
+ * @throws If the result is neither shape, so callers treat the endpoint as
+ *   failed rather than as reporting an empty network
+ */
+export function parsePodsResult(
+  result: unknown,
+  method = 'get-pods-with-stats'
+): { pods: (PNodeRaw & { seenBy?: string[] })[]; report: ParseReport } {
+  let rawPods: unknown[];
+  let report: ParseReport;
+
+  if (Array.isArray(result)) {
+    rawPods = result;
+    report = emptyReport(method, 'array', rawPods.length);
+  } else if (isObject(result) && Array.isArray(result.pods)) {
+    rawPods = result.pods;
+    report = emptyReport(method, 'object', rawPods.length);
+  } else {
+    const issue: SchemaIssue = { method, index: null, pubkey: null, field: 'pods', value: result, problem: 'expected pod list', dropped: true };
+    throw new Error(`Malformed ${method} result: ${describeIssue(issue)}`);
+  }
+
+  const pods: (PNodeRaw & { seenBy?: string[] })[] = [];
+  rawPods.forEach((raw, index) => {
+    const record = parseRecord(raw, POD_SCHEMA, report, index);
+    if (record) pods.push(toPod(record));
+  });
+
+  return { pods, report };
+}
+
+/**
+ * Validate a get-stats result ({ stats: {...}, file_size })
+ * @throws If the result has no stats object
+ */
+export function parseStatsResult(result: unknown): { stats: StatsResponse; report: ParseReport } {
+  const report = emptyReport('get-stats', isObject(result) ? 'object' : 'invalid', 1);
+
+  let parsed: Record<string, unknown> | null = null;
+  if (isObject(result) && isObject(result.stats)) {
+    // file_size sits beside the stats object; validate them as one record
+    parsed = parseRecord({ ...result.stats, file_size: result.file_size }, STATS_SCHEMA, report, null);
+  } else {
+    const value = isObject(result) ? result.stats ?? null : result;
+    report.issues.push({ method: report.method, index: null, pubkey: null, field: 'stats', value, problem: 'expected object', dropped: true });
+    report.dropped++;
+  }
+  if (!parsed) throw malformed(report);
+
+  return { stats: toStats(parsed), report };
+}
+
+/**
+ * Validate a get-version result
+ * @throws If the result has no version
+ */
+export function parseVersionResult(result: unknown): { version: VersionResponse; report: ParseReport } {
+  const report = emptyReport('get-version', isObject(result) ? 'object' : 'invalid', 1);
+  const version = parseRecord(result, VERSION_SCHEMA, report, null);
+  if (!version) throw malformed(report);
+
+  return { version: { version: text(version, 'version') }, report };
+}
+
+/**
+ * Combine the reports of several answers to the same method
+ */
+export function mergeReports(reports: ParseReport[], method = 'get-pods-with-stats'): ParseReport {
+  const merged = emptyReport(method, 'object', 0);
+  if (reports.length > 0 && reports.every((r) => r.shape === reports[0].shape)) {
+    merged.shape = reports[0].shape;
+  }
+
+  for (const report of reports) {
+    merged.received += report.received;
+    merged.accepted += report.accepted;
+    merged.dropped += report.dropped;
+    merged.issues.push(...report.issues);
+    for (const [field, count] of Object.entries(report.nullFields)) {
+      merged.nullFields[field] = (merged.nullFields[field] || 0) + count;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * One-line summary of a report's problems for logs, or null if it has none
+ */
+export function summarizeReport(report: ParseReport, limit = 5): string | null {
+  if (report.issues.length === 0) return null;
+  const shown = report.issues.slice(0, limit).map(describeIssue).join('; ');
+  const more = report.issues.length > limit ? `; ${report.issues.length - limit} more` : '';
+  return `${report.method}: ${report.dropped} of ${report.received} records dropped, ${report.issues.length} issues - ${shown}${more}`;
+}
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NetworkSnapshot, NodeObservation, NodeSnapshot } from '@/types';
+import { calculateNetworkStats } from './metrics';
+import { detectRestarts, observeNodes } from './restarts';
+
+const MINUTE_MS = 60 * 1000;
+
+function node(pubkey: string, uptime: number, lastSeen: number, version = '0.8.0'): NodeSnapshot {
+  return {
+    address: '10.0.0.1:9001',
+    is_public: true,
+    last_seen_timestamp: lastSeen / 1000,
+    pubkey,
+    rpc_port: 6000,
+    storage_committed: 0,
+    storage_usage_percent: 0,
+    storage_used: 0,
+    uptime,
+    version,
+    status: 'online',
+    healthScore: 100,
+  };
+}
+
+function snapshot(timestamp: number, nodes: NodeSnapshot[]): NetworkSnapshot {
+  return { timestamp, nodes, stats: calculateNetworkStats([]) };
+}
+
+/**
+ * Feed snapshots through detection in poll order, as the collector does
+ */
+function restartsOver(snapshots: NetworkSnapshot[]) {
+  const observations = new Map<string, NodeObservation>();
+  return snapshots.flatMap((s) => {
+    const restarts = detectRestarts(observations, s);
+    observeNodes(observations, s);
+    return restarts;
+  });
+}
+
+test('detects a restart across polls the node was missing from', () => {
+  const t = Date.UTC(2026, 0, 1);
+  const restarts = restartsOver([
+    snapshot(t, [node('a', 3600, t), node('b', 100, t)]),
+    snapshot(t + MINUTE_MS, [node('b', 160, t + MINUTE_MS)]),
+    snapshot(t + 2 * MINUTE_MS, [node('a', 30, t + 2 * MINUTE_MS, '0.8.1'), node('b', 220, t + 2 * MINUTE_MS)]),
+  ]);
+
+  assert.equal(restarts.length, 1);
+  assert.equal(restarts[0].pubkey, 'a');
+  assert.equal(restarts[0].uptimeBefore, 3600);
+  assert.equal(restarts[0].uptimeAfter, 30);
+  assert.equal(restarts[0].kind, 'upgrade');
+  assert.equal(restarts[0].detectedAt, t + 2 * MINUTE_MS);
+});
+
+test('does not take a node back with higher uptime as a restart', () => {
+  const t = Date.UTC(2026, 0, 1);
+  const restarts = restartsOver([
+    snapshot(t, [node('a', 3600, t)]),
+    snapshot(t + MINUTE_MS, []),
+    snapshot(t + 2 * MINUTE_MS, [node('a', 3720, t + 2 * MINUTE_MS)]),
+  ]);
+
+  assert.deepEqual(restarts, []);
+});
+
+test('forgets nodes missing for longer than forgetAfter', () => {
+  const t = Date.UTC(2026, 0, 1);
+  const later = t + 8 * 24 * 60 * MINUTE_MS;
+  const restarts = restartsOver([
+    snapshot(t, [node('a', 3600, t)]),
+    snapshot(later, [node('b', 100, later)]),
+    snapshot(later + MINUTE_MS, [node('a', 30, later + MINUTE_MS)]),
+  ]);
+
+  assert.deepEqual(restarts, []);
+});
@@ -0,0 +1,174 @@
+// =============================================================================
+// Restart Detection
+// Finds node restarts from uptime resets between consecutive observations
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { NetworkSnapshot, NodeObservation, NodeSnapshot, RestartEvent, RestartKind } from '@/types';
+import { RESTART_CONFIG } from './constants';
+import { DEFAULT_NETWORK, networkDataPath } from './networks';
+import { clamp } from './utils';
+import { pruneLines, readLinesBackward } from './jsonl';
+import { compareVersions } from './versions';
+
+// Per network
+const lastPrune = new Map<string, number>();
+
+/**
+ * Classify a restart by how the version changed across it
+ */
+function restartKind(versionBefore: string, versionAfter: string): RestartKind {
+  if (versionBefore === versionAfter) return 'crash';
+  return compareVersions(versionAfter, versionBefore) > 0
+    ? 'upgrade'
+    : 'downgrade';
+}
+
+/**
+ * Compare two observations of the same node and return the restart between
+ * them, if any. `uptime` is a counter that only grows while the node runs, so
+ * a restart shows up as a drop. Uptime lagging the time elapsed is not one:
+ * stats are refreshed less often than `last_seen`, so a running node can
+ * report a stale uptime beside a fresh timestamp.
+ */
+export function detectRestart(
+  previous: NodeSnapshot,
+  current: NodeSnapshot,
+  observedAt: number
+): RestartEvent | null {
+  if (current.uptime >= previous.uptime) return null;
+
+  // Uptime is reported as of last_seen, so that is when the clock started
+  const estimatedAt = clamp(
+    (current.last_seen_timestamp - current.uptime) * 1000,
+    previous.last_seen_timestamp * 1000,
+    observedAt
+  );
+
+  return {
+    pubkey: current.pubkey,
+    detectedAt: observedAt,
+    estimatedAt,
+    uptimeBefore: previous.uptime,
+    uptimeAfter: current.uptime,
+    versionBefore: previous.version,
+    versionAfter: current.version,
+    kind: restartKind(previous.version, current.version),
+  };
+}
+
+/**
+ * Find every restart in a snapshot by comparing each node with its last
+ * observation, which may be polls old if it dropped out of gossip meanwhile
+ * @param observations - Last observation per pubkey (see observeNodes)
+ */
+export function detectRestarts(
+  observations: Map<string, NodeObservation>,
+  current: NetworkSnapshot
+): RestartEvent[] {
+  const restarts: RestartEvent[] = [];
+
+  for (const node of current.nodes) {
+    const before = observations.get(node.pubkey);
+    if (!before) continue;
+    const restart = detectRestart(before.node, node, current.timestamp);
+    if (restart) restarts.push(restart);
+  }
+
+  return restarts;
+}
+
+/**
+ * Record each node of a snapshot as its last observation, forgetting nodes
+ * missing from gossip for longer than RESTART_CONFIG.forgetAfter
+ */
+export function observeNodes(observations: Map<string, NodeObservation>, snapshot: NetworkSnapshot): void {
+  for (const node of snapshot.nodes) {
+    observations.set(node.pubkey, { node, at: snapshot.timestamp });
+  }
+  observations.forEach((observation, pubkey) => {
+    if (snapshot.timestamp - observation.at > RESTART_CONFIG.forgetAfter) observations.delete(pubkey);
+  });
+}
+
+/**
+ * Drop restarts older than the retention period from a network's log
+ */
+async function pruneRestarts(file: string, now: number): Promise<void> {
+  const cutoff = now - RESTART_CONFIG.retentionDays * 24 * 60 * 60 * 1000;
+  const dropped = await pruneLines(file, (line) => {
+    try {
+      return (JSON.parse(line) as RestartEvent).detectedAt >= cutoff;
+    } catch {
+      // A torn last line from an interrupted write; skip it
+      return false;
+    }
+  });
+  if (dropped > 0) console.log(`[Restarts] Pruned ${dropped} restarts from ${file}`);
+}
+
+/**
+ * Append restart events to a network's restart log, pruning it once a day
+ */
+export async function recordRestarts(
+  events: RestartEvent[],
+  network = DEFAULT_NETWORK,
+  now = Date.now()
+): Promise<void> {
+  const file = networkDataPath(RESTART_CONFIG.file, network);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  if (events.length > 0) {
+    await fs.appendFile(
+      file,
+      events.map((e) => JSON.stringify(e)).join('\n') + '\n'
+    );
+  }
+
+  if (now - (lastPrune.get(network) ?? 0) >= RESTART_CONFIG.pruneInterval) {
+    lastPrune.set(network, now);
+    await pruneRestarts(file, now);
+  }
+}
+
+/**
+ * Read restart events, newest first. The log is read from its end and
+ * reading stops once events were detected before `from`, since a restart
+ * is never estimated later than it was detected.
+ */
+export async function getRestarts(filter: {
+  pubkey?: string;
+  from?: number;
+  to?: number;
+  network?: string;
+} = {}): Promise<RestartEvent[]> {
+  const events: RestartEvent[] = [];
+  for await (const line of readLinesBackward(networkDataPath(RESTART_CONFIG.file, filter.network))) {
+    try {
+      const event: RestartEvent = JSON.parse(line);
+      if (filter.from !== undefined && event.detectedAt < filter.from) break;
+      if (filter.pubkey && event.pubkey !== filter.pubkey) continue;
+      if (filter.from !== undefined && event.estimatedAt < filter.from) continue;
+      if (filter.to !== undefined && event.estimatedAt > filter.to) continue;
+      events.push(event);
+    } catch {
+      // A torn last line from an interrupted write; skip it
+    }
+  }
+
+  return events.sort((a, b) => b.estimatedAt - a.estimatedAt);
+}
+
+/**
+ * Count restarts per pubkey since a timestamp
+ */
+export async function countRestarts(
+  since = Date.now() - RESTART_CONFIG.countWindow,
+  network = DEFAULT_NETWORK
+): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (const event of await getRestarts({ from: since, network })) {
+    counts[event.pubkey] = (counts[event.pubkey] || 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,159 @@
+// =============================================================================
+// Version Rollout
+// Per-version adoption over time from stored snapshots (server-side only)
+// =============================================================================
+
+import {
+  SnapshotSummary,
+  RolloutPoint,
+  ReleaseAdoption,
+  Laggard,
+  VersionRollout,
+} from '@/types';
+import { ROLLOUT_CONFIG, SNAPSHOT_CONFIG } from './constants';
+import { getSnapshotAt, getSnapshotSummaries, downsampleSnapshots } from './snapshotStore';
+import { DEFAULT_NETWORK } from './networks';
+import {
+  compareVersions,
+  isStableVersion,
+  classifyVersion,
+  resolveCurrentRelease,
+} from './versions';
+import { calculatePercent } from './utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Count nodes per version in a snapshot
+ */
+function countVersions(snapshot: SnapshotSummary): Map<string, number> {
+  return new Map(Object.entries(snapshot.stats.versionDistribution));
+}
+
+/**
+ * Percent of a snapshot's nodes on a version or newer
+ */
+function adoptionShare(counts: Map<string, number>, total: number, version: string): number {
+  let adopted = 0;
+  counts.forEach((count, v) => {
+    if (compareVersions(v, version) >= 0) adopted += count;
+  });
+  return calculatePercent(adopted, total);
+}
+
+/**
+ * Adoption of one version across a series of snapshots (oldest first)
+ */
+function measureAdoption(
+  version: string,
+  snapshots: SnapshotSummary[],
+  counts: Map<string, number>[]
+): ReleaseAdoption {
+  const firstIndex = counts.findIndex((c) => c.has(version));
+  const firstSeen = snapshots[firstIndex].timestamp;
+  let timeTo50: number | null = null;
+  let timeTo90: number | null = null;
+
+  // A version already present in the first sample was released before
+  // history began, so elapsed times from that sample would be meaningless
+  for (let i = firstIndex; firstIndex > 0 && i < snapshots.length && timeTo90 === null; i++) {
+    const share = adoptionShare(counts[i], snapshots[i].stats.totalNodes, version);
+    const elapsed = snapshots[i].timestamp - firstSeen;
+    if (timeTo50 === null && share >= 50) timeTo50 = elapsed;
+    if (share >= 90) timeTo90 = elapsed;
+  }
+
+  const last = snapshots.length - 1;
+  const total = snapshots[last].stats.totalNodes;
+
+  return {
+    version,
+    stable: isStableVersion(version),
+    firstSeen,
+    seenAtHistoryStart: firstIndex === 0,
+    share: calculatePercent(counts[last].get(version) || 0, total),
+    adoption: adoptionShare(counts[last], total, version),
+    timeTo50,
+    timeTo90,
+  };
+}
+
+/**
+ * Version rollout between two timestamps. Releases are dated and their
+ * adoption measured on every stored sample up to the end of the range, not
+ * just those inside it, so a release seen before the range keeps its real
+ * first-seen date. The chart series is downsampled to the requested
+ * resolution.
+ * @param graceDays - Days after a release is first seen before nodes still
+ * behind it count as laggards
+ */
+export async function getVersionRollout(
+  from: number,
+  to: number,
+  resolution: number,
+  graceDays = ROLLOUT_CONFIG.laggardGraceDays,
+  now = Date.now(),
+  network = DEFAULT_NETWORK
+): Promise<VersionRollout> {
+  // Nothing older than the coarsest tier's retention is stored
+  const historyStart = to - SNAPSHOT_CONFIG.dailyRetentionDays * DAY_MS;
+  const history = (await getSnapshotSummaries(historyStart, to, network)).filter((s) => s.stats.totalNodes > 0);
+  const inRange = history.filter((s) => s.timestamp >= from);
+  const latest = await getSnapshotAt(to, network);
+
+  if (inRange.length === 0 || !latest) {
+    return {
+      versions: [],
+      series: [],
+      releases: [],
+      laggards: { release: null, releasedAt: null, graceDays, nodes: [] },
+    };
+  }
+
+  const counts = history.map(countVersions);
+  // Versions seen in the range, newest first
+  const versions = Array.from(
+    new Set(counts.slice(history.length - inRange.length).flatMap((c) => Array.from(c.keys())))
+  ).sort((a, b) => compareVersions(b, a));
+
+  const releases = versions.map((v) => measureAdoption(v, history, counts));
+
+  const sampled = resolution > 0 ? downsampleSnapshots(inRange, resolution) : inRange;
+  const series: RolloutPoint[] = sampled.map((snapshot) => {
+    const shares: Record<string, number> = {};
+    countVersions(snapshot).forEach((count, version) => {
+      shares[version] = calculatePercent(count, snapshot.stats.totalNodes);
+    });
+    return { timestamp: snapshot.timestamp, totalNodes: snapshot.stats.totalNodes, shares };
+  });
+
+  // Laggards: nodes in the latest snapshot still behind the newest stable
+  // release that has been out for the whole grace period
+  const cutoff = now - graceDays * DAY_MS;
+  const target = releases.find((r) => r.stable && r.firstSeen <= cutoff) ?? null;
+  const currentRelease = resolveCurrentRelease(latest.nodes.map((n) => n.version));
+
+  const laggards: Laggard[] = target
+    ? latest.nodes
+        .filter((n) => compareVersions(n.version, target.version) < 0)
+        .sort((a, b) => compareVersions(a.version, b.version))
+        .map((n) => ({
+          pubkey: n.pubkey,
+          version: n.version,
+          versionStatus: classifyVersion(n.version, currentRelease),
+          status: n.status,
+        }))
+    : [];
+
+  return {
+    versions,
+    series,
+    releases,
+    laggards: {
+      release: target?.version ?? null,
+      releasedAt: target?.firstSeen ?? null,
+      graceDays,
+      nodes: laggards,
+    },
+  };
+}
@@ -0,0 +1,491 @@
+// =============================================================================
+// Snapshot Store
+// Append-only, file-backed time series of pRPC polls (server-side only).
+// Each day file has a summary index beside it with the same snapshots minus
+// their node lists, for queries that only need network-wide figures.
+// =============================================================================
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  PNode,
+  NetworkStats,
+  NodeSnapshot,
+  NetworkSnapshot,
+  NodeSample,
+  SnapshotSummary,
+  SnapshotTier,
+} from '@/types';
+import { SNAPSHOT_CONFIG } from './constants';
+import { DEFAULT_NETWORK, networkDataPath } from './networks';
+import { readLines, readLinesBackward, readLinesFrom } from './jsonl';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Tiers ordered from finest to coarsest resolution
+const TIERS: SnapshotTier[] = ['raw', 'hourly', 'daily'];
+
+const SUMMARY_SUFFIX = '.summary.jsonl';
+const TIMESTAMP_PREFIX = /^\{"timestamp":(\d+)/;
+// Only snapshots carry this key; nodes and stats do not
+const SAMPLES_FIELD = /"samples":(\d+)/;
+
+// Per network
+const lastCompaction = new Map<string, number>();
+const compactions = new Map<string, Promise<void>>();
+
+// One node's samples from a day file, by file and pubkey, with where reading
+// stopped. Files are only appended to until compaction replaces them with a
+// new inode, so a later read picks up from the same offset.
+const nodeSeriesCache = new Map<string, { ino: number; end: number; samples: NodeSample[] }>();
+
+/**
+ * UTC day key (YYYY-MM-DD) used to name snapshot files
+ */
+function dayKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Path of the file holding one day of snapshots for a tier
+ */
+function tierFile(tier: SnapshotTier, day: string, network: string): string {
+  return path.join(networkDataPath(SNAPSHOT_CONFIG.dir, network), tier, `${day}.jsonl`);
+}
+
+/**
+ * Path of a day file's summary index: the same snapshots without nodes
+ */
+function summaryFile(tier: SnapshotTier, day: string, network: string): string {
+  return tierFile(tier, day, network).replace(/\.jsonl$/, SUMMARY_SUFFIX);
+}
+
+/**
+ * Timestamp of a stored line without parsing it. Every line is written
+ * with the timestamp first.
+ */
+function lineTimestamp(line: string): number | null {
+  const match = TIMESTAMP_PREFIX.exec(line);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function parseLine<T>(line: string): T | null {
+  try {
+    return JSON.parse(line);
+  } catch {
+    // A torn last line from an interrupted write; skip it
+    return null;
+  }
+}
+
+function toSummary({ nodes: _nodes, ...summary }: NetworkSnapshot): SnapshotSummary {
+  return summary;
+}
+
+/**
+ * Stored lines of a file between two timestamps (inclusive). Lines are in
+ * time order, so reading stops at the first line after the range.
+ */
+async function* readRange(file: string, from: number, to: number): AsyncGenerator<string> {
+  for await (const line of readLines(file)) {
+    const timestamp = lineTimestamp(line);
+    if (timestamp === null || timestamp < from) continue;
+    if (timestamp > to) return;
+    yield line;
+  }
+}
+
+/**
+ * Pick one node out of a stored line without parsing the others. Node
+ * objects are flat, so the braces nearest its pubkey enclose it.
+ */
+function extractNode(line: string, pubkey: string): NodeSnapshot | null {
+  const at = line.indexOf(`"pubkey":${JSON.stringify(pubkey)}`);
+  if (at === -1) return null;
+
+  const node = parseLine<NodeSnapshot>(line.slice(line.lastIndexOf('{', at), line.indexOf('}', at) + 1));
+  if (node?.pubkey === pubkey) return node;
+  // A brace inside a string value; parse the whole line instead
+  return parseLine<NetworkSnapshot>(line)?.nodes.find((n) => n.pubkey === pubkey) ?? null;
+}
+
+/**
+ * One node's samples from a day file, reading only lines appended since the
+ * last call for the same file and node
+ */
+async function readNodeSamples(file: string, pubkey: string): Promise<NodeSample[]> {
+  const key = `${file}\n${pubkey}`;
+  let ino: number;
+  try {
+    ino = (await fs.stat(file)).ino;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    nodeSeriesCache.delete(key);
+    return [];
+  }
+
+  const cached = nodeSeriesCache.get(key);
+  const start = cached?.ino === ino ? cached : { ino, end: 0, samples: [] };
+  const samples = [...start.samples];
+  let end = start.end;
+
+  for await (const { line, end: lineEnd } of readLinesFrom(file, end)) {
+    end = lineEnd;
+    const timestamp = lineTimestamp(line);
+    if (timestamp !== null) samples.push({ timestamp, node: extractNode(line, pubkey) });
+  }
+
+  // Least recently read first, so the oldest entry is evicted
+  nodeSeriesCache.delete(key);
+  nodeSeriesCache.set(key, { ino, end, samples });
+  if (nodeSeriesCache.size > SNAPSHOT_CONFIG.nodeSeriesCacheSize) {
+    nodeSeriesCache.delete(nodeSeriesCache.keys().next().value as string);
+  }
+  return samples;
+}
+
+/**
+ * Write a tier's day file and its summary index in full, replacing any
+ * earlier copy. Each is written then renamed, so rerunning an interrupted
+ * compaction produces the same files instead of duplicates.
+ */
+async function writeTierDay(
+  tier: SnapshotTier,
+  day: string,
+  snapshots: NetworkSnapshot[],
+  network: string
+): Promise<void> {
+  const file = tierFile(tier, day, network);
+  const summaries = summaryFile(tier, day, network);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+
+  await fs.writeFile(`${summaries}.tmp`, snapshots.map((s) => JSON.stringify(toSummary(s)) + '\n').join(''));
+  await fs.rename(`${summaries}.tmp`, summaries);
+  await fs.writeFile(`${file}.tmp`, snapshots.map((s) => JSON.stringify(s) + '\n').join(''));
+  await fs.rename(`${file}.tmp`, file);
+}
+
+async function removeTierDay(tier: SnapshotTier, day: string, network: string): Promise<void> {
+  for (const file of [tierFile(tier, day, network), summaryFile(tier, day, network)]) {
+    try {
+      await fs.unlink(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+}
+
+/**
+ * List the day keys that have a file in a tier
+ */
+async function listTierDays(tier: SnapshotTier, network: string): Promise<string[]> {
+  try {
+    const files = await fs.readdir(path.join(networkDataPath(SNAPSHOT_CONFIG.dir, network), tier));
+    return files
+      .filter((f) => f.endsWith('.jsonl') && !f.endsWith(SUMMARY_SUFFIX))
+      .map((f) => f.replace('.jsonl', ''))
+      .sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The days with a file between two timestamps, oldest first, each with the
+ * finest tier holding it. Only existing files are listed, so a range
+ * reaching far past retention costs nothing extra.
+ */
+async function tierDaysBetween(
+  from: number,
+  to: number,
+  network: string
+): Promise<{ day: string; tier: SnapshotTier }[]> {
+  const start = Math.floor(from / DAY_MS) * DAY_MS;
+  const tiers = new Map<string, SnapshotTier>();
+
+  for (const tier of TIERS) {
+    for (const day of await listTierDays(tier, network)) {
+      const at = Date.parse(day);
+      if (at >= start && at <= to && !tiers.has(day)) tiers.set(day, tier);
+    }
+  }
+  return Array.from(tiers, ([day, tier]) => ({ day, tier })).sort((a, b) => a.day.localeCompare(b.day));
+}
+
+/**
+ * Downsample a day file as it is read, keeping only the latest line of
+ * each bucket in memory
+ */
+async function downsampleTierDay(
+  tier: SnapshotTier,
+  day: string,
+  bucketMs: number,
+  network: string
+): Promise<NetworkSnapshot[]> {
+  const buckets = new Map<number, { line: string; timestamp: number; samples: number }>();
+
+  for await (const line of readLines(tierFile(tier, day, network))) {
+    const timestamp = lineTimestamp(line);
+    if (timestamp === null) continue;
+    const bucket = Math.floor(timestamp / bucketMs);
+    const samples = parseInt(SAMPLES_FIELD.exec(line)?.[1] ?? '1', 10);
+    const previous = buckets.get(bucket);
+    buckets.set(bucket, {
+      line: !previous || timestamp >= previous.timestamp ? line : previous.line,
+      timestamp: Math.max(timestamp, previous?.timestamp ?? timestamp),
+      samples: (previous?.samples ?? 0) + samples,
+    });
+  }
+
+  const snapshots: NetworkSnapshot[] = [];
+  for (const { line, samples } of Array.from(buckets.values())) {
+    const snapshot = parseLine<NetworkSnapshot>(line);
+    if (snapshot) snapshots.push({ ...snapshot, samples });
+  }
+  return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * The latest snapshot of a day taken at or before a timestamp. Reads the
+ * file from the end, so finding the day's last poll is cheap.
+ */
+async function latestOfDay(
+  tier: SnapshotTier,
+  day: string,
+  timestamp: number,
+  network: string
+): Promise<NetworkSnapshot | null> {
+  for await (const line of readLinesBackward(tierFile(tier, day, network))) {
+    const at = lineTimestamp(line);
+    if (at === null || at > timestamp) continue;
+    const snapshot = parseLine<NetworkSnapshot>(line);
+    if (snapshot) return snapshot;
+  }
+  return null;
+}
+
+/**
+ * Keep the last snapshot of every bucket, tallying how many polls it stands for
+ */
+export function downsampleSnapshots<T extends SnapshotSummary>(snapshots: T[], bucketMs: number): T[] {
+  const buckets = new Map<number, T>();
+
+  for (const snapshot of [...snapshots].sort((a, b) => a.timestamp - b.timestamp)) {
+    const bucket = Math.floor(snapshot.timestamp / bucketMs);
+    const previous = buckets.get(bucket);
+    buckets.set(bucket, {
+      ...snapshot,
+      samples: (previous?.samples ?? 0) + (snapshot.samples ?? 1),
+    });
+  }
+
+  return Array.from(buckets.values());
+}
+
+/**
+ * Strip presentation-only fields so snapshots stay compact
+ */
+function toNodeSnapshot(node: PNode): NodeSnapshot {
+  return {
+    address: node.address,
+    is_public: node.is_public,
+    last_seen_timestamp: node.last_seen_timestamp,
+    pubkey: node.pubkey,
+    rpc_port: node.rpc_port,
+    storage_committed: node.storage_committed,
+    storage_usage_percent: node.storage_usage_percent,
+    storage_used: node.storage_used,
+    uptime: node.uptime,
+    version: node.version,
+    status: node.status,
+    healthScore: node.healthScore,
+  };
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Record one poll of a network
+ */
+export async function recordSnapshot(
+  nodes: PNode[],
+  stats: NetworkStats,
+  timestamp = Date.now(),
+  network = DEFAULT_NETWORK
+): Promise<NetworkSnapshot> {
+  const snapshot: NetworkSnapshot = {
+    timestamp,
+    nodes: nodes.map(toNodeSnapshot),
+    stats,
+  };
+
+  const day = dayKey(timestamp);
+  const file = tierFile('raw', day, network);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, JSON.stringify(snapshot) + '\n');
+  await fs.appendFile(summaryFile('raw', day, network), JSON.stringify(toSummary(snapshot)) + '\n');
+
+  if (timestamp - (lastCompaction.get(network) ?? 0) >= SNAPSHOT_CONFIG.compactionInterval) {
+    lastCompaction.set(network, timestamp);
+    compactSnapshots(timestamp, network).catch((error) => {
+      console.error('Snapshot compaction failed:', error);
+    });
+  }
+
+  return snapshot;
+}
+
+/**
+ * Get all snapshots between two timestamps (inclusive), oldest first.
+ * Each day is served from the finest tier that still holds it. Every node
+ * of every snapshot is loaded; prefer getSnapshotSummaries when the
+ * network-wide figures are enough.
+ */
+export async function getSnapshots(
+  from: number,
+  to: number,
+  network = DEFAULT_NETWORK
+): Promise<NetworkSnapshot[]> {
+  const snapshots: NetworkSnapshot[] = [];
+
+  for (const { day, tier } of await tierDaysBetween(from, to, network)) {
+    for await (const line of readRange(tierFile(tier, day, network), from, to)) {
+      const snapshot = parseLine<NetworkSnapshot>(line);
+      if (snapshot) snapshots.push(snapshot);
+    }
+  }
+
+  return snapshots.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Get snapshot summaries (stats without node lists) between two timestamps
+ * (inclusive), oldest first, from the summary index of each day
+ */
+export async function getSnapshotSummaries(
+  from: number,
+  to: number,
+  network = DEFAULT_NETWORK
+): Promise<SnapshotSummary[]> {
+  const summaries: SnapshotSummary[] = [];
+
+  for (const { day, tier } of await tierDaysBetween(from, to, network)) {
+    // Days recorded before summary indexes existed are read in full
+    const index = summaryFile(tier, day, network);
+    const indexed = await exists(index);
+    for await (const line of readRange(indexed ? index : tierFile(tier, day, network), from, to)) {
+      const record = parseLine<NetworkSnapshot | SnapshotSummary>(line);
+      if (record) summaries.push('nodes' in record ? toSummary(record) : record);
+    }
+  }
+
+  return summaries.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Get one node's samples between two timestamps (inclusive), oldest first.
+ * Only that node is parsed from each snapshot, and day files already read
+ * for it are served from memory apart from lines appended since.
+ */
+export async function getNodeSamples(
+  pubkey: string,
+  from: number,
+  to: number,
+  network = DEFAULT_NETWORK
+): Promise<NodeSample[]> {
+  const samples: NodeSample[] = [];
+
+  for (const { day, tier } of await tierDaysBetween(from, to, network)) {
+    for (const sample of await readNodeSamples(tierFile(tier, day, network), pubkey)) {
+      if (sample.timestamp >= from && sample.timestamp <= to) samples.push(sample);
+    }
+  }
+
+  return samples.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Get the network as it looked at a point in time: the latest snapshot
+ * taken at or before the timestamp, or null if none is retained. Only days
+ * that have a file are read, newest first.
+ */
+export async function getSnapshotAt(
+  timestamp: number,
+  network = DEFAULT_NETWORK
+): Promise<NetworkSnapshot | null> {
+  const target = dayKey(timestamp);
+  const tiers = new Map<string, SnapshotTier>();
+  // Coarsest first, so finer tiers win for days held by more than one
+  for (const tier of [...TIERS].reverse()) {
+    for (const day of await listTierDays(tier, network)) {
+      if (day <= target) tiers.set(day, tier);
+    }
+  }
+
+  const days = Array.from(tiers.keys()).sort().reverse();
+  for (const day of days) {
+    const snapshot = await latestOfDay(tiers.get(day) as SnapshotTier, day, timestamp, network);
+    if (snapshot) return snapshot;
+  }
+
+  return null;
+}
+
+/**
+ * Get the most recent snapshot
+ */
+export async function getLatestSnapshot(network = DEFAULT_NETWORK): Promise<NetworkSnapshot | null> {
+  return getSnapshotAt(Date.now(), network);
+}
+
+/**
+ * Apply retention: downsample raw days to hourly, hourly days to daily,
+ * and delete daily days past retention. The coarser copy is written in full
+ * before the finer one is removed, so an interrupted run is simply redone.
+ */
+export async function compactSnapshots(now = Date.now(), network = DEFAULT_NETWORK): Promise<void> {
+  const running = compactions.get(network);
+  if (running) return running;
+
+  const compaction = (async () => {
+    const rawCutoff = dayKey(now - SNAPSHOT_CONFIG.rawRetentionDays * DAY_MS);
+    for (const day of await listTierDays('raw', network)) {
+      if (day >= rawCutoff) continue;
+      await writeTierDay('hourly', day, await downsampleTierDay('raw', day, HOUR_MS, network), network);
+      await removeTierDay('raw', day, network);
+    }
+
+    const hourlyCutoff = dayKey(now - SNAPSHOT_CONFIG.hourlyRetentionDays * DAY_MS);
+    for (const day of await listTierDays('hourly', network)) {
+      if (day >= hourlyCutoff) continue;
+      await writeTierDay('daily', day, await downsampleTierDay('hourly', day, DAY_MS, network), network);
+      await removeTierDay('hourly', day, network);
+    }
+
+    const dailyCutoff = dayKey(now - SNAPSHOT_CONFIG.dailyRetentionDays * DAY_MS);
+    for (const day of await listTierDays('daily', network)) {
+      if (day >= dailyCutoff) continue;
+      await removeTierDay('daily', day, network);
+    }
+  })();
+  compactions.set(network, compaction);
+
+  try {
+    await compaction;
+  } finally {
+    compactions.delete(network);
+  }
+}
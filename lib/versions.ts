@@ -0,0 +1,138 @@
+// =============================================================================
+// Versions
+// Semver parsing and comparison, release policy and version classification.
+// Pure functions only: safe to import on both server and client.
+// =============================================================================
+
+import { SemVer, VersionStatus, ReleasePolicy, ReleaseInfo } from '@/types';
+import { VERSION_CONFIG } from './constants';
+import releaseManifest from '@/config/release-manifest.json';
+
+// major.minor[.patch][-prerelease][+build], with an optional leading "v"
+const SEMVER_PATTERN =
+  /^v?(\d+)\.(\d+)(?:\.(\d+))?(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+([0-9A-Za-z.-]+))?$/;
+
+/**
+ * Parse a version string; returns null when it is not semver-like
+ */
+export function parseVersion(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) return null;
+
+  return {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2], 10),
+    patch: match[3] ? parseInt(match[3], 10) : 0,
+    prerelease: match[4] ? match[4].split('.') : [],
+    build: match[5] ?? null,
+  };
+}
+
+/**
+ * Compare pre-release identifier lists by semver precedence
+ */
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release ranks above any of its pre-releases
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined) return -1;
+    if (b[i] === undefined) return 1;
+    if (a[i] === b[i]) continue;
+
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+    if (aNumeric && bNumeric) return parseInt(a[i], 10) - parseInt(b[i], 10);
+    // Numeric identifiers rank below alphanumeric ones
+    if (aNumeric !== bNumeric) return aNumeric ? -1 : 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Compare two versions by semver precedence (build metadata is ignored).
+ * Unparseable versions sort below every valid one.
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+
+  if (!va || !vb) {
+    if (va) return 1;
+    if (vb) return -1;
+    return a.localeCompare(b);
+  }
+
+  return (
+    va.major - vb.major ||
+    va.minor - vb.minor ||
+    va.patch - vb.patch ||
+    comparePrerelease(va.prerelease, vb.prerelease)
+  );
+}
+
+/**
+ * A valid version without a pre-release tag
+ */
+export function isStableVersion(version: string): boolean {
+  const parsed = parseVersion(version);
+  return parsed !== null && parsed.prerelease.length === 0;
+}
+
+/**
+ * Determine the current release under a policy. The observed policy picks the
+ * highest stable version in gossip, falling back to the manifest when nothing
+ * stable is observed.
+ */
+export function resolveCurrentRelease(
+  versions: string[],
+  policy: ReleasePolicy = VERSION_CONFIG.policy
+): string {
+  if (policy === 'observed') {
+    const stable = versions.filter(isStableVersion);
+    if (stable.length > 0) {
+      return stable.reduce((max, v) => (compareVersions(v, max) > 0 ? v : max));
+    }
+  }
+  return releaseManifest.current;
+}
+
+/**
+ * Release info for the versions seen across a set of nodes
+ */
+export function getReleaseInfo(
+  nodes: { version: string }[],
+  policy: ReleasePolicy = VERSION_CONFIG.policy
+): ReleaseInfo {
+  const current = resolveCurrentRelease(
+    nodes.map((n) => n.version),
+    policy
+  );
+
+  return {
+    current,
+    policy,
+    name: compareVersions(current, releaseManifest.current) === 0 ? releaseManifest.name : null,
+  };
+}
+
+/**
+ * Classify a version against the current release: at or above it is current,
+ * an older patch of the same minor line is patch behind, anything within the
+ * previous minor line is one minor behind, and everything else (including
+ * unparseable versions) is unsupported
+ */
+export function classifyVersion(version: string, currentRelease: string): VersionStatus {
+  const parsed = parseVersion(version);
+  const current = parseVersion(currentRelease);
+  if (!parsed || !current) return 'unsupported';
+
+  if (compareVersions(version, currentRelease) >= 0) return 'current';
+  if (parsed.major === current.major && parsed.minor === current.minor) return 'patch-behind';
+  if (parsed.major === current.major && parsed.minor === current.minor - 1) {
+    return 'one-minor-behind';
+  }
+  return 'unsupported';
+}
@@ -10,12 +10,19 @@ import {
   PRPCResponse,
   VersionResponse,
   StatsResponse,
-  PodsResponse,
   NodeStatus,
+  EndpointPods,
+  ConsensusReport,
+  ParseReport,
 } from '@/types';
-import { PRPC_CONFIG, STATUS_THRESHOLDS, LATEST_VERSION } from './constants';
+import { CACHE_CONFIG, PRPC_CONFIG, STATUS_THRESHOLDS } from './constants';
 import { delay, formatBytes, formatUptime, parseAddress } from './utils';
-import { calculateHealthScore } from './metrics';
+import { calculateHealthScore } from './healthScore';
+import { classifyVersion, resolveCurrentRelease } from './versions';
+import { mergePods, buildConsensusReport } from './consensus';
+import { parsePodsResult, parseStatsResult, parseVersionResult, mergeReports, summarizeReport } from './prpcSchema';
+import { trackRequest, isEndpointAvailable, endpointsToTry } from './endpointRegistry';
+import { DEFAULT_NETWORK, networkEndpoints } from './networks';
 
 // In-memory cache
 interface CacheEntry<T> {
@@ -26,6 +33,16 @@ interface CacheEntry<T> {
 
 const cache = new Map<string, CacheEntry<unknown>>();
 
+// Latest pod list validation per network
+const parseReports = new Map<string, ParseReport>();
+
+interface FetchOptions {
+  // Skip the cache and always query pRPC
+  fresh?: boolean;
+  // Network whose endpoints are queried (defaults to the default network)
+  network?: string;
+}
+
 /**
  * Get cached data if valid
  */
@@ -54,11 +71,22 @@ function setCache<T>(key: string, data: T, ttl: number): void {
 }
 
 /**
- * Make a pRPC request to a single endpoint
+ * Make a pRPC request to a single endpoint, recording the outcome in the
+ * endpoint registry
  */
 async function tryPrpcRequest<T>(
   url: string,
   requestBody: PRPCRequest
+): Promise<T> {
+  return trackRequest(url, () => sendPrpcRequest<T>(url, requestBody));
+}
+
+/**
+ * Send one pRPC request with a timeout
+ */
+async function sendPrpcRequest<T>(
+  url: string,
+  requestBody: PRPCRequest
 ): Promise<T> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), PRPC_CONFIG.timeout);
@@ -102,7 +130,8 @@ async function tryPrpcRequest<T>(
 async function prpcRequest<T>(
   method: string,
   params?: unknown[],
-  endpoint?: string
+  endpoint?: string,
+  network?: string
 ): Promise<T> {
   const requestBody: PRPCRequest = {
     jsonrpc: '2.0',
@@ -111,31 +140,70 @@ async function prpcRequest<T>(
     id: Date.now(),
   };
 
-  // If a specific endpoint is provided, only try that one
+  // If a specific endpoint is provided, only try that one. These are
+  // individual nodes rather than configured endpoints, so they stay out of
+  // the endpoint registry.
   if (endpoint) {
-    return tryPrpcRequest<T>(endpoint, requestBody);
+    return sendPrpcRequest<T>(endpoint, requestBody);
   }
 
-  // Build list of endpoints to try: primary + fallbacks
-  const endpoints = [PRPC_CONFIG.endpoint, ...PRPC_CONFIG.fallbackEndpoints];
+  // Walk the network's endpoints best-first by observed health, backing off
+  // exponentially between passes
+  const endpoints = networkEndpoints(network);
   let lastError: Error | null = null;
 
-  for (const url of endpoints) {
-    try {
-      console.log(`Trying pRPC endpoint: ${url}`);
-      const result = await tryPrpcRequest<T>(url, requestBody);
-      console.log(`Success with endpoint: ${url}`);
-      return result;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      console.log(`Failed endpoint ${url}: ${lastError.message}`);
-      // Continue to next endpoint
+  for (let attempt = 0; attempt <= PRPC_CONFIG.retries; attempt++) {
+    if (attempt > 0) {
+      await delay(PRPC_CONFIG.retryDelay * 2 ** (attempt - 1));
+    }
+
+    for (const url of endpointsToTry(endpoints)) {
+      try {
+        console.log(`Trying pRPC endpoint: ${url}`);
+        const result = await tryPrpcRequest<T>(url, requestBody);
+        console.log(`Success with endpoint: ${url}`);
+        return result;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        console.log(`Failed endpoint ${url}: ${lastError.message}`);
+        // Continue to next endpoint
+      }
     }
   }
 
   throw lastError || new Error('All pRPC endpoints failed');
 }
 
+/**
+ * Fetch pods from one endpoint, capturing failure instead of throwing
+ */
+async function fetchEndpointPods(url: string): Promise<EndpointPods> {
+  if (!isEndpointAvailable(url)) {
+    return { endpoint: url, pods: [], error: 'Circuit open', latency: 0, report: null };
+  }
+
+  const started = Date.now();
+  const requestBody: PRPCRequest = {
+    jsonrpc: '2.0',
+    method: 'get-pods-with-stats',
+    id: started,
+  };
+
+  try {
+    const result = await tryPrpcRequest<unknown>(url, requestBody);
+    const { pods, report } = parsePodsResult(result);
+    return { endpoint: url, pods, error: null, latency: Date.now() - started, report };
+  } catch (error) {
+    return {
+      endpoint: url,
+      pods: [],
+      error: error instanceof Error ? error.message : String(error),
+      latency: Date.now() - started,
+      report: null,
+    };
+  }
+}
+
 /**
  * Determine node status based on last seen timestamp
  */
@@ -149,102 +217,167 @@ function determineStatus(lastSeenTimestamp: number): NodeStatus {
 }
 
 /**
- * Transform raw pNode data to processed format
- * Handles null/undefined values from pRPC
+ * Transform validated pNode data to processed format
  */
-function transformPNode(raw: PNodeRaw): PNode {
+function transformPNode(raw: PNodeRaw & { seenBy?: string[] }, currentRelease: string): PNode {
   const { ip, port } = parseAddress(raw.address);
   const status = determineStatus(raw.last_seen_timestamp);
-
-  // Safely handle nullable values
-  const safeRaw = {
-    ...raw,
-    storage_committed: raw.storage_committed ?? 0,
-    storage_used: raw.storage_used ?? 0,
-    storage_usage_percent: raw.storage_usage_percent ?? 0,
-    uptime: raw.uptime ?? 0,
-    rpc_port: raw.rpc_port ?? 6000,
-    is_public: raw.is_public ?? false,
-    version: raw.version ?? 'unknown',
-  };
-
-  const healthScore = calculateHealthScore(safeRaw, status);
+  const healthScore = calculateHealthScore(raw, status, currentRelease);
 
   return {
-    ...safeRaw,
-    id: safeRaw.pubkey,
+    ...raw,
+    id: raw.pubkey,
     ip,
     gossipPort: port,
     status,
+    versionStatus: classifyVersion(raw.version, currentRelease),
     healthScore,
-    lastSeenDate: new Date(safeRaw.last_seen_timestamp * 1000),
-    storageCommittedFormatted: formatBytes(safeRaw.storage_committed),
-    storageUsedFormatted: formatBytes(safeRaw.storage_used),
-    uptimeFormatted: formatUptime(safeRaw.uptime),
+    lastSeenDate: new Date(raw.last_seen_timestamp * 1000),
+    storageCommittedFormatted: formatBytes(raw.storage_committed),
+    storageUsedFormatted: formatBytes(raw.storage_used),
+    uptimeFormatted: formatUptime(raw.uptime),
   };
 }
 
+/**
+ * Keep the latest pod list validation for a network, logging its problems
+ */
+function recordParseReport(network: string, report: ParseReport): void {
+  parseReports.set(network, report);
+  const summary = summarizeReport(report);
+  if (summary) console.warn(`[pRPC] ${network} ${summary}`);
+}
+
 // =============================================================================
 // Public API
 // =============================================================================
 
 /**
  * Fetch pNode version
+ * @param options.fresh - Skip the cache and always query pRPC
+ * @param options.network - Network to query when no endpoint is given
  */
-export async function fetchVersion(endpoint?: string): Promise<VersionResponse> {
-  const cacheKey = `version:${endpoint || 'default'}`;
-  const cached = getFromCache<VersionResponse>(cacheKey);
+export async function fetchVersion(
+  endpoint?: string,
+  options: FetchOptions = {}
+): Promise<VersionResponse> {
+  const cacheKey = `version:${endpoint || options.network || DEFAULT_NETWORK}`;
+  const cached = options.fresh ? null : getFromCache<VersionResponse>(cacheKey);
   if (cached) return cached;
 
-  const result = await prpcRequest<VersionResponse>('get-version', undefined, endpoint);
-  setCache(cacheKey, result, 300); // Cache for 5 minutes
+  const { version: result } = parseVersionResult(
+    await prpcRequest<unknown>('get-version', undefined, endpoint, options.network)
+  );
+  setCache(cacheKey, result, CACHE_CONFIG.versionTtl);
   return result;
 }
 
 /**
  * Fetch node stats
+ * @param options.fresh - Skip the cache and always query pRPC
+ * @param options.network - Network to query when no endpoint is given
+ */
+export async function fetchStats(
+  endpoint?: string,
+  options: FetchOptions = {}
+): Promise<StatsResponse> {
+  const cacheKey = `stats:${endpoint || options.network || DEFAULT_NETWORK}`;
+  const cached = options.fresh ? null : getFromCache<StatsResponse>(cacheKey);
+  if (cached) return cached;
+
+  const { stats: result } = parseStatsResult(
+    await prpcRequest<unknown>('get-stats', undefined, endpoint, options.network)
+  );
+  setCache(cacheKey, result, CACHE_CONFIG.statsTtl);
+  return result;
+}
+
+/**
+ * Check whether a configured endpoint answers get-version. Endpoints whose
+ * circuit is open count as down without being sent a request.
+ */
+export async function probeEndpoint(url: string): Promise<boolean> {
+  if (!isEndpointAvailable(url)) return false;
+  try {
+    await tryPrpcRequest<unknown>(url, { jsonrpc: '2.0', method: 'get-version', id: Date.now() });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Transform raw pods, measuring versions against the current release across all of them
+ */
+function transformPods(pods: (PNodeRaw & { seenBy?: string[] })[]): PNode[] {
+  const currentRelease = resolveCurrentRelease(pods.map((pod) => pod.version));
+  return pods.map((pod) => transformPNode(pod, currentRelease));
+}
+
+/**
+ * Query every endpoint of a network in parallel and merge their pod lists
+ * by pubkey. Each node records the endpoints that see it.
+ * @param options.fresh - Skip the cache and always query pRPC
+ * @param options.network - Network to query (defaults to the default network)
  */
-export async function fetchStats(endpoint?: string): Promise<StatsResponse> {
-  const cacheKey = `stats:${endpoint || 'default'}`;
-  const cached = getFromCache<StatsResponse>(cacheKey);
+export async function fetchConsensus(
+  options: FetchOptions = {}
+): Promise<{ nodes: PNode[]; report: ConsensusReport }> {
+  const cacheKey = `consensus:${options.network || DEFAULT_NETWORK}`;
+  const cached = options.fresh
+    ? null
+    : getFromCache<{ nodes: PNode[]; report: ConsensusReport }>(cacheKey);
   if (cached) return cached;
 
-  const result = await prpcRequest<StatsResponse>('get-stats', undefined, endpoint);
-  setCache(cacheKey, result, 30); // Cache for 30 seconds
+  const endpoints = networkEndpoints(options.network);
+  const answers = await Promise.all(endpoints.map(fetchEndpointPods));
+
+  if (answers.every((a) => a.error !== null)) {
+    throw new Error(`All pRPC endpoints failed: ${answers.map((a) => a.error).join('; ')}`);
+  }
+
+  recordParseReport(
+    options.network || DEFAULT_NETWORK,
+    mergeReports(answers.flatMap((a) => (a.report ? [a.report] : [])))
+  );
+
+  const merged = mergePods(answers);
+  const result = {
+    nodes: transformPods(merged),
+    report: buildConsensusReport(answers, merged),
+  };
+  setCache(cacheKey, result, CACHE_CONFIG.ttl);
   return result;
 }
 
 /**
- * Fetch all pods (pNodes) with stats
+ * Fetch all pods (pNodes) with stats. Without an explicit endpoint, follows
+ * PRPC_CONFIG.mode: the first endpoint of the network that answers, or a
+ * consensus of all of them.
+ * @param options.fresh - Skip the cache and always query pRPC
+ * @param options.network - Network to query when no endpoint is given
  */
-export async function fetchPods(endpoint?: string): Promise<PNode[]> {
-  const cacheKey = `pods:${endpoint || 'default'}`;
-  const cached = getFromCache<PNode[]>(cacheKey);
+export async function fetchPods(
+  endpoint?: string,
+  options: FetchOptions = {}
+): Promise<PNode[]> {
+  if (!endpoint && PRPC_CONFIG.mode === 'consensus') {
+    return (await fetchConsensus(options)).nodes;
+  }
+
+  const cacheKey = `pods:${endpoint || options.network || DEFAULT_NETWORK}`;
+  const cached = options.fresh ? null : getFromCache<PNode[]>(cacheKey);
   if (cached) return cached;
 
   // Try get-pods-with-stats first (more detailed)
   try {
-    const result = await prpcRequest<{ pods: PNodeRaw[] } | PNodeRaw[]>('get-pods-with-stats', undefined, endpoint);
-
-    // Handle both response formats: { pods: [...] } or direct array
-    let rawPods: PNodeRaw[];
-    if (Array.isArray(result)) {
-      rawPods = result;
-    } else if (result && 'pods' in result && Array.isArray(result.pods)) {
-      rawPods = result.pods;
-    } else {
-      rawPods = [];
-    }
-
-    // Filter out nodes with null/missing essential fields and transform
-    const validPods = rawPods.filter(pod =>
-      pod.pubkey &&
-      pod.address &&
-      pod.last_seen_timestamp != null
-    );
+    const result = await prpcRequest<unknown>('get-pods-with-stats', undefined, endpoint, options.network);
 
-    const nodes = validPods.map(transformPNode);
-    setCache(cacheKey, nodes, 60);
+    // Handles both { pods: [...] } and a direct array, reporting invalid pods
+    const { pods, report } = parsePodsResult(result);
+    if (!endpoint) recordParseReport(options.network || DEFAULT_NETWORK, report);
+    const nodes = transformPods(pods);
+    setCache(cacheKey, nodes, CACHE_CONFIG.ttl);
     return nodes;
   } catch (e) {
     console.error('Failed to fetch pods:', e);
@@ -255,11 +388,23 @@ export async function fetchPods(endpoint?: string): Promise<PNode[]> {
 /**
  * Fetch a single pNode by pubkey
  */
-export async function fetchNode(pubkey: string, endpoint?: string): Promise<PNode | null> {
-  const nodes = await fetchPods(endpoint);
+export async function fetchNode(
+  pubkey: string,
+  endpoint?: string,
+  options: FetchOptions = {}
+): Promise<PNode | null> {
+  const nodes = await fetchPods(endpoint, options);
   return nodes.find((n) => n.pubkey === pubkey) || null;
 }
 
+/**
+ * Validation of the latest pod list fetched for a network, or null before
+ * the first fetch
+ */
+export function getParseReport(network = DEFAULT_NETWORK): ParseReport | null {
+  return parseReports.get(network) ?? null;
+}
+
 /**
  * Clear all cache
  */
@@ -0,0 +1,25 @@
+// =============================================================================
+// Alert sink entry point
+// `npm run alert-sink` prints alert deliveries sent to it
+// =============================================================================
+
+import '../collector/env';
+import { startAlertSink } from '@/lib/alertSink';
+
+async function main() {
+  const sink = await startAlertSink();
+
+  const shutdown = async (signal: string) => {
+    console.log(`[Alert Sink] ${signal} received, stopping`);
+    await sink.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+main().catch((error) => {
+  console.error('[Alert Sink] Failed:', error);
+  process.exit(1);
+});
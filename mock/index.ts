@@ -0,0 +1,39 @@
+// =============================================================================
+// Mock pRPC server entry point
+// `npm run mock-prpc` serves a synthetic network (or MOCK_PRPC_FIXTURE);
+// `npm run mock-prpc -- record [endpoint] [file]` records a fixture
+// =============================================================================
+
+import '../collector/env';
+import { startMockPrpcServer, recordFixture } from '@/lib/mockPrpc';
+import { PRPC_CONFIG } from '@/lib/constants';
+
+const DEFAULT_FIXTURE = 'fixtures/prpc/recorded.json';
+
+async function main() {
+  const [command, endpoint = PRPC_CONFIG.endpoint, file = DEFAULT_FIXTURE] = process.argv.slice(2);
+
+  if (command === 'record') {
+    const fixture = await recordFixture(endpoint, file);
+    console.log(
+      `[Mock pRPC] Wrote ${Object.keys(fixture.responses).length} responses from ${endpoint} to ${file}`
+    );
+    return;
+  }
+
+  const server = await startMockPrpcServer();
+
+  const shutdown = async (signal: string) => {
+    console.log(`[Mock pRPC] ${signal} received, stopping`);
+    await server.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+}
+
+main().catch((error) => {
+  console.error('[Mock pRPC] Failed:', error);
+  process.exit(1);
+});
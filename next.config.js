@@ -1,3 +1,10 @@
+const { loadRuntimeConfig } = require('./config/load-runtime-config');
+
+// Validated at startup so an invalid configuration stops the build or server
+// with every problem listed. The app loads its own copy at runtime
+// (lib/config.ts); only the cache headers below are fixed at build time.
+const runtimeConfig = loadRuntimeConfig();
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
@@ -11,7 +18,10 @@ const nextConfig = {
       {
         source: '/api/:path*',
         headers: [
-          { key: 'Cache-Control', value: 's-maxage=60, stale-while-revalidate=300' },
+          {
+            key: 'Cache-Control',
+            value: `s-maxage=${runtimeConfig.cache.pods}, stale-while-revalidate=${runtimeConfig.cache.swr}`,
+          },
         ],
       },
     ];
@@ -26,12 +26,15 @@ export interface PNode extends PNodeRaw {
   ip: string; // Extracted from address
   gossipPort: number; // Extracted from address
   status: NodeStatus;
+  versionStatus: VersionStatus; // Relative to the current release
   healthScore: number;
   lastSeenDate: Date;
   storageCommittedFormatted: string;
   storageUsedFormatted: string;
   uptimeFormatted: string;
   region?: string; // Derived from IP geolocation if available
+  restartCount?: number; // Restarts detected in the recent window, when history is available
+  seenBy?: string[]; // pRPC endpoints whose gossip lists this node, in consensus mode
 }
 
 /**
@@ -39,6 +42,38 @@ export interface PNode extends PNodeRaw {
  */
 export type NodeStatus = 'online' | 'degraded' | 'offline';
 
+/**
+ * Where a node's software stands relative to the current release
+ */
+export type VersionStatus = 'current' | 'patch-behind' | 'one-minor-behind' | 'unsupported';
+
+/**
+ * How the current release is determined: the highest stable version seen in
+ * gossip, or the operator's release manifest
+ */
+export type ReleasePolicy = 'observed' | 'manifest';
+
+/**
+ * Parsed semantic version
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+  build: string | null;
+}
+
+/**
+ * The release nodes are measured against
+ */
+export interface ReleaseInfo {
+  current: string;
+  policy: ReleasePolicy;
+  // Release name from the manifest, when it describes the current release
+  name: string | null;
+}
+
 /**
  * pRPC JSON-RPC 2.0 request format
  */
@@ -103,6 +138,272 @@ export interface PodsResponse {
   total_count: number;
 }
 
+/**
+ * A record field in a pRPC result that failed its schema
+ */
+export interface SchemaIssue {
+  method: string;
+  index: number | null; // Position in the pod list; null for single-object results
+  pubkey: string | null; // When the record has a usable one
+  field: string;
+  value: unknown; // As received
+  problem: string; // e.g. "missing", "expected number", "negative"
+  dropped: boolean; // The whole record was discarded, not just the field defaulted
+}
+
+/**
+ * Outcome of validating one pRPC result, or several merged
+ */
+export interface ParseReport {
+  method: string;
+  timestamp: number;
+  shape: 'object' | 'array' | 'invalid'; // { pods: [...] }, a bare array, or neither
+  received: number; // Records in the result
+  accepted: number;
+  dropped: number;
+  nullFields: Record<string, number>; // Nullable fields that were null and defaulted
+  issues: SchemaIssue[];
+}
+
+/**
+ * Kinds of suspect gossip data:
+ * dropped - pod discarded for a missing or invalid required field
+ * invalid-field - field of the wrong type or out of range, defaulted
+ * storage-overcommitted - storage_used greater than storage_committed
+ * usage-mismatch - storage_usage_percent disagrees with used/committed
+ * future-timestamp - last_seen_timestamp ahead of the clock
+ * duplicate-ip - one IP address gossiped by several pubkeys
+ * bad-address - address that parseAddress cannot split into IP and port
+ */
+export type DataAnomalyKind =
+  | 'dropped'
+  | 'invalid-field'
+  | 'storage-overcommitted'
+  | 'usage-mismatch'
+  | 'future-timestamp'
+  | 'duplicate-ip'
+  | 'bad-address';
+
+/**
+ * One suspect value in the gossip data
+ */
+export interface DataAnomaly {
+  kind: DataAnomalyKind;
+  pubkey: string | null; // Null when the pod has no usable pubkey, or for duplicate IPs
+  field: string;
+  value: unknown;
+  detail: string;
+  related: string[]; // Other pubkeys involved, e.g. sharing the IP
+}
+
+/**
+ * Anomalies in a network's current pod list
+ */
+export interface DataQualityReport {
+  timestamp: number;
+  network: string;
+  received: number; // Pods in the pRPC result, including dropped ones
+  checked: number; // Pods that passed validation and were checked
+  affectedPods: number; // Distinct pubkeys with at least one anomaly
+  counts: Record<DataAnomalyKind, number>;
+  anomalies: DataAnomaly[];
+  parse: ParseReport | null; // Validation of the pod list, when known
+}
+
+/**
+ * How pod lists are gathered from the configured pRPC endpoints:
+ * first - the first endpoint that answers
+ * consensus - every endpoint in parallel, merged by pubkey
+ */
+export type PrpcMode = 'first' | 'consensus';
+
+/**
+ * A cluster the dashboard can be pointed at
+ */
+export interface NetworkConfig {
+  name: string;
+  endpoints: string[]; // In order of preference
+  proxyUrl: string; // Browser-side proxy; empty to use this app's /api/proxy
+}
+
+/**
+ * Validated runtime configuration (see config/runtime-config.js)
+ */
+export interface RuntimeConfig {
+  network: {
+    name: string;
+  };
+  prpc: {
+    endpoints: string[]; // In order of preference, first is primary
+    timeout: number; // ms
+    retries: number;
+    retryDelay: number; // ms
+    mode: PrpcMode;
+  };
+  proxyUrl: string; // Proxy used by the browser-side fetcher
+  mockUrl: string; // Local mock pRPC server, empty when unused
+  versionPolicy: ReleasePolicy;
+  cache: {
+    pods: number; // TTLs in seconds
+    stats: number;
+    version: number;
+    swr: number;
+  };
+  networks: NetworkConfig[]; // The default network first
+}
+
+/**
+ * Pods returned by one endpoint, or the reason it returned none
+ */
+export interface EndpointPods {
+  endpoint: string;
+  pods: PNodeRaw[];
+  error: string | null;
+  latency: number; // ms
+  report: ParseReport | null; // Null when the endpoint failed
+}
+
+/**
+ * One endpoint's answer to a consensus query
+ */
+export interface EndpointView {
+  endpoint: string;
+  ok: boolean;
+  error: string | null;
+  latency: number; // ms until the endpoint answered or failed
+  nodeCount: number;
+  coverage: number; // Percent of merged nodes this endpoint sees
+  exclusiveCount: number; // Nodes no other endpoint sees
+}
+
+/**
+ * Nodes sharing the same set of endpoints that see them
+ */
+export interface VisibilityGroup {
+  endpoints: string[];
+  count: number;
+}
+
+/**
+ * Circuit breaker state of a pRPC endpoint:
+ * closed - in use
+ * open - skipped until its cooldown ends
+ * half-open - cooldown over, the next request is a trial
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Observed health of one pRPC endpoint
+ */
+export interface EndpointHealth {
+  endpoint: string;
+  circuit: CircuitState;
+  requests: number; // Requests in the recent window
+  successRate: number; // Percent of recent requests that succeeded
+  latency: {
+    p50: number;
+    p90: number;
+    p99: number;
+  } | null; // ms, over recent successful requests
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  lastSuccessAt: number | null;
+  retryAt: number | null; // When an open circuit allows a trial request
+}
+
+/**
+ * Gossip agreement across all configured pRPC endpoints
+ */
+export interface ConsensusReport {
+  timestamp: number;
+  endpoints: EndpointView[];
+  respondingCount: number;
+  totalNodes: number;
+  agreement: number; // Percent of nodes seen by every responding endpoint
+  partitioned: boolean; // Agreement fell below CONSENSUS_CONFIG.partitionThreshold
+  groups: VisibilityGroup[]; // Largest first
+  partialNodes: {
+    pubkey: string;
+    seenBy: string[];
+    missingFrom: string[];
+  }[];
+}
+
+/**
+ * System stats reported by a public node's own RPC port, as last collected
+ */
+export interface NodeDeepStats {
+  pubkey: string;
+  endpoint: string; // The node's RPC URL
+  collectedAt: number; // Last attempt
+  lastSuccessAt: number | null;
+  error: string | null; // Why the last attempt failed; older data is kept
+  version: string | null; // Reported by get-version
+  stats: StatsResponse['stats'] | null;
+  fileSize: number | null;
+  // Packet rates between the last two successful collections
+  throughput: {
+    packetsInPerSec: number;
+    packetsOutPerSec: number;
+  } | null;
+}
+
+/**
+ * Recorded pRPC responses served by the mock server, keyed by method
+ */
+export interface PrpcFixture {
+  recordedAt: number; // Unix ms; pod timestamps are shifted forward from here
+  source: string; // Endpoint the responses were recorded from
+  responses: Record<string, unknown>;
+}
+
+/**
+ * Kinds of change between two successive pod lists
+ */
+export type NodeChangeKind = 'added' | 'removed' | 'status' | 'version' | 'storage';
+
+/**
+ * One change to a node between two poll cycles. Storage changes are
+ * changes to storage_committed.
+ */
+export interface NodeChange {
+  kind: NodeChangeKind;
+  pubkey: string;
+  from: string | number | null; // Null for added nodes
+  to: string | number | null; // Null for removed nodes
+  timestamp: number; // Unix ms of the poll that saw it
+}
+
+/**
+ * Changed fields of a node that stayed in gossip
+ */
+export interface NodePatch {
+  pubkey: string;
+  fields: Partial<PNode>;
+}
+
+/**
+ * Difference between two successive pod lists, enough to turn the first
+ * into the second
+ */
+export interface NodesDiff {
+  network: string;
+  timestamp: number;
+  added: PNode[];
+  removed: string[]; // Pubkeys
+  updated: NodePatch[];
+  changes: NodeChange[];
+}
+
+/**
+ * Messages on the /api/stream server-sent event stream
+ */
+export type StreamMessage =
+  | { type: 'snapshot'; network: string; timestamp: number; nodes: PNode[] }
+  | ({ type: 'diff' } & NodesDiff)
+  | { type: 'poll-error'; network: string; timestamp: number; error: string };
+
 /**
  * Aggregated network statistics
  */
@@ -119,6 +420,19 @@ export interface NetworkStats {
   storageUtilization: number;
 }
 
+/**
+ * One configured network's current state, for side-by-side comparison
+ */
+export interface NetworkSummary {
+  name: string;
+  isDefault: boolean;
+  endpointCount: number;
+  stats: NetworkStats | null; // Null when no endpoint answered
+  currentRelease: string | null;
+  error: string | null;
+  latency: number; // ms to fetch the pod list
+}
+
 /**
  * Chart data point for time series
  */
@@ -135,6 +449,7 @@ export interface VersionDistributionItem {
   version: string;
   count: number;
   percentage: number;
+  status: VersionStatus;
 }
 
 /**
@@ -177,7 +492,55 @@ export interface HealthFactors {
 }
 
 /**
- * Node history entry for client-side tracking
+ * Why a single health factor scored what it did
+ */
+export interface HealthFactorExplanation {
+  factor: keyof HealthFactors;
+  // Raw input: uptime seconds, status, utilization percent or version
+  input: number | string;
+  // The band or rule the input fell into
+  rule: string;
+  // Factor score (0-100) and its normalized weight in the total
+  factorScore: number;
+  weight: number;
+  // Score points lost to this factor
+  pointsLost: number;
+  // What would recover the points, and how many it would recover
+  action: string | null;
+  recoverablePoints: number;
+}
+
+/**
+ * Structured breakdown of a node's health score
+ */
+export interface HealthExplanation {
+  score: number;
+  profile: string;
+  scoreVersion: number;
+  factors: HealthFactorExplanation[];
+}
+
+/**
+ * Named health scoring profile (see config/health-profiles.json)
+ */
+export interface HealthProfile {
+  name: string;
+  label: string;
+  description: string;
+  // Relative weight of each factor; normalized to sum to 1
+  weights: HealthFactors;
+  // Uptime earns full points at this many days
+  uptimeCapDays: number;
+  // Recency factor for each status
+  recency: Record<NodeStatus, number>;
+  // Storage factor by utilization: first band whose upTo (percent) is not exceeded
+  storageBands: { upTo: number; score: number }[];
+  // Version factor for each version status
+  version: Record<VersionStatus, number>;
+}
+
+/**
+ * Node history entry built from stored snapshots
  */
 export interface NodeHistoryEntry {
   timestamp: number;
@@ -185,6 +548,457 @@ export interface NodeHistoryEntry {
   storageUsed: number;
   storageUsagePercent: number;
   status: NodeStatus;
+  healthScore: number;
+  version: string;
+  inGossip: boolean; // False when the node was absent from the snapshot; values are carried over
+}
+
+/**
+ * Node record as persisted in a network snapshot
+ */
+export interface NodeSnapshot extends PNodeRaw {
+  status: NodeStatus;
+  healthScore: number;
+}
+
+/**
+ * Point-in-time view of the network as recorded by the snapshot store
+ */
+export interface NetworkSnapshot {
+  timestamp: number; // Unix ms when the poll completed
+  nodes: NodeSnapshot[];
+  stats: NetworkStats;
+  samples?: number; // Number of polls this record stands for once downsampled
+}
+
+/**
+ * A snapshot without its node list, kept in a small index beside each day
+ * file so network-wide queries need not read every node
+ */
+export type SnapshotSummary = Omit<NetworkSnapshot, 'nodes'>;
+
+/**
+ * One snapshot's record of a single node, or null if it was not in the poll
+ */
+export interface NodeSample {
+  timestamp: number;
+  node: NodeSnapshot | null;
+}
+
+/**
+ * Snapshot storage tiers, from finest to coarsest
+ */
+export type SnapshotTier = 'raw' | 'hourly' | 'daily';
+
+/**
+ * Network-wide history point derived from stored snapshots
+ */
+export interface NetworkHistoryPoint {
+  timestamp: number;
+  totalNodes: number;
+  onlineNodes: number;
+  degradedNodes: number;
+  offlineNodes: number;
+  onlinePercentage: number;
+  averageHealthScore: number;
+  storageUtilization: number;
+  totalStorageCommitted: number;
+  totalStorageUsed: number;
+}
+
+/**
+ * The last time a node was seen in gossip, kept so a node that drops out
+ * while it restarts is compared with how it was before it left
+ */
+export interface NodeObservation {
+  node: NodeSnapshot;
+  at: number; // Unix ms of the snapshot it was seen in
+}
+
+/**
+ * How a restart relates to the node's version
+ */
+export type RestartKind = 'upgrade' | 'downgrade' | 'crash';
+
+/**
+ * Restart detected from an uptime reset between two observations
+ */
+export interface RestartEvent {
+  pubkey: string;
+  detectedAt: number; // Unix ms of the observation that revealed the restart
+  estimatedAt: number; // Unix ms the node most likely came back up
+  uptimeBefore: number; // Seconds, last observation before the restart
+  uptimeAfter: number; // Seconds, first observation after the restart
+  versionBefore: string;
+  versionAfter: string;
+  kind: RestartKind;
+}
+
+/**
+ * Things that happen to a node, found by comparing successive snapshots
+ */
+export type NodeEventType =
+  | 'joined' // Appeared in gossip
+  | 'left' // Disappeared from gossip
+  | 'degraded'
+  | 'offline'
+  | 'recovered' // Back online
+  | 'upgraded'
+  | 'downgraded'
+  | 'restarted'
+  | 'storage-changed'; // storage_committed changed
+
+/**
+ * One recorded node event
+ */
+export interface NodeEvent {
+  id: string;
+  type: NodeEventType;
+  pubkey: string;
+  timestamp: number; // Unix ms of the snapshot that revealed it
+  from: string | number | null; // Previous status, version, uptime or commitment
+  to: string | number | null; // New value; null when the node left
+}
+
+/**
+ * How urgent an alert is
+ */
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * What an alert rule watches
+ */
+export type AlertRuleType =
+  | 'status' // Node status is one of `statuses`
+  | 'health-below' // Node health score below `threshold`
+  | 'storage-above' // Node storage_usage_percent above `threshold`
+  | 'version-behind' // Node version status is one of `versionStatuses`
+  | 'node-missing' // Node seen before is no longer in gossip
+  | 'network-online-below'; // Percent of nodes online below `threshold`
+
+/**
+ * A declarative alert rule from config/alert-rules.json
+ */
+export interface AlertRule {
+  id: string;
+  name: string;
+  type: AlertRuleType;
+  severity: AlertSeverity;
+  threshold?: number; // Fires when crossed
+  clearAt?: number; // Resolves only once crossed back (hysteresis); defaults to threshold
+  statuses?: NodeStatus[];
+  versionStatuses?: VersionStatus[];
+  forMinutes: number; // How long the condition must hold before firing
+  pubkeys?: string[]; // Limit node rules to these nodes
+  enabled: boolean;
+}
+
+/**
+ * Evaluation state of one rule for one subject (a node or the network)
+ */
+export interface AlertState {
+  key: string; // `${ruleId}:${pubkey}`, or `${ruleId}:network`
+  ruleId: string;
+  pubkey: string | null; // Null for network-wide rules
+  since: number; // Unix ms the condition was first seen
+  firing: boolean; // False while waiting out forMinutes
+  firedAt: number | null;
+  value: string | number | null; // Latest observed value
+}
+
+/**
+ * A rule starting or stopping firing for a subject
+ */
+export interface AlertTransition {
+  key: string;
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  pubkey: string | null;
+  network: string;
+  state: 'firing' | 'resolved';
+  value: string | number | null;
+  message: string;
+  timestamp: number;
+}
+
+/**
+ * Where an alert is in its lifecycle
+ */
+export type AlertStatus = 'firing' | 'acknowledged' | 'silenced' | 'resolved';
+
+/**
+ * Mutes alerts of one rule, one node, or one rule on one node for a while
+ */
+export interface AlertSilence {
+  id: string;
+  ruleId: string | null; // Null matches every rule
+  pubkey: string | null; // Null matches every subject
+  startsAt: number;
+  endsAt: number;
+  reason: string;
+  createdAt: number;
+}
+
+/**
+ * Something done to alerts through the API, kept in an append-only log
+ */
+export type AlertAction =
+  | { type: 'acknowledge'; alertId: string; at: number; note: string | null }
+  | { type: 'silence'; silence: AlertSilence }
+  | { type: 'expire-silence'; silenceId: string; at: number };
+
+/**
+ * One episode of a rule firing for a subject, from firing to resolved
+ */
+export interface AlertInstance {
+  id: string; // `${key}@${firedAt}`
+  key: string; // Deduplication key: one open instance per key
+  ruleId: string;
+  ruleName: string;
+  severity: AlertSeverity;
+  pubkey: string | null;
+  network: string;
+  message: string; // As fired
+  value: string | number | null;
+  status: AlertStatus;
+  firedAt: number;
+  resolvedAt: number | null;
+  acknowledgedAt: number | null;
+  acknowledgeNote: string | null;
+  silencedUntil: number | null; // End of the silence muting it, while one does
+}
+
+/**
+ * Everything the alerts page shows for one network
+ */
+export interface AlertsOverview {
+  rules: AlertRule[];
+  open: AlertInstance[]; // Newest first
+  past: AlertInstance[]; // Resolved within the requested range, newest first
+  pending: AlertState[]; // Conditions holding but not yet for long enough
+  silences: AlertSilence[]; // Current and upcoming
+}
+
+/**
+ * Where alert notifications can be sent
+ */
+export type AlertChannelType = 'webhook' | 'slack' | 'discord' | 'telegram';
+
+/**
+ * A notification channel from the alert channels file
+ */
+export interface AlertChannel {
+  id: string;
+  name: string;
+  type: AlertChannelType;
+  url?: string; // Webhook, Slack or Discord URL
+  secret?: string; // Webhook HMAC signing secret
+  botToken?: string; // Telegram bot token
+  chatId?: string; // Telegram chat
+  apiUrl?: string; // Telegram API base URL, for testing against a local sink
+  minSeverity: AlertSeverity; // Quieter alerts are not sent
+  rules?: string[]; // Only alerts from these rules
+  networks?: string[]; // Only alerts on these networks
+  sendResolved: boolean;
+  enabled: boolean;
+}
+
+/**
+ * A channel as shown in the UI, without URLs, tokens or secrets
+ */
+export interface AlertChannelSummary {
+  id: string;
+  name: string;
+  type: AlertChannelType;
+  target: string; // Host the channel posts to
+  signed: boolean;
+  minSeverity: AlertSeverity;
+  rules: string[] | null;
+  networks: string[] | null;
+  sendResolved: boolean;
+  enabled: boolean;
+}
+
+/**
+ * One attempt to deliver an alert to a channel, retries included
+ */
+export interface AlertDelivery {
+  id: string;
+  channelId: string;
+  channelType: AlertChannelType;
+  alertKey: string;
+  alertState: AlertTransition['state'];
+  network: string;
+  test: boolean;
+  timestamp: number; // Unix ms of the first attempt
+  attempts: number;
+  ok: boolean;
+  status: number | null; // HTTP status of the last attempt
+  error: string | null;
+  duration: number; // ms from the first attempt to the last response
+}
+
+/**
+ * Overall network state, from getNetworkHealthSummary
+ */
+export type NetworkHealthStatus = 'healthy' | 'warning' | 'critical';
+
+/**
+ * A node hit during an incident
+ */
+export interface IncidentNode {
+  pubkey: string;
+  ip: string;
+  version: string;
+  status: NodeStatus | 'missing'; // Worst seen during the incident
+  since: number; // Unix ms it was first seen affected
+}
+
+/**
+ * Affected nodes sharing a region, ISP or version
+ */
+export interface IncidentGroup {
+  name: string;
+  count: number;
+}
+
+/**
+ * A change in an incident, shown on its timeline
+ */
+export interface IncidentUpdate {
+  at: number;
+  status: NetworkHealthStatus;
+  message: string;
+}
+
+/**
+ * A network-wide outage: opened when the network summary worsens or many
+ * nodes drop at once, closed once it has been stable for a while
+ */
+export interface Incident {
+  id: string;
+  network: string;
+  title: string;
+  severity: Exclude<NetworkHealthStatus, 'healthy'>; // Worst reached
+  startedAt: number;
+  endedAt: number | null; // Null while ongoing
+  healthySince: number | null; // Set while waiting out the quiet period
+  baseline: NetworkHealthStatus; // Network summary in the poll before it opened
+  affected: IncidentNode[];
+  peak: {
+    at: number;
+    affected: number; // Nodes not online or missing at the worst poll
+    total: number;
+    onlinePercent: number;
+  };
+  // Affected nodes grouped to hint at a common cause, largest first
+  groups: {
+    region: IncidentGroup[];
+    isp: IncidentGroup[];
+    version: IncidentGroup[];
+  };
+  updates: IncidentUpdate[];
+}
+
+/**
+ * How one collector poll went: the network summary, or unreachable when no
+ * endpoint returned the pod list
+ */
+export type PollOutcome = NetworkHealthStatus | 'unreachable';
+
+/**
+ * How a day looked on the status page: every poll up and healthy, some
+ * trouble, or under the outage threshold
+ */
+export type AvailabilityStatus = 'operational' | 'degraded' | 'outage' | 'no-data';
+
+/**
+ * One UTC day of a status page availability bar
+ */
+export interface AvailabilityDay {
+  day: string; // YYYY-MM-DD
+  polls: number;
+  uptime: number | null; // Percent of polls up; null without polls
+  status: AvailabilityStatus;
+}
+
+/**
+ * Daily availability of the network or one pRPC endpoint, oldest day first
+ */
+export interface AvailabilitySeries {
+  name: string;
+  uptime: number | null; // Percent of all polls in the period
+  days: AvailabilityDay[];
+}
+
+/**
+ * Share of nodes on each version at one point in time
+ */
+export interface RolloutPoint {
+  timestamp: number;
+  totalNodes: number;
+  shares: Record<string, number>; // version -> percent of nodes
+}
+
+/**
+ * How quickly a version was adopted
+ */
+export interface ReleaseAdoption {
+  version: string;
+  stable: boolean;
+  firstSeen: number;
+  // True when the version was already present in the oldest stored
+  // snapshot, so it may have been released earlier
+  seenAtHistoryStart: boolean;
+  share: number; // Percent of nodes on exactly this version now
+  adoption: number; // Percent of nodes on this version or newer now
+  // ms from first seen until adoption (this version or newer) reached 50%/90%;
+  // null if not reached yet or if the version was seen at the history start
+  timeTo50: number | null;
+  timeTo90: number | null;
+}
+
+/**
+ * Node that has not upgraded within the grace period after a release
+ */
+export interface Laggard {
+  pubkey: string;
+  version: string;
+  versionStatus: VersionStatus;
+  status: NodeStatus;
+}
+
+/**
+ * Version rollout over a time range
+ */
+export interface VersionRollout {
+  versions: string[]; // Newest first
+  series: RolloutPoint[];
+  releases: ReleaseAdoption[];
+  laggards: {
+    // Newest stable release first seen at least graceDays ago
+    release: string | null;
+    releasedAt: number | null;
+    graceDays: number;
+    nodes: Laggard[];
+  };
+}
+
+/**
+ * Liveness status published by the background collector
+ */
+export interface CollectorStatus {
+  pid: number;
+  startedAt: number;
+  interval: number; // Poll interval in ms
+  pollCount: number;
+  lastPollAt: number | null;
+  lastSuccessAt: number | null;
+  lastDuration: number | null; // ms taken by the last poll
+  lastNodeCount: number | null;
+  lastError: string | null;
+  consecutiveFailures: number;
 }
 
 /**